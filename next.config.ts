@@ -1,7 +1,11 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Chromium for /api/print is loaded from node_modules at runtime instead of being bundled
+  serverExternalPackages: ["@sparticuz/chromium", "puppeteer-core"],
+  outputFileTracingIncludes: {
+    "/api/print": ["./node_modules/@sparticuz/chromium/bin/**", "./node_modules/@fontsource/noto-naskh-arabic/{400,700}.css", "./node_modules/@fontsource/noto-naskh-arabic/files/*.woff2"],
+  },
 };
 
 export default nextConfig;
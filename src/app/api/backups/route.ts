@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getSupabaseAdminClient } from "../../../lib/supabaseClient";
+import {
+  BACKUP_SCHEMA_VERSION,
+  DEFAULT_KEEP_DAILY,
+  DEFAULT_KEEP_MONTHLY,
+  backupRowCounts,
+  backupsToPrune,
+  snapshotTables,
+} from "../../../lib/backup";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+type OwnerResult = {
+  owner_id: string;
+  status: "created" | "skipped" | "empty" | "failed";
+  pruned: number;
+  error?: string;
+};
+
+const USERS_PAGE_SIZE = 1000;
+
+function errorMessage(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  return (e as { message?: string } | null)?.message || "error";
+}
+
+async function listOwners(supabase: SupabaseClient): Promise<string[]> {
+  const owners: string[] = [];
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage: USERS_PAGE_SIZE });
+    if (error) throw error;
+    owners.push(...data.users.map((u) => u.id));
+    if (data.users.length < USERS_PAGE_SIZE) return owners;
+  }
+}
+
+// One scheduled snapshot per owner per UTC day, so a retried cron run does not duplicate it.
+// Retention only ever prunes scheduled backups; manual ones are never deleted here.
+async function backupOwner(supabase: SupabaseClient, ownerId: string, today: string, keepDaily: number, keepMonthly: number): Promise<OwnerResult> {
+  const { data: existing, error: readError } = await supabase
+    .from("backups")
+    .select("id, created_at")
+    .eq("owner_id", ownerId)
+    .eq("source", "scheduled")
+    .order("created_at", { ascending: false });
+  if (readError) throw readError;
+  const scheduled = (existing || []) as Array<{ id: number; created_at: string }>;
+
+  let status: OwnerResult["status"] = "skipped";
+  if (!scheduled.some((b) => b.created_at.slice(0, 10) === today)) {
+    const payload = await snapshotTables(supabase, ownerId);
+    const rowCounts = backupRowCounts(payload);
+    if (Object.values(rowCounts).every((n) => n === 0)) {
+      status = "empty";
+    } else {
+      const { data: inserted, error } = await supabase
+        .from("backups")
+        .insert({ owner_id: ownerId, schema_version: BACKUP_SCHEMA_VERSION, source: "scheduled", row_counts: rowCounts, payload })
+        .select("id, created_at")
+        .single();
+      if (error) throw error;
+      scheduled.unshift(inserted as { id: number; created_at: string });
+      status = "created";
+    }
+  }
+
+  const prune = backupsToPrune(scheduled, keepDaily, keepMonthly, today);
+  if (prune.length) {
+    const { error } = await supabase.from("backups").delete().eq("owner_id", ownerId).in("id", prune);
+    if (error) throw error;
+  }
+  return { owner_id: ownerId, status, pruned: prune.length };
+}
+
+export async function GET(req: Request) {
+  const startedAt = new Date().toISOString();
+  let supabase: SupabaseClient | null = null;
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (cronSecret) {
+      const auth = req.headers.get("authorization") || req.headers.get("Authorization") || "";
+      const expected = `Bearer ${cronSecret}`;
+      if (auth !== expected) {
+        return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+      }
+    }
+    supabase = getSupabaseAdminClient();
+    const keepDaily = Number(process.env.BACKUP_KEEP_DAILY) || DEFAULT_KEEP_DAILY;
+    const keepMonthly = Number(process.env.BACKUP_KEEP_MONTHLY) || DEFAULT_KEEP_MONTHLY;
+    const today = startedAt.slice(0, 10);
+
+    // Owners are backed up one at a time; one failing owner is recorded and does not stop the others.
+    const results: OwnerResult[] = [];
+    for (const ownerId of await listOwners(supabase)) {
+      try {
+        results.push(await backupOwner(supabase, ownerId, today, keepDaily, keepMonthly));
+      } catch (e) {
+        results.push({ owner_id: ownerId, status: "failed", pruned: 0, error: errorMessage(e) });
+      }
+    }
+
+    const count = (status: OwnerResult["status"]) => results.filter((r) => r.status === status).length;
+    const summary = {
+      owners: results.length,
+      created: count("created"),
+      skipped: count("skipped"),
+      empty: count("empty"),
+      failed: count("failed"),
+      pruned: results.reduce((acc, r) => acc + r.pruned, 0),
+    };
+    const { error } = await supabase
+      .from("backup_runs")
+      .insert({ started_at: startedAt, finished_at: new Date().toISOString(), ok: summary.failed === 0, ...summary, details: results });
+    if (error) throw error;
+    return NextResponse.json({ ok: summary.failed === 0, ...summary }, { status: summary.failed ? 500 : 200 });
+  } catch (e) {
+    const message = errorMessage(e);
+    // A run that died before finishing is still recorded, if the database is reachable at all.
+    await supabase?.from("backup_runs").insert({ started_at: startedAt, finished_at: new Date().toISOString(), ok: false, error: message });
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
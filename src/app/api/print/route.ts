@@ -0,0 +1,260 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import chromium from "@sparticuz/chromium";
+import puppeteer from "puppeteer-core";
+import { getSupabaseUserClient } from "../../../lib/supabaseClient";
+import type { DbInvoice, DbSettings } from "../../../lib/db";
+import { documentsHtml, type PrintData, type PrintInvoice, type PrintLine } from "../../../lib/printDocuments";
+
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+// Invoices and receipts as A4 PDFs, built from the owner's rows in Supabase (not the browser cache):
+//   GET /api/print?invoice=<id>      one invoice
+//   GET /api/print?payment=<id>      one payment receipt
+//   GET /api/print?period=2026-05    every non-voided invoice of the period (or 2026 for yearly)
+// The caller sends its Supabase access token as a bearer token, so RLS scopes every read to that owner.
+
+type Currency = "JOD" | "ILS";
+
+const INVOICE_COLUMNS =
+  "id, unit_id, tenant_id, period, scope, rent_base, utilities_base, total_base, currency, jod_to_ils_rate, rent_amount, rent_currency, utilities_jod, utilities_ils, voided_at, number, proration_note";
+
+// Invoices issued before amounts were frozen are read in the current base currency and rate, as in the app.
+function toPrintInvoice(i: DbInvoice, settings: DbSettings): PrintInvoice {
+  const currency = (i.currency ?? settings.base_currency) as Currency;
+  return {
+    id: i.id,
+    unitId: i.unit_id,
+    tenantId: i.tenant_id,
+    period: i.period,
+    scope: i.scope,
+    totalBase: i.total_base,
+    currency,
+    jodToIlsRate: i.jod_to_ils_rate ?? settings.jod_to_ils_rate,
+    rentAmount: i.rent_amount ?? i.rent_base,
+    rentCurrency: (i.rent_currency ?? currency) as Currency,
+    utilitiesJod: i.utilities_jod ?? (currency === "JOD" ? i.utilities_base : 0),
+    utilitiesIls: i.utilities_ils ?? (currency === "ILS" ? i.utilities_base : 0),
+    prorationNote: i.proration_note ?? undefined,
+    voidedAt: i.voided_at ?? undefined,
+    number: i.number ?? undefined,
+  };
+}
+
+// Built-in charge types live in the app code, not in charge_types.
+const BUILTIN_CHARGE_LABELS: Record<string, string> = {
+  water: "مياه",
+  electricity: "كهرباء",
+  maintenance: "صيانة على المستأجر",
+  damages: "أضرار على المستأجر",
+};
+
+type UtilityRow = { unit_id: string; period: string; type: string; amount: number; currency: Currency; tenant_id: string | null };
+type ChargeTypeRow = { id: string; label_ar: string; default_amount: number; currency: Currency; recurrence: "recurring" | "oneoff"; applies_to: "apartment" | "shop" | "both" };
+
+// One line per charge type, rebuilt the way the invoice was drafted: the unit's charges for the period (other
+// tenants' charge-backs excluded) plus recurring types at their default amount when none was recorded.
+// If the rows changed after issue they no longer add up to the frozen totals, and the per-currency totals are printed instead.
+async function withUtilityLines(supabase: SupabaseClient, ownerId: string, invoices: PrintInvoice[]): Promise<PrintInvoice[]> {
+  const unitIds = Array.from(new Set(invoices.map((i) => i.unitId)));
+  const [utilities, chargeTypes, units] = await Promise.all([
+    supabase.from("utilities").select("unit_id, period, type, amount, currency, tenant_id").in("unit_id", unitIds).eq("owner_id", ownerId),
+    supabase.from("charge_types").select("id, label_ar, default_amount, currency, recurrence, applies_to").eq("owner_id", ownerId),
+    supabase.from("units").select("id, kind").in("id", unitIds).eq("owner_id", ownerId),
+  ]);
+  if (utilities.error) throw utilities.error;
+  if (chargeTypes.error) throw chargeTypes.error;
+  if (units.error) throw units.error;
+  const rows = (utilities.data || []) as UtilityRow[];
+  const types = (chargeTypes.data || []) as ChargeTypeRow[];
+  const kinds = new Map(((units.data || []) as Array<{ id: string; kind: string }>).map((u) => [u.id, u.kind]));
+  const label = (type: string) => types.find((t) => t.id === type)?.label_ar ?? BUILTIN_CHARGE_LABELS[type] ?? type;
+
+  return invoices.map((invoice) => {
+    const inPeriod = (period: string) => (invoice.scope === "monthly" ? period === invoice.period : period.startsWith(invoice.period));
+    const charges = rows.filter((u) => u.unit_id === invoice.unitId && inPeriod(u.period) && (!u.tenant_id || u.tenant_id === invoice.tenantId));
+    const recurring = types.filter(
+      (t) => t.recurrence === "recurring" && t.default_amount > 0 && (t.applies_to === "both" || t.applies_to === kinds.get(invoice.unitId)) && !charges.some((u) => u.type === t.id)
+    );
+    const byType = new Map<string, PrintLine>();
+    for (const c of [...charges, ...recurring.map((t) => ({ type: t.id, amount: t.default_amount, currency: t.currency }))]) {
+      const key = `${c.type}:${c.currency}`;
+      const line = byType.get(key) ?? { label: label(c.type), amount: 0, currency: c.currency };
+      byType.set(key, { ...line, amount: line.amount + Number(c.amount) });
+    }
+    const lines = Array.from(byType.values());
+    const total = (currency: Currency) => lines.filter((l) => l.currency === currency).reduce((acc, l) => acc + l.amount, 0);
+    const matches = Math.abs(total("JOD") - invoice.utilitiesJod) < 0.005 && Math.abs(total("ILS") - invoice.utilitiesIls) < 0.005;
+    return matches ? { ...invoice, utilityLines: lines } : invoice;
+  });
+}
+
+// null when the requested documents do not exist for this owner.
+async function loadDocuments(supabase: SupabaseClient, ownerId: string, query: URLSearchParams): Promise<{ data: PrintData; filename: string } | null> {
+  const { data: settingsRow, error: settingsError } = await supabase
+    .from("settings")
+    .select("base_currency, jod_to_ils_rate, building_name, building_address, logo_url")
+    .eq("owner_id", ownerId)
+    .maybeSingle();
+  if (settingsError) throw settingsError;
+  const settings: DbSettings = (settingsRow as DbSettings | null) ?? { base_currency: "JOD", jod_to_ils_rate: 5 };
+
+  const invoiceId = query.get("invoice");
+  const paymentId = query.get("payment");
+  const period = query.get("period");
+  let invoices: PrintInvoice[] = [];
+  let receipt: PrintData["receipt"];
+  let filename: string;
+
+  if (paymentId) {
+    const { data: payment, error } = await supabase
+      .from("payments")
+      .select("id, tenant_id, unit_id, date, amount, currency, note, number, voided_at")
+      .eq("id", paymentId)
+      .eq("owner_id", ownerId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!payment) return null;
+    const [allocations, rate] = await Promise.all([
+      supabase.from("payment_allocations").select("amount, invoice_id").eq("payment_id", paymentId).eq("owner_id", ownerId),
+      // The owner's manual rate wins over the shared one for the same day.
+      supabase
+        .from("exchange_rates")
+        .select("jod_to_ils_rate")
+        .or(`owner_id.is.null,owner_id.eq.${ownerId}`)
+        .lte("rate_date", payment.date)
+        .order("rate_date", { ascending: false })
+        .order("owner_id", { ascending: true, nullsFirst: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+    if (allocations.error) throw allocations.error;
+    if (rate.error) throw rate.error;
+    const allocated = (allocations.data || []) as Array<{ amount: number; invoice_id: string }>;
+    const { data: allocatedInvoices, error: invoicesError } = await supabase
+      .from("invoices")
+      .select(INVOICE_COLUMNS)
+      .in("id", allocated.map((a) => a.invoice_id))
+      .eq("owner_id", ownerId);
+    if (invoicesError) throw invoicesError;
+    const byId = new Map(((allocatedInvoices || []) as DbInvoice[]).map((i) => [i.id, toPrintInvoice(i, settings)]));
+    receipt = {
+      id: payment.id,
+      tenantId: payment.tenant_id,
+      unitId: payment.unit_id,
+      date: payment.date,
+      amount: payment.amount,
+      currency: payment.currency as Currency,
+      note: payment.note ?? undefined,
+      number: payment.number ?? undefined,
+      voidedAt: payment.voided_at ?? undefined,
+      jodToIlsRate: (rate.data as { jod_to_ils_rate: number } | null)?.jod_to_ils_rate ?? settings.jod_to_ils_rate,
+      allocations: allocated.map((a) => ({ amount: a.amount, invoice: byId.get(a.invoice_id) })),
+    };
+    filename = payment.number || payment.id;
+  } else {
+    let request = supabase.from("invoices").select(INVOICE_COLUMNS).eq("owner_id", ownerId);
+    request = invoiceId ? request.eq("id", invoiceId) : request.eq("period", period!).is("voided_at", null).order("number");
+    const { data: rows, error } = await request;
+    if (error) throw error;
+    invoices = ((rows || []) as DbInvoice[]).map((i) => toPrintInvoice(i, settings));
+    if (invoices.length === 0) return null;
+    invoices = await withUtilityLines(supabase, ownerId, invoices);
+    filename = invoiceId ? invoices[0].number || invoiceId : `invoices-${period}`;
+  }
+
+  const documents = [...invoices, ...(receipt ? [receipt] : [])];
+  const tenantIds = Array.from(new Set(documents.map((d) => d.tenantId)));
+  const unitIds = Array.from(new Set(documents.map((d) => d.unitId)));
+  const [tenants, units] = await Promise.all([
+    supabase.from("tenants").select("id, name").in("id", tenantIds).eq("owner_id", ownerId),
+    supabase.from("units").select("id, name").in("id", unitIds).eq("owner_id", ownerId),
+  ]);
+  if (tenants.error) throw tenants.error;
+  if (units.error) throw units.error;
+
+  return {
+    data: {
+      settings: { buildingName: settings.building_name ?? undefined, buildingAddress: settings.building_address ?? undefined, logoUrl: settings.logo_url ?? undefined },
+      tenants: (tenants.data || []) as Array<{ id: string; name: string }>,
+      units: (units.data || []) as Array<{ id: string; name: string }>,
+      invoices,
+      receipt,
+    },
+    filename,
+  };
+}
+
+// Noto Naskh Arabic ships with the app (@fontsource) and is inlined as data URLs, so rendering never waits on
+// a font host. The package's per-weight CSS keeps the unicode-range of each subset; only its URLs are replaced.
+const FONT_DIR = path.join(process.cwd(), "node_modules/@fontsource/noto-naskh-arabic");
+let fontFaces: Promise<string> | null = null;
+
+async function inlineFontFaces(weights: number[]): Promise<string> {
+  const sheets = await Promise.all(weights.map((w) => readFile(path.join(FONT_DIR, `${w}.css`), "utf8")));
+  const css = sheets.join("\n");
+  const files = Array.from(new Set(Array.from(css.matchAll(/url\(\.\/files\/([^)]+\.woff2)\)/g), (m) => m[1])));
+  const data = new Map(await Promise.all(files.map(async (f) => [f, (await readFile(path.join(FONT_DIR, "files", f))).toString("base64")] as const)));
+  return css.replace(/src: url\(\.\/files\/([^)]+\.woff2)\) format\('woff2'\)[^;]*;/g, (_m, f: string) => `src: url(data:font/woff2;base64,${data.get(f)}) format('woff2');`);
+}
+
+// CHROME_EXECUTABLE_PATH points at a local Chrome for `next dev`; on Vercel the bundled Chromium is used.
+async function renderPdf(html: string): Promise<Uint8Array> {
+  const browser = await puppeteer.launch({
+    args: chromium.args,
+    executablePath: process.env.CHROME_EXECUTABLE_PATH || (await chromium.executablePath()),
+    headless: true,
+  });
+  try {
+    const page = await browser.newPage();
+    await page.setContent(html, { waitUntil: "load" });
+    await page.evaluate(() => document.fonts.ready.then(() => undefined));
+    return await page.pdf({ format: "A4", printBackground: true, preferCSSPageSize: true });
+  } finally {
+    await browser.close();
+  }
+}
+
+// filename* carries the real (possibly Arabic) name; filename is a plain ASCII fallback for older clients.
+function contentDisposition(filename: string): string {
+  const ascii = filename.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `inline; filename="${ascii}"; filename*=UTF-8''${encoded}`;
+}
+
+export async function GET(req: Request) {
+  try {
+    const auth = req.headers.get("authorization") || req.headers.get("Authorization") || "";
+    const token = auth.startsWith("Bearer ") ? auth.slice("Bearer ".length) : "";
+    if (!token) return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+    const supabase = getSupabaseUserClient(token);
+    const { data: user, error: userError } = await supabase.auth.getUser(token);
+    if (userError || !user.user) return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+
+    const query = new URL(req.url).searchParams;
+    if (!query.get("invoice") && !query.get("payment") && !query.get("period")) {
+      return NextResponse.json({ ok: false, error: "specify invoice, payment or period" }, { status: 400 });
+    }
+    const documents = await loadDocuments(supabase, user.user.id, query);
+    if (!documents) return NextResponse.json({ ok: false, error: "not found" }, { status: 404 });
+    const { data, filename } = documents;
+    fontFaces ??= inlineFontFaces([400, 700]).catch((e) => {
+      fontFaces = null;
+      throw e;
+    });
+    const pdf = await renderPdf(documentsHtml(data, await fontFaces));
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": contentDisposition(`${filename}.pdf`),
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : (e as { message?: string } | null)?.message || "error";
+    return NextResponse.json({ ok: false, error: message }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
-// import { getSupabaseClient } from "../../../lib/supabaseClient";
+import { getSupabaseAdminClient } from "../../../lib/supabaseClient";
+import { DEFAULT_MAX_JUMP, fetchJodIlsRate, providersFromEnv } from "../../../lib/rateProviders";
 
 export const dynamic = "force-dynamic";
 
@@ -13,20 +14,41 @@ export async function GET(req: Request) {
         return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
       }
     }
-    const apiKey = process.env.NEXT_PUBLIC_CURRENCYAPI_KEY;
-    if (!apiKey) return NextResponse.json({ ok: false, error: "missing currencyapi key" }, { status: 400 });
-    const url = `https://api.currencyapi.com/v3/latest?base_currency=JOD&currencies=ILS&apikey=${apiKey}`;
-    const r = await fetch(url, { cache: "no-store" });
-    const j = await r.json();
-    const rate = j?.data?.ILS?.value;
-    if (typeof rate !== "number") throw new Error("invalid rate");
+    const providers = providersFromEnv();
+    if (providers.length === 0) return NextResponse.json({ ok: false, error: "no rate providers configured" }, { status: 400 });
 
-    // Optionally, persist on server with service role here.
-    return NextResponse.json({ ok: true, rate });
+    const supabase = getSupabaseAdminClient();
+    const today = new Date().toISOString().slice(0, 10);
+    const { data: previous, error: prevError } = await supabase
+      .from("exchange_rates")
+      .select("jod_to_ils_rate")
+      .is("owner_id", null)
+      .lt("rate_date", today)
+      .order("rate_date", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (prevError) throw prevError;
+
+    const maxJump = Number(process.env.RATE_MAX_JUMP) || DEFAULT_MAX_JUMP;
+    let result;
+    try {
+      result = await fetchJodIlsRate(providers, previous?.jod_to_ils_rate ?? null, maxJump);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "rate fetch failed";
+      return NextResponse.json({ ok: false, error: message }, { status: 502 });
+    }
+
+    // The shared rate (owner_id null); owners' manual overrides are separate rows and win for them.
+    const { error } = await supabase
+      .from("exchange_rates")
+      .upsert(
+        { rate_date: today, owner_id: null, jod_to_ils_rate: result.rate, source: "api", provider: result.provider, updated_at: new Date().toISOString() },
+        { onConflict: "rate_date,owner_id" }
+      );
+    if (error) throw error;
+    return NextResponse.json({ ok: true, persisted: true, ...result });
   } catch (e) {
     const message = e instanceof Error ? e.message : "error";
     return NextResponse.json({ ok: false, error: message }, { status: 500 });
   }
 }
-
-
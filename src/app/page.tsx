@@ -1,31 +1,68 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
 import { getSupabaseClient } from "../lib/supabaseClient";
+import { downloadCsv, downloadXlsx, readSpreadsheet, type ExportTable } from "../lib/spreadsheet";
 import {
   dbUpsertSettings,
   dbFetchAll,
-  dbInsertUnit,
-  dbDeleteUnit,
-  dbInsertTenant,
-  dbToggleTenantActive,
-  dbDeleteTenant,
-  dbInsertUtility,
-  dbDeleteUtility,
-  dbInsertInvoice,
-  dbDeleteInvoice,
-  dbInsertPayment,
-  dbDeletePayment,
-  fetchJodIlsRate,
+  dbIssueInvoices,
+  dbSettleDeposit,
+  dbFetchLatestRate,
+  dbFetchDocumentPdf,
+  dbUploadReceipt,
+  dbReceiptUrl,
+  dbUploadMaintenancePhoto,
+  dbMaintenancePhotoUrl,
+  dbImportUnits,
+  dbImportTenants,
+  dbImportUtilities,
+  dbImportPayments,
+  dbCreateBackup,
+  dbListBackups,
+  dbFetchBackup,
+  dbSnapshotCurrent,
+  dbRestoreBackup,
+  type DbBackupSummary,
+  type FetchAllResult,
 } from "../lib/db";
+import { BACKUP_GROUPS, BACKUP_SCHEMA_VERSION, diffBackup, restoreCascades, type BackupPayload, type BackupTable, type TableDiff } from "../lib/backup";
+import {
+  blockedOutboxIds,
+  discardOutboxEntry,
+  enqueue,
+  flushOutbox,
+  getOutbox,
+  getOutboxServerSnapshot,
+  hasPendingWrites,
+  retryOutboxEntry,
+  setOutboxRejectionHandler,
+  setOutboxResultHandler,
+  subscribeOutbox,
+  type OutboxEntry,
+} from "../lib/outbox";
 
 type Currency = "JOD" | "ILS";
 type UnitKind = "apartment" | "shop";
-type UtilityType = "water" | "electricity";
+type UtilityType = string; // معرّف نوع الرسوم: water / electricity أو نوع يعرّفه المستخدم
+
+// نوع رسوم يعرّفه المستخدم (رسوم خدمات المبنى، اشتراك المولد، إنترنت، تنظيف، موقف...)
+type ChargeType = {
+  id: string;
+  labelAr: string;
+  labelEn: string;
+  defaultAmount: number;
+  currency: Currency;
+  recurrence: "recurring" | "oneoff"; // المتكرر يُضاف تلقائياً لكل فاتورة بالمبلغ الافتراضي
+  appliesTo: UnitKind | "both";
+};
 
 type Settings = {
   baseCurrency: Currency; // العملة الرئيسية لعرض الإجمالي
   jodToIlsRate: number; // 1 دينار = كم شيكل
+  buildingName?: string; // ترويسة الفواتير والإيصالات المطبوعة
+  buildingAddress?: string;
+  logoUrl?: string;
 };
 
 type Unit = {
@@ -34,6 +71,9 @@ type Unit = {
   kind: UnitKind; // شقة / محل
   rentAmount: number;
   rentCurrency: Currency; // عملة العقد
+  area?: number; // المساحة م² لتوزيع فواتير المبنى
+  occupants?: number; // عدد الساكنين لتوزيع فواتير المبنى
+  deletedAt?: string; // مؤرشفة: تختفي من القوائم وتبقى فواتيرها ودفعاتها
 };
 
 type Tenant = {
@@ -42,7 +82,36 @@ type Tenant = {
   phone?: string;
   unitId: string;
   startDate: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD تاريخ المغادرة
   active: boolean;
+  deletedAt?: string; // مؤرشف؛ يُستعاد من سلة المحذوفات
+};
+
+type BillingFrequency = "monthly" | "yearly";
+
+// زيادة سنوية على الأجار: نسبة أو مبلغ ثابت، تبدأ في تاريخ وتتكرر في ذكراه كل سنة
+type EscalationRule = {
+  kind: "percent" | "fixed";
+  value: number; // نسبة مئوية أو مبلغ بعملة العقد
+  effectiveDate: string; // YYYY-MM-DD أول زيادة
+  cap?: number; // سقف الأجار بعملة العقد
+};
+
+// عقد إيجار: يحفظ الأجار المتفق عليه لكل فترة إشغال بدل الاعتماد على أجار الوحدة الحالي
+type Lease = {
+  id: string;
+  tenantId: string;
+  unitId: string;
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD؛ فارغ = مفتوح
+  rentAmount: number;
+  rentCurrency: Currency;
+  frequency: BillingFrequency;
+  dueDay: number; // يوم الاستحقاق في الشهر (1-28)
+  depositAmount: number;
+  depositCurrency: Currency;
+  escalation?: EscalationRule;
+  proration: "days" | "months"; // طريقة احتساب الفترات الجزئية للفوترة السنوية
 };
 
 type UtilityCharge = {
@@ -52,6 +121,53 @@ type UtilityCharge = {
   type: UtilityType;
   amount: number;
   currency: Currency;
+  readingId?: string; // محسوبة من قراءة عداد
+  billId?: string; // حصة الوحدة من فاتورة على مستوى المبنى
+  tenantId?: string; // بند على مستأجر بعينه (صيانة أو أضرار): لا يدخل إلا في فواتيره
+};
+
+type SplitMethod = "equal" | "area" | "occupants" | "submeter" | "custom";
+
+// فاتورة على مستوى المبنى (خزان مشترك، إنارة الدرج، المولد) تُوزع على الوحدات كفواتير مرافق
+type BuildingBill = {
+  id: string;
+  period: string; // YYYY-MM
+  type: UtilityType;
+  amount: number;
+  currency: Currency;
+  method: SplitMethod;
+  unitIds: string[];
+  shares: Record<string, number>; // لكل وحدة: استهلاك العداد الفرعي أو النسبة المئوية
+  note?: string;
+};
+
+// تعرفة شرائح: كل شريحة تسعّر الاستهلاك حتى حدها الأعلى (null = ما فوق)، بالإضافة لرسوم ثابتة
+type TariffTier = { upTo: number | null; rate: number };
+
+type Tariff = {
+  id: string;
+  name: string;
+  type: UtilityType;
+  currency: Currency;
+  fixedCharge: number; // رسوم خدمة ثابتة لكل فاتورة
+  tiers: TariffTier[]; // مرتبة تصاعدياً حسب upTo
+};
+
+type Meter = {
+  id: string;
+  unitId: string;
+  type: UtilityType;
+  name: string; // رقم أو وصف العداد
+  digits: number; // عدد خانات العداد؛ بعد 10^digits − 1 يعود للصفر
+  initialReading: number; // القراءة عند التركيب
+  tariffId?: string;
+};
+
+type MeterReading = {
+  id: string;
+  meterId: string;
+  period: string; // YYYY-MM
+  reading: number;
 };
 
 type Invoice = {
@@ -60,11 +176,24 @@ type Invoice = {
   tenantId: string;
   period: string; // YYYY-MM أو YYYY
   scope: "monthly" | "yearly";
-  rentBase: number; // بعد التحويل للعملة الرئيسية
-  utilitiesBase: number; // بعد التحويل للعملة الرئيسية
-  totalBase: number; // الإجمالي بالعملة الرئيسية
+  rentBase: number; // بعملة الإصدار
+  utilitiesBase: number; // بعملة الإصدار
+  totalBase: number; // الإجمالي بعملة الإصدار
+  currency: Currency; // العملة الرئيسية وقت الإصدار
+  jodToIlsRate: number; // سعر الصرف المستخدم وقت الإصدار
+  rentAmount: number; // الأجار بعملة العقد
+  rentCurrency: Currency;
+  utilitiesJod: number; // مجموع المرافق المسجلة بالدينار
+  utilitiesIls: number; // مجموع المرافق المسجلة بالشيكل
+  leaseId?: string; // العقد الساري وقت الإصدار
+  prorationNote?: string; // تفاصيل احتساب الأجار الجزئي، مثل "12/31 يوم"
+  voidedAt?: string; // ISO؛ الفاتورة الملغاة تبقى للسجل ولا تدخل في الأرصدة
+  replacedBy?: string; // الفاتورة البديلة عند إعادة الإصدار
+  number?: string; // رقم المستند INV-2026-0001 بسنة الفترة؛ يُخصص على الخادم عند الحفظ
 };
 
+type FrozenInvoiceKey = "currency" | "jodToIlsRate" | "rentAmount" | "rentCurrency" | "utilitiesJod" | "utilitiesIls";
+
 type Payment = {
   id: string;
   tenantId: string;
@@ -74,26 +203,140 @@ type Payment = {
   currency: Currency;
   period?: string; // لتسوية فترة معينة
   note?: string;
+  number?: string; // رقم الإيصال RCPT-2026-0001 بسنة تاريخ الدفعة؛ يُخصص على الخادم عند الحفظ
+  voidedAt?: string; // الإيصال المرقّم لا يُحذف بل يُلغى حتى لا تظهر فجوة في الترقيم
+};
+
+// تخصيص جزء من دفعة لفاتورة محددة (المبلغ بعملة الدفعة)
+type PaymentAllocation = {
+  id: string;
+  paymentId: string;
+  invoiceId: string;
+  amount: number;
+};
+
+// حركة على تأمين المستأجر: استلام، خصم (أضرار أو رصيد غير مدفوع)، أو إرجاع. التأمين ليس دخلاً.
+type DepositTransaction = {
+  id: string;
+  tenantId: string;
+  unitId: string;
+  date: string; // YYYY-MM-DD
+  kind: "received" | "deduction" | "refund";
+  amount: number; // موجب دائماً
+  currency: Currency;
+  note?: string;
+  paymentId?: string; // خصم رصيد غير مدفوع: الدفعة التي سددت الفواتير من التأمين
+};
+
+type ExpenseCategory = "maintenance" | "cleaning" | "guard" | "utilities" | "insurance" | "other";
+
+// مصاريف المبنى؛ المتكرر يُسجّل مرة واحدة ويُحسب في كل شهر/سنة من تاريخه حتى endDate
+type Expense = {
+  id: string;
+  date: string; // YYYY-MM-DD
+  category: ExpenseCategory;
+  amount: number;
+  currency: Currency;
+  unitId?: string; // بدون وحدة = مصروف عام على المبنى
+  recurrence: "oneoff" | "monthly" | "yearly";
+  endDate?: string;
+  note?: string;
+  receiptPath?: string; // مسار صورة الإيصال في تخزين Supabase
+};
+
+type MaintenanceStatus = "open" | "scheduled" | "in_progress" | "done";
+
+// طلب صيانة لوحدة؛ عند الإنجاز تُسجّل كلفته مصروفاً و/أو تُحمّل على فاتورة المستأجر القادمة
+type MaintenanceRequest = {
+  id: string;
+  unitId: string;
+  tenantId?: string;
+  title: string;
+  description?: string;
+  status: MaintenanceStatus;
+  priority: "low" | "normal" | "urgent";
+  technician?: string;
+  scheduledDate?: string;
+  cost?: number;
+  currency: Currency;
+  photoPaths: string[]; // مسارات الصور في تخزين Supabase
+  openedOn: string; // YYYY-MM-DD
+  completedOn?: string;
+  expenseId?: string;
+  chargeId?: string; // بند المرافق المضاف لفاتورة المستأجر
+};
+
+// سعر صرف يومي: من التحديث التلقائي أو إدخال يدوي يتقدم عليه
+type ExchangeRate = {
+  date: string; // YYYY-MM-DD
+  jodToIlsRate: number;
+  source: "api" | "manual";
+};
+
+type InvoiceStatus = "unpaid" | "partial" | "paid" | "overpaid";
+
+// نتيجة معاينة التوليد لكل مستأجر: جديدة، موجودة بنفس المبالغ، أو موجودة بمبالغ ستتغير
+type InvoicePlanItem = {
+  draft: Invoice;
+  existing?: Invoice;
+  status: "new" | "exists" | "changed";
 };
 
 type AppData = {
   settings: Settings;
+  chargeTypes: ChargeType[]; // الأنواع المعرّفة من المستخدم؛ المياه والكهرباء مدمجة
   units: Unit[];
   tenants: Tenant[];
+  leases: Lease[];
   utilities: UtilityCharge[];
+  buildingBills: BuildingBill[];
+  tariffs: Tariff[];
+  meters: Meter[];
+  readings: MeterReading[];
   invoices: Invoice[];
   payments: Payment[];
+  allocations: PaymentAllocation[];
+  deposits: DepositTransaction[];
+  expenses: Expense[];
+  maintenance: MaintenanceRequest[];
+  rates: ExchangeRate[]; // مرتبة تنازلياً حسب التاريخ
 };
 
 const DEFAULT_DATA: AppData = {
   settings: { baseCurrency: "JOD", jodToIlsRate: 5 },
+  chargeTypes: [],
   units: [],
   tenants: [],
+  leases: [],
   utilities: [],
+  buildingBills: [],
+  tariffs: [],
+  meters: [],
+  readings: [],
   invoices: [],
   payments: [],
+  allocations: [],
+  deposits: [],
+  expenses: [],
+  maintenance: [],
+  rates: [],
 };
 
+const BUILTIN_CHARGE_TYPES: ChargeType[] = [
+  { id: "water", labelAr: "مياه", labelEn: "Water", defaultAmount: 0, currency: "JOD", recurrence: "oneoff", appliesTo: "both" },
+  { id: "electricity", labelAr: "كهرباء", labelEn: "Electricity", defaultAmount: 0, currency: "JOD", recurrence: "oneoff", appliesTo: "both" },
+  { id: "maintenance", labelAr: "صيانة على المستأجر", labelEn: "Maintenance charge-back", defaultAmount: 0, currency: "JOD", recurrence: "oneoff", appliesTo: "both" },
+  { id: "damages", labelAr: "أضرار على المستأجر", labelEn: "Damages charge-back", defaultAmount: 0, currency: "JOD", recurrence: "oneoff", appliesTo: "both" },
+];
+
+function allChargeTypes(data: AppData): ChargeType[] {
+  return [...BUILTIN_CHARGE_TYPES, ...data.chargeTypes];
+}
+
+function chargeTypeLabel(data: AppData, id: UtilityType): string {
+  return allChargeTypes(data).find((t) => t.id === id)?.labelAr ?? id;
+}
+
 function uid(prefix: string = "id"): string {
   return `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
 }
@@ -107,641 +350,5547 @@ function convertToBase(amount: number, from: Currency, settings: Settings): numb
   return from === "ILS" ? amount : amount * rate;
 }
 
+// الفواتير القديمة لا تحمل عملة وسعر صرف مجمدين، فتُعتبر صادرة بالإعدادات الحالية
+function withFrozenDefaults(inv: Omit<Invoice, FrozenInvoiceKey> & Partial<Pick<Invoice, FrozenInvoiceKey>>, settings: Settings): Invoice {
+  const currency = inv.currency ?? settings.baseCurrency;
+  return {
+    ...inv,
+    currency,
+    jodToIlsRate: inv.jodToIlsRate ?? settings.jodToIlsRate,
+    rentAmount: inv.rentAmount ?? inv.rentBase,
+    rentCurrency: inv.rentCurrency ?? currency,
+    utilitiesJod: inv.utilitiesJod ?? (currency === "JOD" ? inv.utilitiesBase : 0),
+    utilitiesIls: inv.utilitiesIls ?? (currency === "ILS" ? inv.utilitiesBase : 0),
+  };
+}
+
+// مبالغ الفاتورة بالعملة الرئيسية الحالية، محوّلة من المبالغ الأصلية بسعر الصرف المجمد عليها
+function invoiceAmounts(inv: Invoice, settings: Settings): { rent: number; utilities: number; total: number } {
+  const frozen: Settings = { baseCurrency: settings.baseCurrency, jodToIlsRate: inv.jodToIlsRate };
+  const rent = convertToBase(inv.rentAmount, inv.rentCurrency, frozen);
+  const utilities = convertToBase(inv.utilitiesJod, "JOD", frozen) + convertToBase(inv.utilitiesIls, "ILS", frozen);
+  return { rent, utilities, total: rent + utilities };
+}
+
+function convertFromBase(amount: number, to: Currency, settings: Settings): number {
+  const rate = settings.jodToIlsRate || 5;
+  if (settings.baseCurrency === to) return amount;
+  return to === "JOD" ? amount / rate : amount * rate;
+}
+
+// سعر الصرف المعتمد في تاريخ معين: آخر سعر مسجل في ذلك اليوم أو قبله، وإلا السعر الحالي
+function rateOn(rates: ExchangeRate[], date: string, settings: Settings): number {
+  return rates.find((r) => r.date <= date)?.jodToIlsRate || settings.jodToIlsRate;
+}
+
+// مثل convertToBase لكن بسعر صرف تاريخ المبلغ نفسه، حتى لا تتغير الإجماليات التاريخية مع كل تحديث للسعر
+function convertToBaseOn(amount: number, from: Currency, date: string, rates: ExchangeRate[], settings: Settings): number {
+  return convertToBase(amount, from, { ...settings, jodToIlsRate: rateOn(rates, date, settings) });
+}
+
+function convertFromBaseOn(amount: number, to: Currency, date: string, rates: ExchangeRate[], settings: Settings): number {
+  return convertFromBase(amount, to, { ...settings, jodToIlsRate: rateOn(rates, date, settings) });
+}
+
 function formatCurrency(amount: number, settings: Settings): string {
   const currency = settings.baseCurrency === "JOD" ? "دينار" : "شيكل";
   const formatter = new Intl.NumberFormat("ar-JO", { maximumFractionDigits: 2 });
   return `${formatter.format(amount)} ${currency}`;
 }
 
-type TabKey = "home" | "settings" | "units" | "tenants" | "utilities" | "invoices" | "payments";
+function currencyName(currency: Currency): string {
+  return currency === "JOD" ? "دينار" : "شيكل";
+}
 
-export default function Home() {
-  const [activeTab, setActiveTab] = useState<TabKey>("home");
-  const [data, setData] = useState<AppData>(DEFAULT_DATA);
-  const [syncing, setSyncing] = useState<boolean>(false);
-  const [syncMsg, setSyncMsg] = useState<string | null>(null);
-  const [isAuthed, setIsAuthed] = useState<boolean>(false);
-  const [loginEmail, setLoginEmail] = useState<string>("");
-  const [loginPassword, setLoginPassword] = useState<string>("");
-  const [authError, setAuthError] = useState<string | null>(null);
+// المبالغ في ملفات التصدير أرقام بخانتين عشريتين حتى يجمعها Excel
+function roundAmount(amount: number): number {
+  return Number(amount.toFixed(2));
+}
 
-  // Initial load from Supabase (fallback to local cache)
-  useEffect(() => {
-    (async () => {
-      // initialize auth state
-      try {
-        const supabase = getSupabaseClient();
-        const { data: s } = await supabase.auth.getSession();
-        const adminEmail = process.env.NEXT_PUBLIC_ADMIN_EMAIL;
-        const emailOk = s.session?.user?.email && (!adminEmail || s.session.user.email === adminEmail);
-        setIsAuthed(Boolean(s.session) && Boolean(emailOk));
-        supabase.auth.onAuthStateChange((_event, sess) => {
-          const ok = sess?.user?.email && (!adminEmail || sess.user.email === adminEmail);
-          setIsAuthed(Boolean(sess) && Boolean(ok));
-        });
-      } catch {}
+// أول يوم في الفترة (YYYY-MM-01 أو YYYY-01-01)
+function periodStartDate(period: string): string {
+  return period.length === 4 ? `${period}-01-01` : `${period}-01`;
+}
 
-      try {
-        const all = await dbFetchAll();
-        setData((prev) => ({
-          ...prev,
-          settings: all.settings
-            ? { baseCurrency: all.settings.base_currency as Currency, jodToIlsRate: all.settings.jod_to_ils_rate }
-            : prev.settings,
-          units: all.units.map((u) => ({ id: u.id, name: u.name, kind: u.kind as UnitKind, rentAmount: u.rent_amount, rentCurrency: u.rent_currency as Currency })),
-          tenants: all.tenants.map((t) => ({ id: t.id, name: t.name, phone: t.phone || undefined, unitId: t.unit_id, startDate: t.start_date, active: t.active })),
-          utilities: all.utilities.map((u) => ({ id: u.id, unitId: u.unit_id, period: u.period, type: u.type as UtilityType, amount: u.amount, currency: u.currency as Currency })),
-          invoices: all.invoices.map((i) => ({ id: i.id, unitId: i.unit_id, tenantId: i.tenant_id, period: i.period, scope: i.scope as "monthly" | "yearly", rentBase: i.rent_base, utilitiesBase: i.utilities_base, totalBase: i.total_base })),
-          payments: all.payments.map((p) => ({ id: p.id, tenantId: p.tenant_id, unitId: p.unit_id, date: p.date, amount: p.amount, currency: p.currency as Currency, period: p.period || undefined, note: p.note || undefined })),
-        }));
-      } catch {
-        try {
-          const raw = localStorage.getItem("zc_data_v1");
-          if (raw) setData({ ...DEFAULT_DATA, ...(JSON.parse(raw) as AppData) });
-        } catch {}
-      }
-    })();
-  }, []);
+// آخر يوم في الفترة (YYYY-MM-DD)
+function periodEndDate(period: string): string {
+  if (period.length === 4) return `${period}-12-31`;
+  const [y, m] = period.split("-").map(Number);
+  const last = new Date(Date.UTC(y, m, 0)).getUTCDate();
+  return `${period}-${String(last).padStart(2, "0")}`;
+}
 
-  useEffect(() => {
-    try {
-      localStorage.setItem("zc_data_v1", JSON.stringify(data));
-    } catch {}
-  }, [data]);
+// العقد الساري خلال الفترة؛ عند تعدد العقود يُعتمد أحدثها بداية
+function leaseInForce(leases: Lease[], tenantId: string, unitId: string, period: string): Lease | undefined {
+  const start = periodStartDate(period);
+  const end = periodEndDate(period);
+  return leases
+    .filter((l) => l.tenantId === tenantId && l.unitId === unitId)
+    .filter((l) => l.startDate <= end && (!l.endDate || l.endDate >= start))
+    .sort((a, b) => (a.startDate < b.startDate ? 1 : -1))[0];
+}
 
-  const unitsById = useMemo(() => {
-    const m = new Map<string, Unit>();
-    data.units.forEach((u) => m.set(u.id, u));
-    return m;
-  }, [data.units]);
+function daysInclusive(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000) + 1;
+}
 
-  const tenantsByUnit = useMemo(() => {
-    const m = new Map<string, Tenant[]>();
-    data.tenants.forEach((t) => {
-      const arr = m.get(t.unitId) || [];
-      arr.push(t);
-      m.set(t.unitId, arr);
-    });
-    return m;
-  }, [data.tenants]);
+function monthIndex(date: string): number {
+  return Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1;
+}
 
-  // Daily auto-update of exchange rate (once per 24h on first load)
-  useEffect(() => {
-    (async () => {
-      const key = "zc_rate_last";
-      try {
-        const last = Number(localStorage.getItem(key) || "0");
-        const now = Date.now();
-        if (!last || now - last > 24 * 60 * 60 * 1000) {
-          const rate = await fetchJodIlsRate();
-          await dbUpsertSettings({ base_currency: data.settings.baseCurrency, jod_to_ils_rate: rate });
-          setData((d) => ({ ...d, settings: { ...d.settings, jodToIlsRate: rate } }));
-          localStorage.setItem(key, String(now));
-        }
-      } catch {}
-    })();
-  }, [data.settings.baseCurrency]);
+// عكس monthIndex: YYYY-MM
+function monthFromIndex(index: number): string {
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`;
+}
 
-  async function backupToSupabase() {
-    setSyncMsg(null);
-    setSyncing(true);
-    try {
-      const supabase = getSupabaseClient();
-      const { error } = await supabase.from("backups").insert({ payload: data });
-      if (error) throw error;
-      setSyncMsg("تم النسخ الاحتياطي بنجاح إلى Supabase.");
-    } catch (err) {
-      const message = err instanceof Error ? err.message : "فشل النسخ الاحتياطي. تحقق من الإعدادات.";
-      setSyncMsg(message);
-    } finally {
-      setSyncing(false);
-    }
-  }
+type Proration = { factor: number; note?: string };
 
-  async function restoreFromSupabase() {
-    setSyncMsg(null);
-    setSyncing(true);
-    try {
-      const supabase = getSupabaseClient();
-      const { data: rows, error } = await supabase
-        .from("backups")
-        .select("payload, created_at")
-        .order("created_at", { ascending: false })
-        .limit(1);
-      if (error) throw error;
-      if (!rows || rows.length === 0) throw new Error("لا توجد نسخة احتياطية.");
-      const latest = rows[0].payload as AppData;
-      setData({ ...DEFAULT_DATA, ...latest });
-      setSyncMsg("تمت الاستعادة من أحدث نسخة بنجاح.");
-    } catch (err) {
-      const message = err instanceof Error ? err.message : "فشلت عملية الاستعادة.";
-      setSyncMsg(message);
-    } finally {
-      setSyncing(false);
-    }
-  }
+// فترة إشغال واحدة (عقد أو تاريخا بدء ومغادرة المستأجر)؛ end فارغ = مفتوحة
+type Occupancy = { start: string; end?: string };
 
-  async function updateBaseCurrency(next: Currency) {
-    setData((d) => ({ ...d, settings: { ...d.settings, baseCurrency: next } }));
-    try {
-      await dbUpsertSettings({ base_currency: next, jod_to_ils_rate: data.settings.jodToIlsRate });
-    } catch (e) {
-      // noop UI
+// نسبة الأجار المستحقة عن الفترة حسب أيام الإشغال (أو أشهره للسنوي بطريقة الأشهر).
+// تُحسب على اتحاد فترات الإشغال: الأيام المتداخلة بين عقدين لا تُعد مرتين، والفجوة بينهما لا تُفوتر.
+// تعيد null إذا لم يكن هناك إشغال خلال الفترة.
+function prorationFor(period: string, occupancy: Occupancy[], method: "days" | "months"): Proration | null {
+  const start = periodStartDate(period);
+  const end = periodEndDate(period);
+  const ranges = occupancy
+    .map((o) => ({ from: o.start > start ? o.start : start, to: o.end && o.end < end ? o.end : end }))
+    .filter((r) => r.from <= r.to)
+    .sort((a, b) => (a.from < b.from ? -1 : 1));
+  // دمج المتداخل والمتلاصق (يبدأ في اليوم التالي لنهاية سابقه)
+  const merged: Array<{ from: string; to: string }> = [];
+  for (const r of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && daysInclusive(last.to, r.from) <= 2) {
+      if (r.to > last.to) last.to = r.to;
+    } else {
+      merged.push({ ...r });
     }
   }
-
-  async function updateExchangeRate(next: number) {
-    const rate = next || 0;
-    setData((d) => ({ ...d, settings: { ...d.settings, jodToIlsRate: rate } }));
-    try {
-      await dbUpsertSettings({ base_currency: data.settings.baseCurrency, jod_to_ils_rate: rate });
-    } catch (e) {
-      // noop UI
-    }
+  if (merged.length === 0) return null;
+  if (merged.length === 1 && merged[0].from === start && merged[0].to === end) return { factor: 1 };
+  if (method === "months" && period.length === 4) {
+    // كل شهر فيه إشغال يُحتسب شهراً كاملاً
+    const occupiedMonths = new Set<number>();
+    merged.forEach((r) => {
+      for (let m = monthIndex(r.from); m <= monthIndex(r.to); m++) occupiedMonths.add(m);
+    });
+    const months = occupiedMonths.size;
+    return { factor: months / 12, note: `${months}/12 شهر` };
   }
+  const occupied = merged.reduce((acc, r) => acc + daysInclusive(r.from, r.to), 0);
+  const total = daysInclusive(start, end);
+  return { factor: occupied / total, note: `${occupied}/${total} يوم (${merged.map((r) => `${r.from} — ${r.to}`).join("، ")})` };
+}
 
-  async function autoFetchRate() {
-    setSyncMsg(null);
-    setSyncing(true);
-    try {
-      const rate = await fetchJodIlsRate();
-      await dbUpsertSettings({ base_currency: data.settings.baseCurrency, jod_to_ils_rate: rate });
-      setData((d) => ({ ...d, settings: { ...d.settings, jodToIlsRate: rate } }));
-      setSyncMsg("تم تحديث سعر الصرف تلقائياً.");
-    } catch (err) {
-      const message = err instanceof Error ? err.message : "تعذر تحديث سعر الصرف.";
-      setSyncMsg(message);
-    } finally {
-      setSyncing(false);
-    }
+// عدد الزيادات المطبقة حتى تاريخ معين (الزيادة الأولى في effectiveDate ثم كل ذكرى سنوية)
+function escalationSteps(rule: EscalationRule, date: string): number {
+  if (date < rule.effectiveDate) return 0;
+  const years = Number(date.slice(0, 4)) - Number(rule.effectiveDate.slice(0, 4));
+  return date.slice(5) < rule.effectiveDate.slice(5) ? years : years + 1;
+}
+
+// أجار العقد بعد تطبيق الزيادات حتى التاريخ، بعملة العقد
+function escalatedRent(lease: Lease, date: string): number {
+  const rule = lease.escalation;
+  if (!rule) return lease.rentAmount;
+  const steps = escalationSteps(rule, date);
+  const raw = rule.kind === "percent" ? lease.rentAmount * Math.pow(1 + rule.value / 100, steps) : lease.rentAmount + rule.value * steps;
+  const capped = rule.cap ? Math.min(raw, rule.cap) : raw;
+  return Math.round(capped * 100) / 100;
+}
+
+// جدول الأجار من بداية العقد ثم عند كل زيادة، حتى نهاية العقد أو عدد السنوات المطلوب بعد اليوم
+function escalationSchedule(lease: Lease, yearsAhead: number): Array<{ from: string; rent: number }> {
+  const rows = [{ from: lease.startDate, rent: escalatedRent(lease, lease.startDate) }];
+  const rule = lease.escalation;
+  if (!rule) return rows;
+  const lastYear = new Date().getFullYear() + yearsAhead;
+  for (let y = Number(rule.effectiveDate.slice(0, 4)); y <= lastYear; y++) {
+    const from = `${y}${rule.effectiveDate.slice(4)}`;
+    if (from <= lease.startDate) continue;
+    if (lease.endDate && from > lease.endDate) break;
+    rows.push({ from, rent: escalatedRent(lease, from) });
   }
+  return rows;
+}
 
-  async function signIn() {
-    setAuthError(null);
-    try {
-      const adminEmail = process.env.NEXT_PUBLIC_ADMIN_EMAIL;
-      if (adminEmail && loginEmail.trim() !== adminEmail) {
-        setAuthError("البريد غير مسموح");
-        return;
-      }
-      const supabase = getSupabaseClient();
-      const { error } = await supabase.auth.signInWithPassword({ email: loginEmail.trim(), password: loginPassword });
-      if (error) throw error;
-    } catch (e) {
-      const message = e instanceof Error ? e.message : "فشل تسجيل الدخول";
-      setAuthError(message);
-    }
+// تاريخ استحقاق الفاتورة: أول يوم في فترتها
+function invoiceDate(inv: Invoice): string {
+  return periodStartDate(inv.period);
+}
+
+// فروقات التقريب الأقل من هذا الحد تُعتبر صفراً عند حساب حالة الفاتورة
+const SETTLEMENT_EPSILON = 0.005;
+
+// الاستهلاك أكثر من ضعف متوسط آخر ثلاث فترات (أو أقل من نصفه) يُعلَّم كغير طبيعي
+const ABNORMAL_CONSUMPTION_FACTOR = 2;
+
+// التعرفات القديمة قد تنتهي بشريحة محدودة: ما يتجاوز حدها يُحسب بسعرها
+function tariffAmount(tariff: Tariff, consumption: number): number {
+  let remaining = consumption;
+  let lower = 0;
+  let total = tariff.fixedCharge;
+  for (const tier of tariff.tiers) {
+    if (remaining <= 0) break;
+    const width = tier.upTo === null ? remaining : Math.min(remaining, tier.upTo - lower);
+    total += width * tier.rate;
+    remaining -= width;
+    if (tier.upTo !== null) lower = tier.upTo;
   }
+  const last = tariff.tiers[tariff.tiers.length - 1];
+  if (remaining > 0 && last) total += remaining * last.rate;
+  return Math.round(total * 100) / 100;
+}
 
-  async function signOut() {
-    try {
-      const supabase = getSupabaseClient();
-      await supabase.auth.signOut();
-    } catch {}
+// الاستهلاك بين قراءتين؛ قراءة أصغر من السابقة تعني أن العداد دار وعاد للصفر
+function meterConsumption(meter: Meter, previous: number, current: number): { consumption: number; rollover: boolean } {
+  if (current >= previous) return { consumption: current - previous, rollover: false };
+  return { consumption: Math.pow(10, meter.digits) - previous + current, rollover: true };
+}
+
+function previousReading(meter: Meter, readings: MeterReading[], period: string): number {
+  const earlier = readings.filter((r) => r.meterId === meter.id && r.period < period).sort((a, b) => (a.period < b.period ? 1 : -1));
+  return earlier.length ? earlier[0].reading : meter.initialReading;
+}
+
+type ReadingCheck = {
+  previous: number;
+  consumption: number;
+  rollover: boolean;
+  abnormal: "high" | "low" | null;
+};
+
+function checkReading(meter: Meter, readings: MeterReading[], period: string, current: number): ReadingCheck {
+  const previous = previousReading(meter, readings, period);
+  const { consumption, rollover } = meterConsumption(meter, previous, current);
+  const history = readings
+    .filter((r) => r.meterId === meter.id && r.period < period)
+    .sort((a, b) => (a.period < b.period ? 1 : -1))
+    .slice(0, 3)
+    .map((r) => meterConsumption(meter, previousReading(meter, readings, r.period), r.reading).consumption);
+  const average = history.length ? history.reduce((a, b) => a + b, 0) / history.length : 0;
+  let abnormal: ReadingCheck["abnormal"] = null;
+  if (average > 0 && consumption > average * ABNORMAL_CONSUMPTION_FACTOR) abnormal = "high";
+  else if (average > 0 && consumption < average / ABNORMAL_CONSUMPTION_FACTOR) abnormal = "low";
+  return { previous, consumption, rollover, abnormal };
+}
+
+const SPLIT_METHOD_LABELS: Record<SplitMethod, string> = {
+  equal: "بالتساوي",
+  area: "حسب المساحة",
+  occupants: "حسب عدد الساكنين",
+  submeter: "حسب العداد الفرعي",
+  custom: "نسب مخصصة",
+};
+
+function splitWeight(bill: BuildingBill, unit: Unit | undefined): number {
+  switch (bill.method) {
+    case "equal":
+      return 1;
+    case "area":
+      return unit?.area ?? 0;
+    case "occupants":
+      return unit?.occupants ?? 0;
+    default:
+      return bill.shares[unit?.id ?? ""] ?? 0;
+  }
+}
+
+// حصص الوحدات بالقرش؛ فرق التقريب يُضاف لآخر وحدة حتى يطابق المجموع مبلغ الفاتورة
+function splitBuildingBill(bill: BuildingBill, unitsById: Map<string, Unit>): Array<{ unitId: string; amount: number }> | null {
+  const weights = bill.unitIds.map((id) => ({ unitId: id, weight: splitWeight(bill, unitsById.get(id)) }));
+  const total = weights.reduce((acc, w) => acc + w.weight, 0);
+  if (total <= 0) return null;
+  if (bill.method === "custom" && Math.abs(total - 100) > 0.01) return null;
+  const rows = weights.map((w) => ({ unitId: w.unitId, amount: Math.floor((bill.amount * w.weight * 100) / total) / 100 }));
+  const diff = Math.round((bill.amount - rows.reduce((acc, r) => acc + r.amount, 0)) * 100) / 100;
+  rows[rows.length - 1].amount = Math.round((rows[rows.length - 1].amount + diff) * 100) / 100;
+  return rows;
+}
+
+const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  unpaid: "غير مدفوعة",
+  partial: "مدفوعة جزئياً",
+  paid: "مدفوعة",
+  overpaid: "مدفوعة بزيادة",
+};
+
+// ما يُكتب أو يُقرأ على الخادم مباشرة (دوال RPC، الاستيراد، PDF) قد يشير لصفوف ما زالت في الصندوق، فتُرسل أولاً
+async function flushPendingWrites() {
+  await flushOutbox();
+  if (hasPendingWrites()) throw new Error("توجد تعديلات لم تصل للخادم بعد. أعد المحاولة بعد المزامنة.");
+}
+
+// المستند يُولَّد على الخادم من بيانات Supabase
+// النافذة تُفتح قبل أي انتظار حتى لا يحجبها المتصفح، ثم يُحمّل فيها ملف PDF
+async function openDocumentPdf(query: string) {
+  const win = window.open("", "_blank");
+  try {
+    await flushPendingWrites();
+    const pdf = await dbFetchDocumentPdf(query);
+    if (win) win.location.href = URL.createObjectURL(pdf);
+  } catch (err) {
+    win?.close();
+    throw err;
+  }
+}
+
+// يدمج أرقام المستندات التي خصصها الخادم بعد الحفظ
+function withDocumentNumbers<T extends { id: string; number?: string }>(rows: T[], numbers: Array<{ id: string; number: string | null }>): T[] {
+  const byId = new Map(numbers.map((n) => [n.id, n.number]));
+  return rows.map((r) => (byId.get(r.id) ? { ...r, number: byId.get(r.id) ?? undefined } : r));
+}
+
+function invoicePaidBase(data: AppData, invoiceId: string, settings: Settings, asOf?: string): number {
+  const paymentsById = new Map(data.payments.map((p) => [p.id, p]));
+  return data.allocations
+    .filter((a) => a.invoiceId === invoiceId)
+    .reduce((acc, a) => {
+      const p = paymentsById.get(a.paymentId);
+      return p && (!asOf || p.date <= asOf) ? acc + convertToBaseOn(a.amount, p.currency, p.date, data.rates, settings) : acc;
+    }, 0);
+}
+
+function invoiceToRow(i: Invoice) {
+  return {
+    id: i.id,
+    unit_id: i.unitId,
+    tenant_id: i.tenantId,
+    period: i.period,
+    scope: i.scope,
+    rent_base: i.rentBase,
+    utilities_base: i.utilitiesBase,
+    total_base: i.totalBase,
+    currency: i.currency,
+    jod_to_ils_rate: i.jodToIlsRate,
+    rent_amount: i.rentAmount,
+    rent_currency: i.rentCurrency,
+    utilities_jod: i.utilitiesJod,
+    utilities_ils: i.utilitiesIls,
+    voided_at: i.voidedAt ?? null,
+    replaced_by: i.replacedBy ?? null,
+    lease_id: i.leaseId ?? null,
+    proration_note: i.prorationNote ?? null,
+  };
+}
+
+// تتطابق الفاتورتان إذا تساوت مبالغهما الأصلية (بغض النظر عن سعر الصرف المجمد)
+function sameInvoiceAmounts(a: Invoice, b: Invoice): boolean {
+  const close = (x: number, y: number) => Math.abs(x - y) <= SETTLEMENT_EPSILON;
+  return a.rentCurrency === b.rentCurrency && close(a.rentAmount, b.rentAmount) && close(a.utilitiesJod, b.utilitiesJod) && close(a.utilitiesIls, b.utilitiesIls);
+}
+
+function invoiceStatus(totalBase: number, paidBase: number): InvoiceStatus {
+  if (paidBase <= SETTLEMENT_EPSILON) return "unpaid";
+  const diff = paidBase - totalBase;
+  if (diff > SETTLEMENT_EPSILON) return "overpaid";
+  if (diff < -SETTLEMENT_EPSILON) return "partial";
+  return "paid";
+}
+
+// المبلغ غير المخصص من الدفعة بعملتها
+function paymentUnallocated(data: AppData, payment: Payment): number {
+  const allocated = data.allocations
+    .filter((a) => a.paymentId === payment.id)
+    .reduce((acc, a) => acc + a.amount, 0);
+  return payment.amount - allocated;
+}
+
+// رصيد المستأجر الدائن: مجموع ما تبقى من دفعاته دون تخصيص، بالعملة الرئيسية
+function tenantCreditBase(data: AppData, tenantId: string, settings: Settings): number {
+  return data.payments
+    .filter((p) => p.tenantId === tenantId && !p.voidedAt)
+    .reduce((acc, p) => acc + Math.max(0, convertToBaseOn(paymentUnallocated(data, p), p.currency, p.date, data.rates, settings)), 0);
+}
+
+// يوزع المبالغ غير المخصصة من دفعات المستأجر على فواتيره المفتوحة، الأقدم فالأقدم.
+// ما يتبقى بعد تغطية كل الفواتير يبقى رصيداً دائناً يُرحّل للفواتير القادمة.
+function autoAllocateTenant(data: AppData, tenantId: string, settings: Settings): PaymentAllocation[] {
+  const openInvoices = data.invoices
+    .filter((i) => i.tenantId === tenantId && !i.voidedAt)
+    .map((i) => ({ inv: i, remaining: invoiceAmounts(i, settings).total - invoicePaidBase(data, i.id, settings) }))
+    .filter((x) => x.remaining > SETTLEMENT_EPSILON)
+    .sort((a, b) => (invoiceDate(a.inv) < invoiceDate(b.inv) ? -1 : 1));
+  const payments = data.payments
+    .filter((p) => p.tenantId === tenantId && !p.voidedAt)
+    .map((p) => ({ p, left: paymentUnallocated(data, p) }))
+    .filter((x) => x.left > 0)
+    .sort((a, b) => (a.p.date < b.p.date ? -1 : 1));
+
+  const created: PaymentAllocation[] = [];
+  for (const pay of payments) {
+    for (const open of openInvoices) {
+      if (pay.left <= 0) break;
+      if (open.remaining <= SETTLEMENT_EPSILON) continue;
+      const leftBase = convertToBaseOn(pay.left, pay.p.currency, pay.p.date, data.rates, settings);
+      const takeBase = Math.min(leftBase, open.remaining);
+      const take = takeBase >= leftBase ? pay.left : convertFromBaseOn(takeBase, pay.p.currency, pay.p.date, data.rates, settings);
+      created.push({ id: uid("alloc"), paymentId: pay.p.id, invoiceId: open.inv.id, amount: take });
+      pay.left -= take;
+      open.remaining -= takeBase;
+    }
+  }
+  return created;
+}
+
+// رصيد التأمين المحتجز للمستأجر بكل عملة كما استُلم، فلا يتحرك مع سعر الصرف ويتصفّر بإرجاعه بنفس العملة
+function depositBalances(data: AppData, tenantId?: string): Record<Currency, number> {
+  return data.deposits
+    .filter((x) => !tenantId || x.tenantId === tenantId)
+    .reduce((acc, x) => ({ ...acc, [x.currency]: acc[x.currency] + (x.kind === "received" ? x.amount : -x.amount) }), { JOD: 0, ILS: 0 } as Record<Currency, number>);
+}
+
+function formatBalances(balances: Record<Currency, number>): string {
+  const formatter = new Intl.NumberFormat("ar-JO", { maximumFractionDigits: 2 });
+  const parts = (["JOD", "ILS"] as Currency[]).filter((c) => Math.abs(balances[c]) > SETTLEMENT_EPSILON).map((c) => `${formatter.format(balances[c])} ${currencyName(c)}`);
+  return parts.length ? parts.join(" + ") : "0";
+}
+
+function depositToRow(x: DepositTransaction) {
+  return {
+    id: x.id,
+    tenant_id: x.tenantId,
+    unit_id: x.unitId,
+    date: x.date,
+    kind: x.kind,
+    amount: x.amount,
+    currency: x.currency,
+    note: x.note || null,
+    payment_id: x.paymentId || null,
+  };
+}
+
+// الجداول التي تُعدّل صفوفها في مكانها؛ نسخة الصف قبل التعديل تُرسل مع العملية لتُسترجع إن رفضها الخادم
+type EditableCollection = "units" | "tenants" | "leases" | "utilities" | "chargeTypes" | "tariffs" | "meters" | "readings" | "payments" | "deposits" | "expenses";
+
+type RowUndo = { collection: EditableCollection; rows: Array<{ id: string }> };
+
+function replaceRows(d: AppData, collection: EditableCollection, rows: Array<{ id: string }>): AppData {
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  return { ...d, [collection]: (d[collection] as Array<{ id: string }>).map((r) => byId.get(r.id) ?? r) };
+}
+
+// ما يرتبط بالوحدة أو المستأجر، ويُعرض قبل الأرشفة أو الحذف النهائي
+type Dependent = { label: string; count: number; financial: boolean };
+
+function unitDependents(data: AppData, unitId: string): Dependent[] {
+  const meterIds = new Set(data.meters.filter((m) => m.unitId === unitId).map((m) => m.id));
+  return [
+    { label: "مستأجرون", count: data.tenants.filter((t) => t.unitId === unitId).length, financial: false },
+    { label: "عقود", count: data.leases.filter((l) => l.unitId === unitId).length, financial: false },
+    { label: "رسوم ومرافق", count: data.utilities.filter((u) => u.unitId === unitId).length, financial: false },
+    { label: "عدادات وقراءات", count: meterIds.size + data.readings.filter((r) => meterIds.has(r.meterId)).length, financial: false },
+    { label: "طلبات صيانة", count: data.maintenance.filter((m) => m.unitId === unitId).length, financial: false },
+    { label: "فواتير", count: data.invoices.filter((i) => i.unitId === unitId).length, financial: true },
+    { label: "دفعات", count: data.payments.filter((p) => p.unitId === unitId).length, financial: true },
+    { label: "حركات تأمين", count: data.deposits.filter((x) => x.unitId === unitId).length, financial: true },
+  ].filter((x) => x.count > 0);
+}
+
+function tenantDependents(data: AppData, tenantId: string): Dependent[] {
+  return [
+    { label: "عقود", count: data.leases.filter((l) => l.tenantId === tenantId).length, financial: false },
+    { label: "طلبات صيانة", count: data.maintenance.filter((m) => m.tenantId === tenantId).length, financial: false },
+    { label: "فواتير", count: data.invoices.filter((i) => i.tenantId === tenantId).length, financial: true },
+    { label: "دفعات", count: data.payments.filter((p) => p.tenantId === tenantId).length, financial: true },
+    { label: "حركات تأمين", count: data.deposits.filter((x) => x.tenantId === tenantId).length, financial: true },
+    { label: "رسوم محمّلة عليه", count: data.utilities.filter((u) => u.tenantId === tenantId).length, financial: true },
+  ].filter((x) => x.count > 0);
+}
+
+const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  maintenance: "صيانة",
+  cleaning: "نظافة",
+  guard: "راتب الحارس",
+  utilities: "مرافق المبنى (حصة المالك)",
+  insurance: "تأمين ورسوم",
+  other: "أخرى",
+};
+
+const EXPENSE_RECURRENCE_LABELS: Record<Expense["recurrence"], string> = { oneoff: "مرة واحدة", monthly: "شهري", yearly: "سنوي" };
+
+// تواريخ استحقاق المصروف داخل المدى؛ المتكرر في نفس اليوم من كل شهر/سنة (أو آخر الشهر إن كان أقصر)
+function expenseOccurrences(expense: Expense, from: string, to: string): string[] {
+  if (expense.recurrence === "oneoff") return (!from || expense.date >= from) && expense.date <= to ? [expense.date] : [];
+  const last = expense.endDate && expense.endDate < to ? expense.endDate : to;
+  const day = expense.date.slice(8, 10);
+  const step = expense.recurrence === "monthly" ? 1 : 12;
+  const dates: string[] = [];
+  for (let m = monthIndex(expense.date); ; m += step) {
+    const month = monthFromIndex(m);
+    const date = `${month}-${day}` > periodEndDate(month) ? periodEndDate(month) : `${month}-${day}`;
+    if (date > last) break;
+    if (!from || date >= from) dates.push(date);
+  }
+  return dates;
+}
+
+function expenseBaseInRange(data: AppData, expense: Expense, from: string, to: string, settings: Settings): number {
+  return expenseOccurrences(expense, from, to).reduce((acc, date) => acc + convertToBaseOn(expense.amount, expense.currency, date, data.rates, settings), 0);
+}
+
+const MAINTENANCE_STATUS_LABELS: Record<MaintenanceStatus, string> = { open: "مفتوح", scheduled: "مجدول", in_progress: "قيد التنفيذ", done: "منجز" };
+
+// سير العمل: مفتوح ← مجدول ← قيد التنفيذ ← منجز
+const MAINTENANCE_NEXT_STATUS: Record<MaintenanceStatus, { status: MaintenanceStatus; label: string } | null> = {
+  open: { status: "scheduled", label: "جدولة" },
+  scheduled: { status: "in_progress", label: "بدء العمل" },
+  in_progress: { status: "done", label: "إنجاز" },
+  done: null,
+};
+
+const MAINTENANCE_PRIORITY_LABELS: Record<MaintenanceRequest["priority"], string> = { low: "منخفضة", normal: "عادية", urgent: "عاجلة" };
+
+function maintenanceToRow(m: MaintenanceRequest) {
+  return {
+    id: m.id,
+    unit_id: m.unitId,
+    tenant_id: m.tenantId ?? null,
+    title: m.title,
+    description: m.description ?? null,
+    status: m.status,
+    priority: m.priority,
+    technician: m.technician ?? null,
+    scheduled_date: m.scheduledDate ?? null,
+    cost: m.cost ?? null,
+    currency: m.currency,
+    photo_paths: m.photoPaths,
+    opened_on: m.openedOn,
+    completed_on: m.completedOn ?? null,
+    expense_id: m.expenseId ?? null,
+    charge_id: m.chargeId ?? null,
+  };
+}
+
+// أول شهر من fromMonth لم تصدر للوحدة فاتورة سارية تغطيه (شهرية أو سنوية)، ليدخل فيه البند الجديد
+// مع tenantId تُحسب فواتير ذلك المستأجر وحده، فالبند المحمّل عليه لا يضيع في شهر فوتر فيه مستأجر لاحق للوحدة
+function nextUninvoicedPeriod(data: AppData, unitId: string, fromMonth: string, tenantId?: string): string {
+  const invoiced = (month: string) =>
+    data.invoices.some((i) => i.unitId === unitId && (!tenantId || i.tenantId === tenantId) && !i.voidedAt && (i.period === month || i.period === month.slice(0, 4)));
+  let m = monthIndex(`${fromMonth}-01`);
+  while (invoiced(monthFromIndex(m))) m++;
+  return monthFromIndex(m);
+}
+
+type StatementEntry = {
+  id: string;
+  date: string; // YYYY-MM-DD
+  kind: "invoice" | "payment";
+  description: string;
+  debit: number; // بالعملة الرئيسية
+  credit: number; // بالعملة الرئيسية
+  balance: number; // الرصيد الجاري بعد الحركة
+};
+
+type TenantStatement = {
+  openingBalance: number;
+  entries: StatementEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  closingBalance: number;
+};
+
+// كشف حساب المستأجر: الفواتير مدين والدفعات دائن، والرصيد الموجب يعني مبلغاً مستحقاً على المستأجر
+function buildTenantStatement(data: AppData, tenantId: string, from: string, to: string, settings: Settings): TenantStatement {
+  const movements = [
+    ...data.invoices
+      .filter((i) => i.tenantId === tenantId && !i.voidedAt)
+      .map((i) => ({
+        id: i.id,
+        date: invoiceDate(i),
+        kind: "invoice" as const,
+        description: `${i.number ? `${i.number} — ` : ""}${i.scope === "monthly" ? `فاتورة ${i.period}` : `فاتورة سنة ${i.period}`}`,
+        debit: invoiceAmounts(i, settings).total,
+        credit: 0,
+      })),
+    ...data.payments
+      .filter((p) => p.tenantId === tenantId && !p.voidedAt)
+      .map((p) => ({
+        id: p.id,
+        date: p.date,
+        kind: "payment" as const,
+        description: `${p.number ? `إيصال ${p.number}` : "دفعة"}${p.note ? ` — ${p.note}` : ""}`,
+        debit: 0,
+        credit: convertToBaseOn(p.amount, p.currency, p.date, data.rates, settings),
+      })),
+  ].sort((a, b) => (a.date === b.date ? (a.kind === b.kind ? 0 : a.kind === "invoice" ? -1 : 1) : a.date < b.date ? -1 : 1));
+
+  const openingBalance = movements
+    .filter((m) => from && m.date < from)
+    .reduce((acc, m) => acc + m.debit - m.credit, 0);
+
+  let balance = openingBalance;
+  const entries: StatementEntry[] = movements
+    .filter((m) => (!from || m.date >= from) && (!to || m.date <= to))
+    .map((m) => {
+      balance += m.debit - m.credit;
+      return { ...m, balance };
+    });
+
+  return {
+    openingBalance,
+    entries,
+    totalDebit: entries.reduce((acc, e) => acc + e.debit, 0),
+    totalCredit: entries.reduce((acc, e) => acc + e.credit, 0),
+    closingBalance: balance,
+  };
+}
+
+type ReportFilter = { from: string; to: string; unitId: string };
+
+type PeriodTotals = { key: string; rent: number; utilities: number; invoiced: number; collected: number };
+
+const AGING_BUCKETS = ["0–30 يوم", "31–60 يوم", "61–90 يوم", "أكثر من 90 يوم"];
+
+type AgingRow = { tenantId: string; buckets: number[]; total: number };
+
+// صافي الدخل التشغيلي لكل وحدة؛ unitId = null لمصاريف المبنى العامة غير المرتبطة بوحدة
+type NoiRow = { unitId: string | null; invoiced: number; collected: number; expenses: number };
+
+type FinancialReport = {
+  months: PeriodTotals[];
+  years: PeriodTotals[];
+  invoiced: number;
+  paidOnInvoiced: number; // ما خُصص من الدفعات على فواتير الفترة نفسها
+  collected: number;
+  collectionRate: number | null;
+  aging: AgingRow[];
+  byKind: Record<UnitKind, number>;
+  byCurrency: Record<Currency, { amount: number; base: number }>;
+  expenses: number;
+  noi: NoiRow[];
+};
+
+function agingBucket(days: number): number {
+  if (days <= 30) return 0;
+  if (days <= 60) return 1;
+  if (days <= 90) return 2;
+  return 3;
+}
+
+// التقارير المالية بالعملة الرئيسية: الفواتير بتاريخ بداية فترتها والدفعات بتاريخها، والملغاة مستبعدة
+function buildFinancialReport(data: AppData, filter: ReportFilter, settings: Settings): FinancialReport {
+  const inRange = (date: string) => (!filter.from || date >= filter.from) && (!filter.to || date <= filter.to);
+  const inUnit = (unitId: string) => !filter.unitId || unitId === filter.unitId;
+  const invoices = data.invoices.filter((i) => !i.voidedAt && inUnit(i.unitId));
+  const payments = data.payments.filter((p) => !p.voidedAt && inUnit(p.unitId) && inRange(p.date));
+  const unitsById = new Map(data.units.map((u) => [u.id, u]));
+
+  const months = new Map<string, PeriodTotals>();
+  const years = new Map<string, PeriodTotals>();
+  const bucketsFor = (date: string) =>
+    [
+      [months, date.slice(0, 7)],
+      [years, date.slice(0, 4)],
+    ] as const;
+  const totalsFor = (map: Map<string, PeriodTotals>, key: string) => {
+    let totals = map.get(key);
+    if (!totals) {
+      totals = { key, rent: 0, utilities: 0, invoiced: 0, collected: 0 };
+      map.set(key, totals);
+    }
+    return totals;
+  };
+
+  const noiByUnit = new Map<string | null, NoiRow>();
+  const noiFor = (unitId: string | null) => {
+    let row = noiByUnit.get(unitId);
+    if (!row) {
+      row = { unitId, invoiced: 0, collected: 0, expenses: 0 };
+      noiByUnit.set(unitId, row);
+    }
+    return row;
+  };
+
+  let invoiced = 0;
+  let paidOnInvoiced = 0;
+  for (const inv of invoices.filter((i) => inRange(invoiceDate(i)))) {
+    const amounts = invoiceAmounts(inv, settings);
+    invoiced += amounts.total;
+    noiFor(inv.unitId).invoiced += amounts.total;
+    paidOnInvoiced += Math.min(invoicePaidBase(data, inv.id, settings), amounts.total);
+    for (const [map, key] of bucketsFor(invoiceDate(inv))) {
+      const totals = totalsFor(map, key);
+      totals.rent += amounts.rent;
+      totals.utilities += amounts.utilities;
+      totals.invoiced += amounts.total;
+    }
+  }
+
+  let collected = 0;
+  const byKind: Record<UnitKind, number> = { apartment: 0, shop: 0 };
+  const byCurrency: Record<Currency, { amount: number; base: number }> = { JOD: { amount: 0, base: 0 }, ILS: { amount: 0, base: 0 } };
+  for (const p of payments) {
+    const base = convertToBaseOn(p.amount, p.currency, p.date, data.rates, settings);
+    collected += base;
+    noiFor(p.unitId).collected += base;
+    const kind = unitsById.get(p.unitId)?.kind;
+    if (kind) byKind[kind] += base;
+    byCurrency[p.currency].amount += p.amount;
+    byCurrency[p.currency].base += base;
+    for (const [map, key] of bucketsFor(p.date)) totalsFor(map, key).collected += base;
+  }
+
+  // أعمار الذمم كما كانت في نهاية المدى (أو اليوم): كل فاتورة صدرت حتى ذلك اليوم مهما قدمت، ناقص ما دُفع عنها حتى ذلك اليوم فقط
+  const asOf = filter.to || new Date().toISOString().slice(0, 10);
+
+  // عند اختيار وحدة تُحسب مصاريفها فقط، دون مصاريف المبنى العامة
+  let expenses = 0;
+  for (const expense of data.expenses.filter((x) => (filter.unitId ? x.unitId === filter.unitId : true))) {
+    const base = expenseBaseInRange(data, expense, filter.from, asOf, settings);
+    if (!base) continue;
+    expenses += base;
+    noiFor(expense.unitId ?? null).expenses += base;
+  }
+  const agingByTenant = new Map<string, AgingRow>();
+  for (const inv of invoices.filter((i) => invoiceDate(i) <= asOf)) {
+    const outstanding = invoiceAmounts(inv, settings).total - invoicePaidBase(data, inv.id, settings, asOf);
+    if (outstanding <= SETTLEMENT_EPSILON) continue;
+    let row = agingByTenant.get(inv.tenantId);
+    if (!row) {
+      row = { tenantId: inv.tenantId, buckets: AGING_BUCKETS.map(() => 0), total: 0 };
+      agingByTenant.set(inv.tenantId, row);
+    }
+    row.buckets[agingBucket(daysInclusive(invoiceDate(inv), asOf) - 1)] += outstanding;
+    row.total += outstanding;
+  }
+
+  const byKey = (a: PeriodTotals, b: PeriodTotals) => (a.key < b.key ? -1 : 1);
+  return {
+    months: Array.from(months.values()).sort(byKey),
+    years: Array.from(years.values()).sort(byKey),
+    invoiced,
+    paidOnInvoiced,
+    collected,
+    collectionRate: invoiced > 0 ? paidOnInvoiced / invoiced : null,
+    aging: Array.from(agingByTenant.values()).sort((a, b) => b.total - a.total),
+    byKind,
+    byCurrency,
+    expenses,
+    noi: Array.from(noiByUnit.values()).sort((a, b) => (a.unitId === null ? 1 : b.unitId === null ? -1 : 0)),
+  };
+}
+
+type ImportEntity = "units" | "tenants" | "utilities" | "payments";
+
+type ImportField = { key: string; label: string; required: boolean; aliases: string[] };
+
+// الحقول لكل نوع استيراد؛ aliases لمطابقة عناوين الأعمدة تلقائياً
+const IMPORT_FIELDS: Record<ImportEntity, ImportField[]> = {
+  units: [
+    { key: "name", label: "اسم الوحدة", required: true, aliases: ["name", "unit", "الوحدة", "اسم الوحدة"] },
+    { key: "kind", label: "النوع (شقة/محل)", required: true, aliases: ["kind", "type", "النوع"] },
+    { key: "rentAmount", label: "الأجار", required: true, aliases: ["rent", "rent_amount", "الأجار", "الايجار"] },
+    { key: "rentCurrency", label: "عملة الأجار", required: true, aliases: ["currency", "rent_currency", "العملة"] },
+    { key: "area", label: "المساحة", required: false, aliases: ["area", "المساحة"] },
+    { key: "occupants", label: "عدد الساكنين", required: false, aliases: ["occupants", "الساكنين", "عدد الساكنين"] },
+  ],
+  tenants: [
+    { key: "name", label: "اسم المستأجر", required: true, aliases: ["name", "tenant", "المستأجر", "الاسم"] },
+    { key: "phone", label: "الهاتف", required: false, aliases: ["phone", "الهاتف", "الجوال"] },
+    { key: "unit", label: "الوحدة", required: true, aliases: ["unit", "الوحدة"] },
+    { key: "startDate", label: "تاريخ البدء", required: true, aliases: ["start", "start_date", "تاريخ البدء", "البدء"] },
+    { key: "endDate", label: "تاريخ المغادرة", required: false, aliases: ["end", "end_date", "تاريخ المغادرة"] },
+  ],
+  utilities: [
+    { key: "unit", label: "الوحدة", required: true, aliases: ["unit", "الوحدة"] },
+    { key: "period", label: "الفترة (YYYY-MM)", required: true, aliases: ["period", "month", "الفترة", "الشهر"] },
+    { key: "type", label: "نوع الرسوم", required: true, aliases: ["type", "النوع"] },
+    { key: "amount", label: "المبلغ", required: true, aliases: ["amount", "المبلغ"] },
+    { key: "currency", label: "العملة", required: true, aliases: ["currency", "العملة"] },
+  ],
+  payments: [
+    { key: "tenant", label: "المستأجر", required: true, aliases: ["tenant", "name", "المستأجر"] },
+    { key: "unit", label: "الوحدة (عند تشابه الأسماء)", required: false, aliases: ["unit", "الوحدة"] },
+    { key: "date", label: "التاريخ", required: true, aliases: ["date", "التاريخ"] },
+    { key: "amount", label: "المبلغ", required: true, aliases: ["amount", "المبلغ"] },
+    { key: "currency", label: "العملة", required: true, aliases: ["currency", "العملة"] },
+    { key: "period", label: "الفترة", required: false, aliases: ["period", "الفترة"] },
+    { key: "note", label: "ملاحظة", required: false, aliases: ["note", "ملاحظة", "البيان"] },
+  ],
+};
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function parseCurrencyCell(v: string): Currency | null {
+  const x = v.trim().toLowerCase();
+  if (["jod", "jd", "دينار", "دينار أردني"].includes(x)) return "JOD";
+  if (["ils", "nis", "₪", "شيكل", "شيقل"].includes(x)) return "ILS";
+  return null;
+}
+
+function parseAmountCell(v: string): number | null {
+  const n = Number(v.replace(/,/g, "").trim());
+  return v.trim() !== "" && Number.isFinite(n) && n > 0 ? n : null;
+}
+
+// عدد صحيح موجب (عمود int في قاعدة البيانات)
+function parseCountCell(v: string): number | null {
+  const x = v.replace(/,/g, "").trim();
+  return /^\d+$/.test(x) && Number(x) > 0 ? Number(x) : null;
+}
+
+// يقبل YYYY-MM-DD أو DD/MM/YYYY، ويرفض التواريخ غير الموجودة مثل 2026-02-30
+function parseDateCell(v: string): string | null {
+  const x = v.trim();
+  let m = x.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  let iso: string | null = null;
+  if (m) iso = `${m[1]}-${m[2].padStart(2, "0")}-${m[3].padStart(2, "0")}`;
+  m = x.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (m) iso = `${m[3]}-${m[2].padStart(2, "0")}-${m[1].padStart(2, "0")}`;
+  if (!iso) return null;
+  const d = new Date(`${iso}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === iso ? iso : null;
+}
+
+function parsePeriodCell(v: string): string | null {
+  const x = v.trim();
+  const m = x.match(/^(\d{4})-(\d{1,2})$/);
+  if (m && Number(m[2]) >= 1 && Number(m[2]) <= 12) return `${m[1]}-${m[2].padStart(2, "0")}`;
+  const date = parseDateCell(x);
+  return date ? date.slice(0, 7) : null;
+}
+
+type ImportPreview = {
+  rows: Array<{ line: number; summary: string; errors: string[] }>;
+  units: Unit[];
+  tenants: Tenant[];
+  utilities: UtilityCharge[];
+  payments: Payment[];
+};
+
+// يتحقق من كل صف ويحوّل أسماء الوحدات والمستأجرين إلى معرّفات؛ لا يُحفظ شيء ما دام هناك خطأ واحد
+function buildImportPreview(entity: ImportEntity, table: string[][], mapping: Record<string, number>, data: AppData): ImportPreview {
+  const preview: ImportPreview = { rows: [], units: [], tenants: [], utilities: [], payments: [] };
+  table.slice(1).forEach((cells, idx) => {
+    const line = idx + 2; // رقم السطر في الملف بعد سطر العناوين
+    const errors: string[] = [];
+    const get = (key: string) => (mapping[key] >= 0 ? (cells[mapping[key]] ?? "").trim() : "");
+    for (const f of IMPORT_FIELDS[entity]) {
+      if (f.required && !get(f.key)) errors.push(`${f.label}: مطلوب`);
+    }
+    const findUnit = (name: string) => data.units.find((u) => sameName(u.name, name));
+    let summary = "";
+
+    if (entity === "units") {
+      const name = get("name");
+      const kind = ["apartment", "شقة"].includes(get("kind").toLowerCase()) ? "apartment" : ["shop", "محل"].includes(get("kind").toLowerCase()) ? "shop" : null;
+      const rentAmount = parseAmountCell(get("rentAmount"));
+      const rentCurrency = parseCurrencyCell(get("rentCurrency"));
+      const occupants = get("occupants") ? parseCountCell(get("occupants")) : undefined;
+      if (occupants === null) errors.push("عدد الساكنين: عدد صحيح موجب");
+      if (get("kind") && !kind) errors.push("النوع: يجب أن يكون شقة أو محل");
+      if (get("rentAmount") && rentAmount === null) errors.push("الأجار: رقم غير صالح");
+      if (get("rentCurrency") && !rentCurrency) errors.push("العملة: دينار أو شيكل فقط");
+      if (name && (findUnit(name) || preview.units.some((u) => sameName(u.name, name)))) errors.push("الوحدة موجودة مسبقاً");
+      summary = name;
+      if (errors.length === 0) {
+        preview.units.push({
+          id: uid("unit"),
+          name,
+          kind: kind!,
+          rentAmount: rentAmount!,
+          rentCurrency: rentCurrency!,
+          area: parseAmountCell(get("area")) ?? undefined,
+          occupants: occupants ?? undefined,
+        });
+      }
+    }
+
+    if (entity === "tenants") {
+      const unit = get("unit") ? findUnit(get("unit")) : undefined;
+      const startDate = parseDateCell(get("startDate"));
+      const endDate = get("endDate") ? parseDateCell(get("endDate")) : undefined;
+      if (get("unit") && !unit) errors.push(`الوحدة غير موجودة: ${get("unit")}`);
+      if (get("startDate") && !startDate) errors.push("تاريخ البدء غير صالح");
+      if (endDate === null) errors.push("تاريخ المغادرة غير صالح");
+      if (startDate && endDate && endDate < startDate) errors.push("تاريخ المغادرة قبل تاريخ البدء");
+      summary = `${get("name")} — ${get("unit")}`;
+      if (errors.length === 0) {
+        preview.tenants.push({
+          id: uid("tenant"),
+          name: get("name"),
+          phone: get("phone") || undefined,
+          unitId: unit!.id,
+          startDate: startDate!,
+          endDate: endDate || undefined,
+          active: true,
+        });
+      }
+    }
+
+    if (entity === "utilities") {
+      const unit = get("unit") ? findUnit(get("unit")) : undefined;
+      const period = parsePeriodCell(get("period"));
+      const type = allChargeTypes(data).find((t) => t.id === get("type") || sameName(t.labelAr, get("type")) || sameName(t.labelEn, get("type")));
+      const amount = parseAmountCell(get("amount"));
+      const currency = parseCurrencyCell(get("currency"));
+      if (get("unit") && !unit) errors.push(`الوحدة غير موجودة: ${get("unit")}`);
+      if (get("period") && !period) errors.push("الفترة: الصيغة YYYY-MM");
+      if (get("type") && !type) errors.push(`نوع رسوم غير معروف: ${get("type")}`);
+      if (get("amount") && amount === null) errors.push("المبلغ: رقم غير صالح");
+      if (get("currency") && !currency) errors.push("العملة: دينار أو شيكل فقط");
+      summary = `${get("unit")} — ${get("period")} — ${get("type")}`;
+      if (errors.length === 0) {
+        preview.utilities.push({ id: uid("util"), unitId: unit!.id, period: period!, type: type!.id, amount: amount!, currency: currency! });
+      }
+    }
+
+    if (entity === "payments") {
+      const candidates = data.tenants.filter((t) => sameName(t.name, get("tenant")) && (!get("unit") || sameName(data.units.find((u) => u.id === t.unitId)?.name ?? "", get("unit"))));
+      const date = parseDateCell(get("date"));
+      const amount = parseAmountCell(get("amount"));
+      const currency = parseCurrencyCell(get("currency"));
+      const period = get("period") ? parsePeriodCell(get("period")) : undefined;
+      if (get("tenant") && candidates.length === 0) errors.push(`المستأجر غير موجود: ${get("tenant")}`);
+      if (candidates.length > 1) errors.push("أكثر من مستأجر بنفس الاسم: حدد عمود الوحدة");
+      if (get("date") && !date) errors.push("التاريخ غير صالح");
+      if (get("amount") && amount === null) errors.push("المبلغ: رقم غير صالح");
+      if (get("currency") && !currency) errors.push("العملة: دينار أو شيكل فقط");
+      if (period === null) errors.push("الفترة: الصيغة YYYY-MM");
+      summary = `${get("tenant")} — ${get("date")} — ${get("amount")}`;
+      if (errors.length === 0) {
+        const tenant = candidates[0];
+        preview.payments.push({
+          id: uid("pay"),
+          tenantId: tenant.id,
+          unitId: tenant.unitId,
+          date: date!,
+          amount: amount!,
+          currency: currency!,
+          period: period || undefined,
+          note: get("note") || undefined,
+        });
+      }
+    }
+
+    preview.rows.push({ line, summary, errors });
+  });
+  return preview;
+}
+
+// تحويل صفوف Supabase إلى بيانات الواجهة؛ ما لا يرجع من الخادم (مثل الإعدادات قبل حفظها) يبقى من النسخة المحلية
+function appDataFromServer(prev: AppData, all: FetchAllResult): AppData {
+  const settings: Settings = all.settings
+    ? {
+        baseCurrency: all.settings.base_currency as Currency,
+        jodToIlsRate: all.settings.jod_to_ils_rate,
+        buildingName: all.settings.building_name || undefined,
+        buildingAddress: all.settings.building_address || undefined,
+        logoUrl: all.settings.logo_url || undefined,
+      }
+    : prev.settings;
+  return {
+    ...prev,
+    settings,
+    chargeTypes: all.chargeTypes.map((t) => ({
+      id: t.id,
+      labelAr: t.label_ar,
+      labelEn: t.label_en,
+      defaultAmount: t.default_amount,
+      currency: t.currency as Currency,
+      recurrence: t.recurrence,
+      appliesTo: t.applies_to,
+    })),
+    units: all.units.map((u) => ({
+      id: u.id,
+      name: u.name,
+      kind: u.kind as UnitKind,
+      rentAmount: u.rent_amount,
+      rentCurrency: u.rent_currency as Currency,
+      area: u.area ?? undefined,
+      occupants: u.occupants ?? undefined,
+      deletedAt: u.deleted_at || undefined,
+    })),
+    tenants: all.tenants.map((t) => ({
+      id: t.id,
+      name: t.name,
+      phone: t.phone || undefined,
+      unitId: t.unit_id,
+      startDate: t.start_date,
+      endDate: t.end_date || undefined,
+      active: t.active,
+      deletedAt: t.deleted_at || undefined,
+    })),
+    leases: all.leases.map((l) => ({
+      id: l.id,
+      tenantId: l.tenant_id,
+      unitId: l.unit_id,
+      startDate: l.start_date,
+      endDate: l.end_date || undefined,
+      rentAmount: l.rent_amount,
+      rentCurrency: l.rent_currency as Currency,
+      frequency: l.frequency as BillingFrequency,
+      dueDay: l.due_day,
+      depositAmount: l.deposit_amount,
+      depositCurrency: l.deposit_currency as Currency,
+      escalation: l.escalation_kind
+        ? {
+            kind: l.escalation_kind,
+            value: l.escalation_value ?? 0,
+            effectiveDate: l.escalation_date || l.start_date,
+            cap: l.escalation_cap ?? undefined,
+          }
+        : undefined,
+      proration: l.proration,
+    })),
+    utilities: all.utilities.map((u) => ({ id: u.id, unitId: u.unit_id, period: u.period, type: u.type, amount: u.amount, currency: u.currency as Currency, readingId: u.reading_id || undefined, billId: u.bill_id || undefined, tenantId: u.tenant_id || undefined })),
+    buildingBills: all.buildingBills.map((b) => ({
+      id: b.id,
+      period: b.period,
+      type: b.type,
+      amount: b.amount,
+      currency: b.currency as Currency,
+      method: b.method,
+      unitIds: b.unit_ids,
+      shares: b.shares || {},
+      note: b.note || undefined,
+    })),
+    tariffs: all.tariffs.map((t) => ({
+      id: t.id,
+      name: t.name,
+      type: t.type,
+      currency: t.currency as Currency,
+      fixedCharge: t.fixed_charge,
+      tiers: (t.tiers || []).map((x) => ({ upTo: x.up_to, rate: x.rate })),
+    })),
+    meters: all.meters.map((m) => ({
+      id: m.id,
+      unitId: m.unit_id,
+      type: m.type,
+      name: m.name,
+      digits: m.digits,
+      initialReading: m.initial_reading,
+      tariffId: m.tariff_id || undefined,
+    })),
+    readings: all.readings.map((r) => ({ id: r.id, meterId: r.meter_id, period: r.period, reading: r.reading })),
+    invoices: all.invoices.map((i) => withFrozenDefaults({
+      id: i.id,
+      unitId: i.unit_id,
+      tenantId: i.tenant_id,
+      period: i.period,
+      scope: i.scope as "monthly" | "yearly",
+      rentBase: i.rent_base,
+      utilitiesBase: i.utilities_base,
+      totalBase: i.total_base,
+      currency: (i.currency as Currency | null) ?? undefined,
+      jodToIlsRate: i.jod_to_ils_rate ?? undefined,
+      rentAmount: i.rent_amount ?? undefined,
+      rentCurrency: (i.rent_currency as Currency | null) ?? undefined,
+      utilitiesJod: i.utilities_jod ?? undefined,
+      utilitiesIls: i.utilities_ils ?? undefined,
+      voidedAt: i.voided_at ?? undefined,
+      number: i.number ?? undefined,
+      replacedBy: i.replaced_by ?? undefined,
+      leaseId: i.lease_id ?? undefined,
+      prorationNote: i.proration_note ?? undefined,
+    }, settings)),
+    payments: all.payments.map((p) => ({
+      id: p.id,
+      tenantId: p.tenant_id,
+      unitId: p.unit_id,
+      date: p.date,
+      amount: p.amount,
+      currency: p.currency as Currency,
+      period: p.period || undefined,
+      note: p.note || undefined,
+      number: p.number || undefined,
+      voidedAt: p.voided_at || undefined,
+    })),
+    allocations: all.allocations.map((a) => ({ id: a.id, paymentId: a.payment_id, invoiceId: a.invoice_id, amount: a.amount })),
+    deposits: all.deposits.map((x) => ({
+      id: x.id,
+      tenantId: x.tenant_id,
+      unitId: x.unit_id,
+      date: x.date,
+      kind: x.kind,
+      amount: x.amount,
+      currency: x.currency as Currency,
+      note: x.note || undefined,
+      paymentId: x.payment_id || undefined,
+    })),
+    expenses: all.expenses.map((x) => ({
+      id: x.id,
+      date: x.date,
+      category: x.category as ExpenseCategory,
+      amount: x.amount,
+      currency: x.currency as Currency,
+      unitId: x.unit_id || undefined,
+      recurrence: x.recurrence,
+      endDate: x.end_date || undefined,
+      note: x.note || undefined,
+      receiptPath: x.receipt_path || undefined,
+    })),
+    maintenance: all.maintenance.map((m) => ({
+      id: m.id,
+      unitId: m.unit_id,
+      tenantId: m.tenant_id || undefined,
+      title: m.title,
+      description: m.description || undefined,
+      status: m.status,
+      priority: m.priority,
+      technician: m.technician || undefined,
+      scheduledDate: m.scheduled_date || undefined,
+      cost: m.cost ?? undefined,
+      currency: m.currency as Currency,
+      photoPaths: m.photo_paths || [],
+      openedOn: m.opened_on,
+      completedOn: m.completed_on || undefined,
+      expenseId: m.expense_id || undefined,
+      chargeId: m.charge_id || undefined,
+    })),
+    rates: all.rates.map((r) => ({ date: r.rate_date, jodToIlsRate: r.jod_to_ils_rate, source: r.source })),
+  };
+}
+
+type TabKey = "home" | "settings" | "units" | "tenants" | "leases" | "utilities" | "meters" | "invoices" | "payments" | "deposits" | "expenses" | "maintenance" | "statement" | "reports" | "import";
+
+export default function Home() {
+  const [activeTab, setActiveTab] = useState<TabKey>("home");
+  const [data, setData] = useState<AppData>(DEFAULT_DATA);
+  const [syncing, setSyncing] = useState<boolean>(false);
+  const [syncMsg, setSyncMsg] = useState<string | null>(null);
+  const [isAuthed, setIsAuthed] = useState<boolean>(false);
+  const [loginEmail, setLoginEmail] = useState<string>("");
+  const [loginPassword, setLoginPassword] = useState<string>("");
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [rateForm, setRateForm] = useState<{ date: string; rate: string }>({ date: new Date().toISOString().slice(0, 10), rate: "" });
+  const [backups, setBackups] = useState<DbBackupSummary[]>([]);
+  const [restorePlan, setRestorePlan] = useState<{
+    backup: DbBackupSummary;
+    current: BackupPayload;
+    snapshot: BackupPayload;
+    diff: Record<BackupTable, TableDiff>;
+    groups: string[];
+  } | null>(null);
+  const restoreTables = restorePlan ? BACKUP_GROUPS.filter((g) => restorePlan.groups.includes(g.key)).flatMap((g) => g.tables) : [];
+  // ما يُحذف من الجداول غير المختارة بالحذف المتتالي، ويتغير مع كل اختيار
+  const restoreCascaded = restorePlan ? restoreCascades(restorePlan.current, restorePlan.snapshot, restoreTables) : {};
+  const outbox = useOutbox();
+  const blockedWrites = blockedOutboxIds(outbox).size;
+
+  // رقم الإيصال يخصصه الخادم عند وصول الدفعة؛ والصندوق يُستأنف فور عودة الاتصال
+  useEffect(() => {
+    setOutboxResultHandler((entry, result) => {
+      if (entry.op !== "dbInsertPayment") return;
+      const id = (entry.args[0] as { id: string }).id;
+      setData((d) => ({ ...d, payments: withDocumentNumbers(d.payments, [{ id, number: result as string | null }]) }));
+    });
+    // التعديل المرفوض يُعاد فيه الصف لقيمته السابقة حتى لا تختلف الواجهة عن الخادم
+    setOutboxRejectionHandler((entry) => {
+      const undo = entry.undo as RowUndo | undefined;
+      if (undo) setData((d) => replaceRows(d, undo.collection, undo.rows));
+    });
+    const onOnline = () => void flushOutbox();
+    window.addEventListener("online", onOnline);
+    return () => {
+      setOutboxResultHandler(null);
+      setOutboxRejectionHandler(null);
+      window.removeEventListener("online", onOnline);
+    };
+  }, []);
+
+  // Initial load from Supabase (fallback to local cache)
+  useEffect(() => {
+    (async () => {
+      // initialize auth state
+      try {
+        const supabase = getSupabaseClient();
+        const { data: s } = await supabase.auth.getSession();
+        const adminEmail = process.env.NEXT_PUBLIC_ADMIN_EMAIL;
+        const emailOk = s.session?.user?.email && (!adminEmail || s.session.user.email === adminEmail);
+        setIsAuthed(Boolean(s.session) && Boolean(emailOk));
+        supabase.auth.onAuthStateChange((_event, sess) => {
+          const ok = sess?.user?.email && (!adminEmail || sess.user.email === adminEmail);
+          setIsAuthed(Boolean(sess) && Boolean(ok));
+        });
+      } catch {}
+
+      // الكتابات المعلّقة تُرسل أولاً؛ ما دام بعضها لم يصل تبقى النسخة المحلية لأنها أحدث من الخادم
+      try {
+        await flushOutbox();
+        if (hasPendingWrites()) throw new Error("pending writes");
+        const all = await dbFetchAll();
+        setData((prev) => appDataFromServer(prev, all));
+      } catch {
+        try {
+          const raw = localStorage.getItem("zc_data_v1");
+          if (raw) {
+            const cached = { ...DEFAULT_DATA, ...(JSON.parse(raw) as AppData) };
+            setData({ ...cached, invoices: cached.invoices.map((i) => withFrozenDefaults(i, cached.settings)) });
+          }
+        } catch {}
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem("zc_data_v1", JSON.stringify(data));
+    } catch {}
+  }, [data]);
+
+  const unitsById = useMemo(() => {
+    const m = new Map<string, Unit>();
+    data.units.forEach((u) => m.set(u.id, u));
+    return m;
+  }, [data.units]);
+
+  const tenantsByUnit = useMemo(() => {
+    const m = new Map<string, Tenant[]>();
+    data.tenants.filter((t) => !t.deletedAt).forEach((t) => {
+      const arr = m.get(t.unitId) || [];
+      arr.push(t);
+      m.set(t.unitId, arr);
+    });
+    return m;
+  }, [data.tenants]);
+
+  // Daily auto-update of exchange rate (once per 24h on first load) from the rate stored by /api/rates
+  useEffect(() => {
+    (async () => {
+      const key = "zc_rate_last";
+      try {
+        const last = Number(localStorage.getItem(key) || "0");
+        const now = Date.now();
+        if (!last || now - last > 24 * 60 * 60 * 1000) {
+          const latest = await dbFetchLatestRate();
+          if (!latest) return;
+          const rate = latest.jod_to_ils_rate;
+          await dbUpsertSettings({ base_currency: data.settings.baseCurrency, jod_to_ils_rate: rate });
+          setData((d) => ({ ...d, settings: { ...d.settings, jodToIlsRate: rate } }));
+          localStorage.setItem(key, String(now));
+        }
+      } catch {}
+    })();
+  }, [data.settings.baseCurrency]);
+
+  useEffect(() => {
+    if (activeTab !== "settings" || !isAuthed) return;
+    dbListBackups().then(setBackups).catch(() => {});
+  }, [activeTab, isAuthed]);
+
+  // اللقطة تُؤخذ من الخادم، فتُرسل التعديلات المعلقة أولاً حتى لا تسقط منها
+  async function backupToSupabase() {
+    setSyncMsg(null);
+    setSyncing(true);
+    try {
+      await flushOutbox();
+      if (hasPendingWrites()) throw new Error("توجد تعديلات لم تصل للخادم بعد. أعد المحاولة بعد المزامنة.");
+      await dbCreateBackup();
+      setBackups(await dbListBackups());
+      setSyncMsg("تم النسخ الاحتياطي بنجاح إلى Supabase.");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "فشل النسخ الاحتياطي. تحقق من الإعدادات.";
+      setSyncMsg(message);
+    } finally {
+      setSyncing(false);
+    }
+  }
+
+  // المعاينة تقارن اللقطة بالجداول الحالية، وتختار مسبقاً المجموعات التي تتغير
+  async function previewRestore(backup: DbBackupSummary) {
+    setSyncMsg(null);
+    setSyncing(true);
+    try {
+      if (backup.schema_version !== BACKUP_SCHEMA_VERSION) {
+        throw new Error(`صيغة هذه النسخة (${backup.schema_version}) لا تطابق الصيغة الحالية (${BACKUP_SCHEMA_VERSION}) فلا تُستعاد.`);
+      }
+      const [snapshot, current] = await Promise.all([dbFetchBackup(backup.id), dbSnapshotCurrent()]);
+      const diff = diffBackup(current, snapshot.payload);
+      const changed = (t: BackupTable) => diff[t].added + diff[t].changed + diff[t].removed + diff[t].voided > 0;
+      setRestorePlan({ backup, current, snapshot: snapshot.payload, diff, groups: BACKUP_GROUPS.filter((g) => g.tables.some(changed)).map((g) => g.key) });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "تعذر تحميل النسخة.";
+      setSyncMsg(message);
+    } finally {
+      setSyncing(false);
+    }
+  }
+
+  // تُعاد كتابة الجداول المختارة على الخادم ثم تُحمّل البيانات منه من جديد
+  async function restoreFromSupabase() {
+    if (!restorePlan || restorePlan.groups.length === 0) return;
+    setSyncMsg(null);
+    setSyncing(true);
+    try {
+      await flushOutbox();
+      if (hasPendingWrites()) throw new Error("توجد تعديلات لم تصل للخادم بعد. أعد المحاولة بعد المزامنة.");
+      await dbRestoreBackup(restorePlan.backup.id, restoreTables);
+      const all = await dbFetchAll();
+      setData((prev) => appDataFromServer(prev, all));
+      setRestorePlan(null);
+      setSyncMsg(`تمت الاستعادة من نسخة ${restorePlan.backup.created_at.slice(0, 16).replace("T", " ")}.`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "فشلت عملية الاستعادة.";
+      setSyncMsg(message);
+    } finally {
+      setSyncing(false);
+    }
+  }
+
+  async function updateBaseCurrency(next: Currency) {
+    setData((d) => ({ ...d, settings: { ...d.settings, baseCurrency: next } }));
+    enqueue("dbUpsertSettings", { label: "حفظ الإعدادات" }, { base_currency: next, jod_to_ils_rate: data.settings.jodToIlsRate });
+  }
+
+  async function updateExchangeRate(next: number) {
+    const rate = next || 0;
+    setData((d) => ({ ...d, settings: { ...d.settings, jodToIlsRate: rate } }));
+    enqueue("dbUpsertSettings", { label: "حفظ الإعدادات" }, { base_currency: data.settings.baseCurrency, jod_to_ils_rate: rate });
+  }
+
+  async function saveBuildingProfile() {
+    enqueue("dbUpsertSettings", { label: "حفظ بيانات المبنى" }, {
+      base_currency: data.settings.baseCurrency,
+      jod_to_ils_rate: data.settings.jodToIlsRate,
+      building_name: data.settings.buildingName || null,
+      building_address: data.settings.buildingAddress || null,
+      logo_url: data.settings.logoUrl || null,
+    });
+    setSyncMsg("تم حفظ بيانات المبنى.");
+  }
+
+  async function autoFetchRate() {
+    setSyncMsg(null);
+    setSyncing(true);
+    try {
+      const latest = await dbFetchLatestRate();
+      if (!latest) throw new Error("لا يوجد سعر صرف محفوظ بعد. تأكد من تشغيل /api/rates.");
+      const rate = latest.jod_to_ils_rate;
+      await dbUpsertSettings({ base_currency: data.settings.baseCurrency, jod_to_ils_rate: rate });
+      setData((d) => ({ ...d, settings: { ...d.settings, jodToIlsRate: rate } }));
+      setSyncMsg(`تم تحديث سعر الصرف من آخر سعر محفوظ (${latest.rate_date}).`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "تعذر تحديث سعر الصرف.";
+      setSyncMsg(message);
+    } finally {
+      setSyncing(false);
+    }
+  }
+
+  // إدخال يدوي لسعر يوم معين؛ لا يستبدله التحديث التلقائي
+  async function overrideRate() {
+    const rate = Number(rateForm.rate);
+    if (!rateForm.date || !rate) return;
+    const entry: ExchangeRate = { date: rateForm.date, jodToIlsRate: rate, source: "manual" };
+    setData((d) => ({
+      ...d,
+      rates: [entry, ...d.rates.filter((r) => r.date !== entry.date)].sort((a, b) => (a.date < b.date ? 1 : -1)),
+    }));
+    enqueue("dbUpsertExchangeRate", { label: "حفظ سعر صرف يدوي" }, { rate_date: entry.date, jod_to_ils_rate: entry.jodToIlsRate });
+    setRateForm({ date: new Date().toISOString().slice(0, 10), rate: "" });
+  }
+
+  async function signIn() {
+    setAuthError(null);
+    try {
+      const adminEmail = process.env.NEXT_PUBLIC_ADMIN_EMAIL;
+      if (adminEmail && loginEmail.trim() !== adminEmail) {
+        setAuthError("البريد غير مسموح");
+        return;
+      }
+      const supabase = getSupabaseClient();
+      const { error } = await supabase.auth.signInWithPassword({ email: loginEmail.trim(), password: loginPassword });
+      if (error) throw error;
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "فشل تسجيل الدخول";
+      setAuthError(message);
+    }
+  }
+
+  // التخلي عن التعديل المرفوض وإعادة تحميل البيانات كما هي على الخادم
+  async function discardAndReload(id: string) {
+    discardOutboxEntry(id);
+    try {
+      await flushOutbox();
+      if (hasPendingWrites()) return;
+      const all = await dbFetchAll();
+      setData((prev) => appDataFromServer(prev, all));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "تعذر تحميل نسخة الخادم.";
+      setSyncMsg(message);
+    }
+  }
+
+  async function signOut() {
+    try {
+      const supabase = getSupabaseClient();
+      await supabase.auth.signOut();
+    } catch {}
+  }
+
+  return (
+    <div dir="rtl" className="min-h-screen bg-white text-black dark:bg-neutral-950 dark:text-neutral-100">
+      <div className="mx-auto max-w-6xl p-4 sm:p-8">
+        <header className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl sm:text-3xl font-semibold">نظام محاسبة المجمع</h1>
+          <div className="flex items-center gap-3">
+            <span className="text-sm text-neutral-500">العملة الرئيسية: {data.settings.baseCurrency === "JOD" ? "دينار أردني" : "شيكل"}</span>
+            {isAuthed ? (
+              <button onClick={signOut} className="text-sm rounded-md border px-3 py-1 hover:bg-neutral-50 dark:hover:bg-neutral-900">تسجيل الخروج</button>
+            ) : null}
+          </div>
+        </header>
+
+        {!isAuthed ? (
+          <section className="max-w-md mx-auto p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+            <h2 className="font-medium mb-4">تسجيل الدخول</h2>
+            <div className="space-y-3">
+              <input
+                placeholder="البريد الإلكتروني"
+                className="w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+                value={loginEmail}
+                onChange={(e) => setLoginEmail(e.target.value)}
+              />
+              <input
+                type="password"
+                placeholder="كلمة المرور"
+                className="w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+                value={loginPassword}
+                onChange={(e) => setLoginPassword(e.target.value)}
+              />
+              <button onClick={signIn} className="w-full rounded-md bg-blue-600 text-white px-4 py-2">دخول</button>
+              {authError && <div className="text-sm text-red-600">{authError}</div>}
+              {process.env.NEXT_PUBLIC_ADMIN_EMAIL ? (
+                <p className="text-xs text-neutral-500">البريد المسموح: {process.env.NEXT_PUBLIC_ADMIN_EMAIL}</p>
+              ) : (
+                <p className="text-xs text-neutral-500">لم يتم ضبط البريد المسموح. سيتم قبول أي بريد مسجّل في Supabase.</p>
+              )}
+            </div>
+          </section>
+        ) : (
+          <>
+            {outbox.length > 0 && (
+              <div className="mb-4 p-3 rounded-lg border border-amber-300 dark:border-amber-800 text-sm space-y-2">
+                {outbox.some((e) => e.status === "pending") && (
+                  <div className="text-amber-700 dark:text-amber-300">
+                    {outbox.filter((e) => e.status === "pending").length} تعديل بانتظار المزامنة مع الخادم
+                  </div>
+                )}
+                {blockedWrites > 0 && (
+                  <div className="text-amber-700 dark:text-amber-300">
+                    منها {blockedWrites} موقوفة لأنها تمس بيانات تعديلٍ فاشل أدناه؛ تُرسل بعد إعادة محاولته أو تجاهله.
+                  </div>
+                )}
+                {outbox
+                  .filter((e) => e.status === "failed")
+                  .map((e) => (
+                    <div key={e.id} className="flex flex-wrap items-center gap-2">
+                      <span className="text-red-600">{e.undo ? "رُفض التعديل وأُعيدت القيمة السابقة" : "فشل الحفظ"}: {e.label}</span>
+                      <span className="text-xs text-neutral-500">{e.error}</span>
+                      {e.undo ? (
+                        <button onClick={() => discardOutboxEntry(e.id)} className="rounded-md border px-2 py-1 text-xs hover:bg-neutral-50 dark:hover:bg-neutral-900">
+                          إخفاء
+                        </button>
+                      ) : (
+                        <>
+                          <button onClick={() => retryOutboxEntry(e.id)} className="rounded-md border px-2 py-1 text-xs hover:bg-neutral-50 dark:hover:bg-neutral-900">
+                            إعادة المحاولة
+                          </button>
+                          <button onClick={() => discardAndReload(e.id)} className="rounded-md border px-2 py-1 text-xs text-red-600 hover:bg-neutral-50 dark:hover:bg-neutral-900">
+                            تجاهل واعتماد نسخة الخادم
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  ))}
+              </div>
+            )}
+            <nav className="flex flex-wrap gap-2 mb-6 tab-scroll">
+              {[
+                { key: "home", label: "الرئيسية" },
+                { key: "settings", label: "الإعدادات" },
+                { key: "units", label: "الوحدات" },
+                { key: "tenants", label: "المستأجرون" },
+                { key: "leases", label: "العقود" },
+                { key: "utilities", label: "المرافق" },
+                { key: "meters", label: "العدادات" },
+                { key: "invoices", label: "الفواتير" },
+                { key: "payments", label: "المدفوعات" },
+                { key: "deposits", label: "التأمينات" },
+                { key: "expenses", label: "المصاريف" },
+                { key: "maintenance", label: "الصيانة" },
+                { key: "statement", label: "كشف الحساب" },
+                { key: "reports", label: "التقارير" },
+                { key: "import", label: "الاستيراد" },
+              ].map((t) => (
+                <button
+                  key={t.key}
+                  onClick={() => setActiveTab(t.key as TabKey)}
+                  className={`btn ${
+                    activeTab === t.key
+                      ? "bg-blue-600 text-white border-blue-600"
+                      : "bg-transparent border-neutral-300 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-900"
+                  }`}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </nav>
+
+            {activeTab === "home" && (
+              <HomeTab data={data} settings={data.settings} />
+            )}
+
+            {activeTab === "settings" && (
+          <section className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+                <h2 className="font-medium mb-3">العملة الرئيسية</h2>
+                <div className="flex gap-4">
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="radio"
+                      name="baseCurrency"
+                      checked={data.settings.baseCurrency === "JOD"}
+                      onChange={() => updateBaseCurrency("JOD")}
+                    />
+                    دينار أردني
+                  </label>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="radio"
+                      name="baseCurrency"
+                      checked={data.settings.baseCurrency === "ILS"}
+                      onChange={() => updateBaseCurrency("ILS")}
+                    />
+                    شيكل
+                  </label>
+                </div>
+              </div>
+
+              <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+                <h2 className="font-medium mb-3">سعر الصرف</h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm mb-1">1 دينار = كم شيكل؟</label>
+                    <input
+                      type="number"
+                      step="0.0001"
+                      className="w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+                      value={Number(data.settings.jodToIlsRate.toFixed(6))}
+                      onChange={(e) => updateExchangeRate(Number(e.target.value))}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm mb-1">1 شيكل ≈ كم دينار؟</label>
+                    <input
+                      type="text"
+                      readOnly
+                      className="w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+                      value={(1 / (data.settings.jodToIlsRate || 1)).toFixed(6)}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 mt-3">
+                  <button onClick={autoFetchRate} disabled={syncing} className="rounded-md bg-indigo-600 text-white px-3 py-1.5 text-sm disabled:opacity-60">
+                    {syncing ? "جارٍ التحديث..." : "تحديث تلقائي"}
+                  </button>
+                  <span className="text-xs text-neutral-500">آخر قيمة: {data.settings.jodToIlsRate.toFixed(6)} شيكل/دينار</span>
+                </div>
+                <p className="text-xs text-neutral-500 mt-2">تؤثر على تحويل العملات في الإجماليات.</p>
+              </div>
+
+              <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+                <h2 className="font-medium mb-3">بيانات المبنى للطباعة</h2>
+                <div className="space-y-2">
+                  <input
+                    placeholder="اسم المبنى"
+                    className="w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+                    value={data.settings.buildingName || ""}
+                    onChange={(e) => setData((d) => ({ ...d, settings: { ...d.settings, buildingName: e.target.value } }))}
+                  />
+                  <input
+                    placeholder="العنوان والهاتف"
+                    className="w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+                    value={data.settings.buildingAddress || ""}
+                    onChange={(e) => setData((d) => ({ ...d, settings: { ...d.settings, buildingAddress: e.target.value } }))}
+                  />
+                  <input
+                    placeholder="رابط الشعار (https://...)"
+                    dir="ltr"
+                    className="w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+                    value={data.settings.logoUrl || ""}
+                    onChange={(e) => setData((d) => ({ ...d, settings: { ...d.settings, logoUrl: e.target.value } }))}
+                  />
+                  <button onClick={saveBuildingProfile} className="rounded-md bg-blue-600 text-white px-3 py-1.5 text-sm">حفظ</button>
+                </div>
+              </div>
+            </div>
+            <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+              <h2 className="font-medium mb-3">النسخ الاحتياطي والاستعادة (Supabase)</h2>
+              <div className="flex flex-wrap items-center gap-3">
+                <button
+                  onClick={backupToSupabase}
+                  disabled={syncing}
+                  className="rounded-md bg-emerald-600 text-white px-4 py-2 disabled:opacity-60"
+                >
+                  {syncing ? "جارٍ الحفظ..." : "نسخ احتياطي الآن"}
+                </button>
+                {syncMsg && <span className="text-sm text-neutral-600 dark:text-neutral-400">{syncMsg}</span>}
+              </div>
+              <p className="text-xs text-neutral-500 mt-2">قم بإضافة مفاتيح Supabase في ملف البيئة لتفعيل هذه الأزرار.</p>
+
+              <table className="min-w-full text-sm mt-4">
+                <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+                  <tr className="text-neutral-500">
+                    <th className="py-2">التاريخ</th>
+                    <th className="py-2">النوع</th>
+                    <th className="py-2">الوحدات</th>
+                    <th className="py-2">المستأجرون</th>
+                    <th className="py-2">الفواتير</th>
+                    <th className="py-2">الدفعات</th>
+                    <th className="py-2">إجراءات</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {backups.map((b) => (
+                    <tr key={b.id} className="border-b border-neutral-100 dark:border-neutral-900">
+                      <td className="py-2" dir="ltr">{b.created_at.slice(0, 16).replace("T", " ")}</td>
+                      <td className="py-2">{b.source === "scheduled" ? "تلقائي" : "يدوي"}</td>
+                      <td className="py-2">{b.row_counts?.units ?? "-"}</td>
+                      <td className="py-2">{b.row_counts?.tenants ?? "-"}</td>
+                      <td className="py-2">{b.row_counts?.invoices ?? "-"}</td>
+                      <td className="py-2">{b.row_counts?.payments ?? "-"}</td>
+                      <td className="py-2">
+                        {b.schema_version === BACKUP_SCHEMA_VERSION ? (
+                          <button className="text-blue-600 hover:underline disabled:opacity-60" disabled={syncing} onClick={() => previewRestore(b)}>معاينة الاستعادة</button>
+                        ) : (
+                          <span className="text-neutral-500">صيغة قديمة</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                  {backups.length === 0 && (
+                    <tr>
+                      <td className="py-6 text-center text-neutral-500" colSpan={7}>لا توجد نسخ احتياطية</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+
+              {restorePlan && (
+                <div className="mt-4 p-4 rounded-lg border border-amber-300 dark:border-amber-800">
+                  <h3 className="font-medium mb-1">الاستعادة من نسخة {restorePlan.backup.created_at.slice(0, 16).replace("T", " ")}</h3>
+                  <p className="text-xs text-neutral-500 mb-3">
+                    تُستبدل الجداول المختارة بما في النسخة: يُضاف ما ينقص، ويُستبدل ما تغير، ويُحذف ما ليس في النسخة؛ إلا الفواتير والإيصالات المرقّمة فتُلغى ولا تُحذف. إن تعارضت مع جداول لم تُختر (مثل فواتير لوحدة محذوفة) تُلغى الاستعادة كلها.
+                  </p>
+                  <table className="min-w-full text-sm">
+                    <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+                      <tr className="text-neutral-500">
+                        <th className="py-2">استعادة</th>
+                        <th className="py-2">البيانات</th>
+                        <th className="py-2">تُضاف</th>
+                        <th className="py-2">تُستبدل</th>
+                        <th className="py-2">تُحذف</th>
+                        <th className="py-2">تُلغى</th>
+                        <th className="py-2">تُحذف تبعاً</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {BACKUP_GROUPS.map((g) => {
+                        const total = g.tables.reduce(
+                          (acc, t) => ({
+                            added: acc.added + restorePlan.diff[t].added,
+                            changed: acc.changed + restorePlan.diff[t].changed,
+                            removed: acc.removed + restorePlan.diff[t].removed,
+                            voided: acc.voided + restorePlan.diff[t].voided,
+                          }),
+                          { added: 0, changed: 0, removed: 0, voided: 0 }
+                        );
+                        const cascaded = g.tables.reduce((acc, t) => acc + (restoreCascaded[t] ?? 0), 0);
+                        return (
+                          <tr key={g.key} className="border-b border-neutral-100 dark:border-neutral-900">
+                            <td className="py-2">
+                              <input
+                                type="checkbox"
+                                checked={restorePlan.groups.includes(g.key)}
+                                onChange={(e) =>
+                                  setRestorePlan((p) => p && { ...p, groups: e.target.checked ? [...p.groups, g.key] : p.groups.filter((k) => k !== g.key) })
+                                }
+                              />
+                            </td>
+                            <td className="py-2">{g.label}</td>
+                            <td className="py-2">{total.added}</td>
+                            <td className="py-2">{total.changed}</td>
+                            <td className={`py-2 ${total.removed ? "text-red-600" : ""}`}>{total.removed}</td>
+                            <td className={`py-2 ${total.voided ? "text-red-600" : ""}`}>{total.voided}</td>
+                            <td className={`py-2 ${cascaded ? "text-red-600" : ""}`}>{cascaded}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  {Object.keys(restoreCascaded).length > 0 && (
+                    <p className="text-sm text-red-600 mt-2">
+                      حذف صفوف من البيانات المختارة يحذف معها صفوفاً مرتبطة بها من بيانات لم تُختر (عمود &quot;تُحذف تبعاً&quot;). اختر تلك البيانات أيضاً لتُستعاد من النسخة.
+                    </p>
+                  )}
+                  <div className="flex gap-3 mt-3">
+                    <button
+                      onClick={restoreFromSupabase}
+                      disabled={syncing || restorePlan.groups.length === 0}
+                      className="rounded-md bg-amber-600 text-white px-4 py-2 disabled:opacity-60"
+                    >
+                      {syncing ? "جارٍ الاستعادة..." : "استعادة المحدد"}
+                    </button>
+                    <button onClick={() => setRestorePlan(null)} className="rounded-md border px-4 py-2">إلغاء</button>
+                  </div>
+                </div>
+              )}
+            </div>
+            <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+              <h2 className="font-medium mb-3">أسعار الصرف اليومية</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+                <input
+                  type="date"
+                  className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+                  value={rateForm.date}
+                  onChange={(e) => setRateForm((f) => ({ ...f, date: e.target.value }))}
+                />
+                <input
+                  type="number"
+                  step="0.0001"
+                  placeholder="1 دينار = كم شيكل"
+                  className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+                  value={rateForm.rate}
+                  onChange={(e) => setRateForm((f) => ({ ...f, rate: e.target.value }))}
+                />
+                <button onClick={overrideRate} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ سعر يدوي</button>
+              </div>
+              <p className="text-xs text-neutral-500 mt-2">تُحوّل كل دفعة ومرافق بسعر يوم تاريخها (أو آخر سعر قبله). السعر اليدوي لا يستبدله التحديث التلقائي.</p>
+              <div className="overflow-auto mt-3">
+                <table className="min-w-full text-sm">
+                  <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+                    <tr className="text-neutral-500">
+                      <th className="py-2">التاريخ</th>
+                      <th className="py-2">السعر</th>
+                      <th className="py-2">المصدر</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.rates.slice(0, 30).map((r) => (
+                      <tr key={r.date} className="border-b border-neutral-100 dark:border-neutral-900">
+                        <td className="py-2">{r.date}</td>
+                        <td className="py-2">{r.jodToIlsRate.toFixed(6)}</td>
+                        <td className="py-2">{r.source === "manual" ? "يدوي" : "تلقائي"}</td>
+                      </tr>
+                    ))}
+                    {data.rates.length === 0 && (
+                      <tr>
+                        <td className="py-6 text-center text-neutral-500" colSpan={3}>لا توجد أسعار مسجلة</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </section>
+        )}
+
+        {activeTab === "units" && (
+          <UnitsTab data={data} setData={setData} tenantsByUnit={tenantsByUnit} />
+        )}
+
+        {activeTab === "tenants" && (
+          <TenantsTab data={data} setData={setData} unitsById={unitsById} settings={data.settings} />
+        )}
+
+        {activeTab === "leases" && (
+          <LeasesTab data={data} setData={setData} unitsById={unitsById} />
+        )}
+
+        {activeTab === "utilities" && (
+          <UtilitiesTab data={data} setData={setData} unitsById={unitsById} settings={data.settings} />
+        )}
+
+        {activeTab === "meters" && (
+          <MetersTab data={data} setData={setData} unitsById={unitsById} />
+        )}
+
+        {activeTab === "invoices" && (
+          <InvoicesTab data={data} setData={setData} unitsById={unitsById} settings={data.settings} />
+        )}
+
+        {activeTab === "payments" && (
+          <PaymentsTab data={data} setData={setData} unitsById={unitsById} settings={data.settings} />
+        )}
+
+        {activeTab === "deposits" && (
+          <DepositsTab data={data} setData={setData} unitsById={unitsById} settings={data.settings} />
+        )}
+
+        {activeTab === "expenses" && (
+          <ExpensesTab data={data} setData={setData} unitsById={unitsById} settings={data.settings} />
+        )}
+
+        {activeTab === "maintenance" && (
+          <MaintenanceTab data={data} setData={setData} unitsById={unitsById} settings={data.settings} />
+        )}
+
+        {activeTab === "import" && (
+          <ImportTab data={data} setData={setData} settings={data.settings} />
+        )}
+
+        {activeTab === "statement" && (
+          <StatementTab data={data} unitsById={unitsById} settings={data.settings} />
+        )}
+
+        {activeTab === "reports" && (
+          <ReportsTab data={data} settings={data.settings} />
+        )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// المبالغ في ملفات التصدير: بعملتها الأصلية (مع عمود العملة) أو محوّلة للعملة الرئيسية
+type AmountMode = "original" | "base";
+
+function useOutbox(): OutboxEntry[] {
+  return useSyncExternalStore(subscribeOutbox, getOutbox, getOutboxServerSnapshot);
+}
+
+// شارة على الصف الذي لم يصل تعديله للخادم بعد
+function SyncBadge({ rowId }: { rowId: string }) {
+  const outbox = useOutbox();
+  const entries = outbox.filter((e) => e.rowIds.includes(rowId));
+  if (entries.length === 0) return null;
+  const failed = entries.some((e) => e.status === "failed");
+  return (
+    <span
+      title={entries.map((e) => e.error || e.label).join("\n")}
+      className={`mr-2 inline-block rounded px-1.5 py-0.5 text-xs ${failed ? "bg-red-100 text-red-700 dark:bg-red-950 dark:text-red-300" : "bg-amber-100 text-amber-700 dark:bg-amber-950 dark:text-amber-300"}`}
+    >
+      {failed ? "فشل الحفظ" : "بانتظار المزامنة"}
+    </span>
+  );
+}
+
+function ExportButtons({
+  fileName,
+  sheetName,
+  build,
+  amountChoice = true,
+}: {
+  fileName: string;
+  sheetName: string;
+  build: (mode: AmountMode) => ExportTable;
+  amountChoice?: boolean;
+}) {
+  const [mode, setMode] = useState<AmountMode>("original");
+  const [busy, setBusy] = useState<boolean>(false);
+
+  async function exportAs(format: "csv" | "xlsx") {
+    const table = build(amountChoice ? mode : "base");
+    const name = `${fileName}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    if (format === "csv") {
+      downloadCsv(name, table);
+      return;
+    }
+    setBusy(true);
+    try {
+      await downloadXlsx(name, sheetName, table);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      {amountChoice && (
+        <select
+          className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-2 py-1 select-light"
+          value={mode}
+          onChange={(e) => setMode(e.target.value as AmountMode)}
+        >
+          <option value="original">المبالغ بعملتها الأصلية</option>
+          <option value="base">المبالغ بالعملة الرئيسية</option>
+        </select>
+      )}
+      <button onClick={() => exportAs("csv")} className="rounded-md border px-3 py-1">تصدير CSV</button>
+      <button onClick={() => exportAs("xlsx")} disabled={busy} className="rounded-md border px-3 py-1 disabled:opacity-60">تصدير Excel</button>
+    </div>
+  );
+}
+
+// تأكيد الأرشفة أو الحذف النهائي مع قائمة السجلات المرتبطة؛ الحذف النهائي ممنوع لمن له سجل مالي
+function RemovalConfirm({
+  title,
+  note,
+  dependents,
+  hard,
+  onConfirm,
+  onCancel,
+}: {
+  title: string;
+  note: string;
+  dependents: Dependent[];
+  hard: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}) {
+  const blocked = hard && dependents.some((x) => x.financial);
+  return (
+    <div className="p-4 rounded-lg border border-red-300 dark:border-red-900">
+      <h2 className="font-medium mb-2">{title}</h2>
+      {dependents.length > 0 ? (
+        <ul className="text-sm space-y-1 mb-2">
+          {dependents.map((x) => (
+            <li key={x.label} className={x.financial ? "font-medium" : ""}>{x.count} {x.label}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm mb-2">لا توجد سجلات مرتبطة.</p>
+      )}
+      <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-3">
+        {blocked ? "له فواتير أو دفعات أو تأمينات، فلا يُحذف نهائياً ويبقى في الأرشيف." : note}
+      </p>
+      <div className="flex gap-3">
+        {!blocked && (
+          <button onClick={onConfirm} className={`rounded-md text-white px-4 py-2 ${hard ? "bg-red-600" : "bg-blue-600"}`}>
+            {hard ? "حذف نهائي" : "أرشفة"}
+          </button>
+        )}
+        <button onClick={onCancel} className="rounded-md border px-4 py-2">إلغاء</button>
+      </div>
+    </div>
+  );
+}
+
+function HomeTab({ data, settings }: { data: AppData; settings: Settings }) {
+  const cards = [
+    { label: "عدد الوحدات", value: data.units.filter((u) => !u.deletedAt).length },
+    { label: "عدد المستأجرين", value: data.tenants.filter((t) => !t.deletedAt).length },
+    { label: "عدد الفواتير", value: data.invoices.filter((i) => !i.voidedAt).length },
+    { label: "عدد الدفعات", value: data.payments.filter((p) => !p.voidedAt).length },
+  ];
+  // التأمينات في جدول مستقل فلا تدخل في المحصّل؛ تُعرض كالتزام محتجز فقط
+  const collected = data.payments.filter((p) => !p.voidedAt).reduce((acc, p) => acc + convertToBaseOn(p.amount, p.currency, p.date, data.rates, settings), 0);
+  const depositsHeld = depositBalances(data);
+  return (
+    <section className="space-y-6">
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+        {cards.map((c) => (
+          <div key={c.label} className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+            <div className="text-sm text-neutral-500">{c.label}</div>
+            <div className="text-2xl font-semibold mt-1">{c.value}</div>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+          <div className="text-sm text-neutral-500">إجمالي المحصّل (بدون التأمينات)</div>
+          <div className="text-2xl font-semibold mt-1">{formatCurrency(collected, settings)}</div>
+        </div>
+        <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+          <div className="text-sm text-neutral-500">تأمينات محتجزة</div>
+          <div className="text-2xl font-semibold mt-1">{formatBalances(depositsHeld)}</div>
+        </div>
+      </div>
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <h2 className="font-medium mb-2">معلومات عامة</h2>
+        <div className="text-sm text-neutral-600 dark:text-neutral-400">العملة الرئيسية: {settings.baseCurrency === "JOD" ? "دينار أردني" : "شيكل"}</div>
+        <div className="text-sm text-neutral-600 dark:text-neutral-400">سعر الصرف الحالي: 1 دينار = {settings.jodToIlsRate} شيكل</div>
+      </div>
+    </section>
+  );
+}
+
+function UnitsTab({
+  data,
+  setData,
+  tenantsByUnit,
+}: {
+  data: AppData;
+  setData: React.Dispatch<React.SetStateAction<AppData>>;
+  tenantsByUnit: Map<string, Tenant[]>;
+}) {
+  const [form, setForm] = useState<{ name: string; kind: UnitKind; rentAmount: string; rentCurrency: Currency; area: string; occupants: string }>(
+    { name: "", kind: "apartment", rentAmount: "", rentCurrency: "JOD", area: "", occupants: "" }
+  );
+  const [historyUnitId, setHistoryUnitId] = useState<string>("");
+  const history = data.maintenance.filter((m) => m.unitId === historyUnitId);
+  const [editingId, setEditingId] = useState<string>("");
+  const [formError, setFormError] = useState<string | null>(null);
+  const [removal, setRemoval] = useState<{ unitId: string; hard: boolean } | null>(null);
+  const units = data.units.filter((u) => !u.deletedAt);
+  const archivedUnits = data.units.filter((u) => u.deletedAt);
+  const removing = removal && data.units.find((u) => u.id === removal.unitId);
+
+  function editUnit(u: Unit) {
+    setEditingId(u.id);
+    setFormError(null);
+    setForm({ name: u.name, kind: u.kind, rentAmount: String(u.rentAmount), rentCurrency: u.rentCurrency, area: u.area ? String(u.area) : "", occupants: u.occupants ? String(u.occupants) : "" });
+  }
+
+  function resetForm() {
+    setEditingId("");
+    setFormError(null);
+    setForm({ name: "", kind: "apartment", rentAmount: "", rentCurrency: "JOD", area: "", occupants: "" });
+  }
+
+  // النموذج نفسه للإضافة والتعديل؛ تعديل الأجار هنا لا يغير العقود أو الفواتير الصادرة
+  async function saveUnit() {
+    const name = form.name.trim();
+    const rentAmount = Number(form.rentAmount);
+    if (!name) {
+      setFormError("اسم الوحدة مطلوب.");
+      return;
+    }
+    if (data.units.some((u) => u.id !== editingId && u.name === name)) {
+      setFormError("توجد وحدة أخرى بنفس الاسم.");
+      return;
+    }
+    if (!(rentAmount > 0)) {
+      setFormError("قيمة الأجار يجب أن تكون أكبر من صفر.");
+      return;
+    }
+    if (Number(form.area) < 0 || Number(form.occupants) < 0) {
+      setFormError("المساحة وعدد الساكنين لا يكونان سالبين.");
+      return;
+    }
+    if (!Number.isInteger(Number(form.occupants))) {
+      setFormError("عدد الساكنين عدد صحيح.");
+      return;
+    }
+    const previous = data.units.find((u) => u.id === editingId);
+    const unit: Unit = {
+      id: previous?.id || uid("unit"),
+      name,
+      kind: form.kind,
+      rentAmount,
+      rentCurrency: form.rentCurrency,
+      area: form.area ? Number(form.area) : undefined,
+      occupants: form.occupants ? Number(form.occupants) : undefined,
+    };
+    const row = {
+      name: unit.name,
+      kind: unit.kind,
+      rent_amount: unit.rentAmount,
+      rent_currency: unit.rentCurrency,
+      area: unit.area ?? null,
+      occupants: unit.occupants ?? null,
+    };
+    if (previous) {
+      setData((d) => replaceRows(d, "units", [unit]));
+      enqueue("dbUpdateUnit", { label: "تعديل وحدة", rowIds: [unit.id], undo: { collection: "units", rows: [previous] } }, unit.id, row);
+    } else {
+      setData((d) => ({ ...d, units: [unit, ...d.units] }));
+      enqueue("dbInsertUnit", { label: "إضافة وحدة", rowIds: [unit.id] }, { id: unit.id, ...row });
+    }
+    resetForm();
+  }
+
+  // الأرشفة تخفي الوحدة ومستأجريها من القوائم والفوترة، وتبقى فواتيرها ودفعاتها كما هي
+  async function archiveUnit(id: string) {
+    const deletedAt = new Date().toISOString();
+    setData((d) => ({
+      ...d,
+      units: d.units.map((u) => (u.id === id ? { ...u, deletedAt } : u)),
+      tenants: d.tenants.map((t) => (t.unitId === id && !t.deletedAt ? { ...t, deletedAt } : t)),
+    }));
+    enqueue("dbArchiveUnit", { label: "أرشفة وحدة", rowIds: [id] }, id, deletedAt);
+    setRemoval(null);
+  }
+
+  async function restoreUnit(unit: Unit) {
+    if (!unit.deletedAt) return;
+    const deletedAt = unit.deletedAt;
+    setData((d) => ({
+      ...d,
+      units: d.units.map((u) => (u.id === unit.id ? { ...u, deletedAt: undefined } : u)),
+      tenants: d.tenants.map((t) => (t.unitId === unit.id && t.deletedAt === deletedAt ? { ...t, deletedAt: undefined } : t)),
+    }));
+    enqueue("dbRestoreUnit", { label: "استعادة وحدة", rowIds: [unit.id] }, unit.id, deletedAt);
+  }
+
+  // الحذف النهائي من سلة المحذوفات فقط، ولوحدة بلا سجل مالي
+  async function removeUnit(id: string) {
+    if (unitDependents(data, id).some((x) => x.financial)) return;
+    setRemoval(null);
+    setData((d) => ({
+      ...d,
+      units: d.units.filter((u) => u.id !== id),
+      tenants: d.tenants.filter((t) => t.unitId !== id),
+      leases: d.leases.filter((l) => l.unitId !== id),
+      deposits: d.deposits.filter((x) => x.unitId !== id),
+      expenses: d.expenses.map((x) => (x.unitId === id ? { ...x, unitId: undefined } : x)),
+      maintenance: d.maintenance.filter((m) => m.unitId !== id),
+      utilities: d.utilities.filter((u) => u.unitId !== id),
+      buildingBills: d.buildingBills.map((b) => ({ ...b, unitIds: b.unitIds.filter((x) => x !== id) })),
+      meters: d.meters.filter((m) => m.unitId !== id),
+      readings: d.readings.filter((r) => d.meters.find((m) => m.id === r.meterId)?.unitId !== id),
+      invoices: d.invoices.filter((i) => i.unitId !== id),
+      payments: d.payments.filter((p) => p.unitId !== id),
+      allocations: d.allocations.filter((a) => {
+        const inv = d.invoices.find((i) => i.id === a.invoiceId);
+        const pay = d.payments.find((p) => p.id === a.paymentId);
+        return inv?.unitId !== id && pay?.unitId !== id;
+      }),
+    }));
+    enqueue("dbDeleteUnit", { label: "حذف وحدة", rowIds: [id] }, id);
+  }
+
+  function exportUnits(mode: AmountMode): ExportTable {
+    const base = currencyName(data.settings.baseCurrency);
+    return {
+      headers: ["الاسم", "النوع", ...(mode === "original" ? ["الأجار", "العملة"] : [`الأجار (${base})`]), "المساحة", "الساكنون", "عدد المستأجرين"],
+      rows: units.map((u) => [
+        u.name,
+        u.kind === "apartment" ? "شقة" : "محل",
+        ...(mode === "original" ? [u.rentAmount, currencyName(u.rentCurrency)] : [roundAmount(convertToBase(u.rentAmount, u.rentCurrency, data.settings))]),
+        u.area ?? "",
+        u.occupants ?? "",
+        (tenantsByUnit.get(u.id) || []).length,
+      ]),
+    };
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <h2 className="font-medium mb-4">{editingId ? "تعديل وحدة" : "إضافة وحدة جديدة"}</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-8 gap-3">
+          <input
+            placeholder="اسم الوحدة (مثال: شقة 3A)"
+            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.name}
+            onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+          />
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.kind}
+            onChange={(e) => setForm((f) => ({ ...f, kind: e.target.value as UnitKind }))}
+          >
+            <option value="apartment">شقة (أجار شهري)</option>
+            <option value="shop">محل (أجار سنوي)</option>
+          </select>
+          <input
+            type="number"
+            placeholder="قيمة الأجار"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.rentAmount}
+            onChange={(e) => setForm((f) => ({ ...f, rentAmount: e.target.value }))}
+          />
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.rentCurrency}
+            onChange={(e) => setForm((f) => ({ ...f, rentCurrency: e.target.value as Currency }))}
+          >
+            <option value="JOD">دينار</option>
+            <option value="ILS">شيكل</option>
+          </select>
+          <input
+            type="number"
+            placeholder="المساحة م²"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.area}
+            onChange={(e) => setForm((f) => ({ ...f, area: e.target.value }))}
+          />
+          <input
+            type="number"
+            placeholder="عدد الساكنين"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.occupants}
+            onChange={(e) => setForm((f) => ({ ...f, occupants: e.target.value }))}
+          />
+          <button onClick={saveUnit} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ</button>
+        </div>
+        {editingId && (
+          <button onClick={resetForm} className="text-sm text-neutral-500 hover:underline mt-2">إلغاء التعديل</button>
+        )}
+        {formError && <p className="text-sm text-red-600 mt-2">{formError}</p>}
+      </div>
+
+      <div className="flex justify-end">
+        <ExportButtons fileName="units" sheetName="الوحدات" build={exportUnits} />
+      </div>
+
+      <div className="overflow-auto">
+        <table className="min-w-full text-sm">
+          <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+            <tr className="text-neutral-500">
+              <th className="py-2">الاسم</th>
+              <th className="py-2">النوع</th>
+              <th className="py-2">الأجار</th>
+              <th className="py-2">المساحة</th>
+              <th className="py-2">الساكنون</th>
+              <th className="py-2">عدد المستأجرين</th>
+              <th className="py-2">إجراءات</th>
+            </tr>
+          </thead>
+          <tbody>
+            {units.map((u) => (
+              <tr key={u.id} className="border-b border-neutral-100 dark:border-neutral-900">
+                <td className="py-2">{u.name}<SyncBadge rowId={u.id} /></td>
+                <td className="py-2">{u.kind === "apartment" ? "شقة" : "محل"}</td>
+                <td className="py-2">{u.rentAmount} {u.rentCurrency === "JOD" ? "دينار" : "شيكل"}</td>
+                <td className="py-2">{u.area ?? "-"}</td>
+                <td className="py-2">{u.occupants ?? "-"}</td>
+                <td className="py-2">{(tenantsByUnit.get(u.id) || []).length}</td>
+                <td className="py-2 flex gap-3">
+                  <button className="text-blue-600 hover:underline" onClick={() => editUnit(u)}>تعديل</button>
+                  <button className="text-blue-600 hover:underline" onClick={() => setHistoryUnitId(historyUnitId === u.id ? "" : u.id)}>الصيانة</button>
+                  <button className="text-red-600 hover:underline" onClick={() => setRemoval({ unitId: u.id, hard: false })}>حذف</button>
+                </td>
+              </tr>
+            ))}
+            {units.length === 0 && (
+              <tr>
+                <td className="py-6 text-center text-neutral-500" colSpan={7}>لا توجد وحدات بعد</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {removal && removing && (
+        <RemovalConfirm
+          title={removal.hard ? `حذف الوحدة ${removing.name} نهائياً` : `أرشفة الوحدة ${removing.name}`}
+          note={
+            removal.hard
+              ? "تُحذف الوحدة وكل السجلات أعلاه ولا يمكن التراجع."
+              : "تُخفى الوحدة ومستأجروها من القوائم والفوترة، وتبقى سجلاتها في التقارير ويمكن استعادتها من سلة المحذوفات."
+          }
+          dependents={unitDependents(data, removing.id)}
+          hard={removal.hard}
+          onConfirm={() => (removal.hard ? removeUnit(removing.id) : archiveUnit(removing.id))}
+          onCancel={() => setRemoval(null)}
+        />
+      )}
+
+      {archivedUnits.length > 0 && (
+        <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+          <h2 className="font-medium mb-3">سلة المحذوفات</h2>
+          <ul className="text-sm space-y-1">
+            {archivedUnits.map((u) => (
+              <li key={u.id} className="flex flex-wrap gap-3">
+                <span>{u.name}<SyncBadge rowId={u.id} /></span>
+                <span className="text-neutral-500">أُرشفت {u.deletedAt?.slice(0, 10)}</span>
+                <button className="text-blue-600 hover:underline" onClick={() => restoreUnit(u)}>استعادة</button>
+                {!unitDependents(data, u.id).some((x) => x.financial) && (
+                  <button className="text-red-600 hover:underline" onClick={() => setRemoval({ unitId: u.id, hard: true })}>حذف نهائي</button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {historyUnitId && (
+        <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+          <h2 className="font-medium mb-3">سجل صيانة {data.units.find((u) => u.id === historyUnitId)?.name}</h2>
+          <ul className="text-sm space-y-1">
+            {history.map((m) => (
+              <li key={m.id} className="flex flex-wrap gap-3">
+                <span>{m.openedOn}</span>
+                <span>{m.title}</span>
+                <span className="text-neutral-500">{MAINTENANCE_STATUS_LABELS[m.status]}{m.completedOn ? ` ${m.completedOn}` : ""}</span>
+                {m.technician && <span className="text-neutral-500">{m.technician}</span>}
+                {m.cost ? <span>{m.cost} {currencyName(m.currency)}</span> : null}
+              </li>
+            ))}
+            {history.length === 0 && <li className="text-neutral-500">لا توجد طلبات صيانة لهذه الوحدة</li>}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function TenantsTab({
+  data,
+  setData,
+  unitsById,
+  settings,
+}: {
+  data: AppData;
+  setData: React.Dispatch<React.SetStateAction<AppData>>;
+  unitsById: Map<string, Unit>;
+  settings: Settings;
+}) {
+  const [form, setForm] = useState<{ name: string; phone: string; unitId: string; startDate: string; active: boolean }>(
+    { name: "", phone: "", unitId: "", startDate: new Date().toISOString().slice(0, 10), active: true }
+  );
+  const [moveOut, setMoveOut] = useState<{ tenantId: string; date: string }>({ tenantId: "", date: "" });
+  const [editingId, setEditingId] = useState<string>("");
+  const [formError, setFormError] = useState<string | null>(null);
+  const [removal, setRemoval] = useState<{ tenantId: string; hard: boolean } | null>(null);
+  const tenants = data.tenants.filter((t) => !t.deletedAt);
+  const archivedTenants = data.tenants.filter((t) => t.deletedAt);
+  const removing = removal && data.tenants.find((t) => t.id === removal.tenantId);
+
+  function editTenant(t: Tenant) {
+    setEditingId(t.id);
+    setFormError(null);
+    setForm({ name: t.name, phone: t.phone || "", unitId: t.unitId, startDate: t.startDate, active: t.active });
+  }
+
+  function resetForm() {
+    setEditingId("");
+    setFormError(null);
+    setForm({ name: "", phone: "", unitId: "", startDate: new Date().toISOString().slice(0, 10), active: true });
+  }
+
+  // المستأجر الذي له عقود أو فواتير أو دفعات يبقى على وحدته؛ الانتقال يكون بمغادرة ثم مستأجر جديد
+  async function saveTenant() {
+    const name = form.name.trim();
+    if (!name || !form.unitId || !form.startDate) {
+      setFormError("الاسم والوحدة وتاريخ البدء مطلوبة.");
+      return;
+    }
+    const previous = data.tenants.find((t) => t.id === editingId);
+    if (previous && previous.unitId !== form.unitId) {
+      const hasHistory = [data.leases, data.invoices, data.payments].some((rows) => rows.some((r) => r.tenantId === previous.id));
+      if (hasHistory) {
+        setFormError("لا يمكن نقل مستأجر له عقود أو فواتير أو دفعات إلى وحدة أخرى.");
+        return;
+      }
+    }
+    if (previous?.endDate && form.startDate > previous.endDate) {
+      setFormError("تاريخ البدء بعد تاريخ المغادرة.");
+      return;
+    }
+    const tenant: Tenant = {
+      ...previous,
+      id: previous?.id || uid("tenant"),
+      name,
+      phone: form.phone.trim() || undefined,
+      unitId: form.unitId,
+      startDate: form.startDate,
+      active: form.active,
+    };
+    const row = { name: tenant.name, phone: tenant.phone || null, unit_id: tenant.unitId, start_date: tenant.startDate, active: tenant.active };
+    if (previous) {
+      setData((d) => replaceRows(d, "tenants", [tenant]));
+      enqueue("dbUpdateTenant", { label: "تعديل مستأجر", rowIds: [tenant.id], undo: { collection: "tenants", rows: [previous] } }, tenant.id, row);
+    } else {
+      setData((d) => ({ ...d, tenants: [tenant, ...d.tenants] }));
+      enqueue("dbInsertTenant", { label: "إضافة مستأجر", rowIds: [tenant.id] }, { id: tenant.id, ...row, end_date: null });
+    }
+    resetForm();
+  }
+
+  async function toggleActive(id: string) {
+    setData((d) => ({
+      ...d,
+      tenants: d.tenants.map((t) => (t.id === id ? { ...t, active: !t.active } : t)),
+    }));
+    const next = !(data.tenants.find((t) => t.id === id)?.active ?? true);
+    enqueue("dbToggleTenantActive", { label: "تغيير حالة مستأجر", rowIds: [id] }, id, next);
+  }
+
+  // تسجيل المغادرة: آخر فترة تُفوتر جزئياً حتى هذا التاريخ، ولا فواتير بعده
+  async function saveMoveOut() {
+    if (!moveOut.tenantId) return;
+    const endDate = moveOut.date || undefined;
+    setData((d) => ({ ...d, tenants: d.tenants.map((t) => (t.id === moveOut.tenantId ? { ...t, endDate } : t)) }));
+    enqueue("dbSetTenantEndDate", { label: "تسجيل مغادرة مستأجر", rowIds: [moveOut.tenantId] }, moveOut.tenantId, endDate || null);
+    setMoveOut({ tenantId: "", date: "" });
+  }
+
+  async function archiveTenant(id: string) {
+    const deletedAt = new Date().toISOString();
+    setData((d) => ({ ...d, tenants: d.tenants.map((t) => (t.id === id ? { ...t, deletedAt } : t)) }));
+    enqueue("dbArchiveTenant", { label: "أرشفة مستأجر", rowIds: [id] }, id, deletedAt);
+    setRemoval(null);
+  }
+
+  async function restoreTenant(tenant: Tenant) {
+    if (unitsById.get(tenant.unitId)?.deletedAt) {
+      setFormError(`الوحدة ${unitsById.get(tenant.unitId)?.name} مؤرشفة؛ استعدها أولاً من تبويب الوحدات.`);
+      return;
+    }
+    setFormError(null);
+    setData((d) => ({ ...d, tenants: d.tenants.map((t) => (t.id === tenant.id ? { ...t, deletedAt: undefined } : t)) }));
+    enqueue("dbRestoreTenant", { label: "استعادة مستأجر", rowIds: [tenant.id] }, tenant.id);
+  }
+
+  // الحذف النهائي من سلة المحذوفات فقط، ولمستأجر بلا سجل مالي
+  async function removeTenant(id: string) {
+    if (tenantDependents(data, id).some((x) => x.financial)) return;
+    setRemoval(null);
+    setData((d) => ({
+      ...d,
+      tenants: d.tenants.filter((t) => t.id !== id),
+      leases: d.leases.filter((l) => l.tenantId !== id),
+      deposits: d.deposits.filter((x) => x.tenantId !== id),
+      maintenance: d.maintenance.map((m) => (m.tenantId === id ? { ...m, tenantId: undefined } : m)),
+      invoices: d.invoices.filter((i) => i.tenantId !== id),
+      payments: d.payments.filter((p) => p.tenantId !== id),
+      allocations: d.allocations.filter((a) => {
+        const inv = d.invoices.find((i) => i.id === a.invoiceId);
+        const pay = d.payments.find((p) => p.id === a.paymentId);
+        return inv?.tenantId !== id && pay?.tenantId !== id;
+      }),
+    }));
+    enqueue("dbDeleteTenant", { label: "حذف مستأجر", rowIds: [id] }, id);
+  }
+
+  // الرصيد الدائن محسوب بالعملة الرئيسية أصلاً، فلا خيار للعملة هنا
+  function exportTenants(): ExportTable {
+    return {
+      headers: ["الاسم", "الهاتف", "الوحدة", "تاريخ البدء", "تاريخ المغادرة", "الحالة", `رصيد دائن (${currencyName(settings.baseCurrency)})`],
+      rows: tenants.map((t) => [
+        t.name,
+        t.phone || "",
+        unitsById.get(t.unitId)?.name || "",
+        t.startDate,
+        t.endDate || "",
+        t.active ? "نشط" : "متوقف",
+        roundAmount(tenantCreditBase(data, t.id, settings)),
+      ]),
+    };
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <h2 className="font-medium mb-4">{editingId ? "تعديل مستأجر" : "إضافة مستأجر"}</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-6 gap-3">
+          <input
+            placeholder="الاسم"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.name}
+            onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+          />
+          <input
+            placeholder="رقم الهاتف"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.phone}
+            onChange={(e) => setForm((f) => ({ ...f, phone: e.target.value }))}
+          />
+          <select
+            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.unitId}
+            onChange={(e) => setForm((f) => ({ ...f, unitId: e.target.value }))}
+          >
+            <option value="">اختر الوحدة</option>
+            {data.units.filter((u) => !u.deletedAt).map((u) => (
+              <option key={u.id} value={u.id}>{u.name}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.startDate}
+            onChange={(e) => setForm((f) => ({ ...f, startDate: e.target.value }))}
+          />
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={form.active} onChange={(e) => setForm((f) => ({ ...f, active: e.target.checked }))} />
+            نشط
+          </label>
+          <button onClick={saveTenant} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ</button>
+        </div>
+        {editingId && (
+          <button onClick={resetForm} className="text-sm text-neutral-500 hover:underline mt-2">إلغاء التعديل</button>
+        )}
+        {formError && <p className="text-sm text-red-600 mt-2">{formError}</p>}
+      </div>
+
+      <div className="flex justify-end">
+        <ExportButtons fileName="tenants" sheetName="المستأجرون" build={exportTenants} amountChoice={false} />
+      </div>
+
+      <div className="overflow-auto">
+        <table className="min-w-full text-sm">
+          <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+            <tr className="text-neutral-500">
+              <th className="py-2">الاسم</th>
+              <th className="py-2">الوحدة</th>
+              <th className="py-2">تاريخ البدء</th>
+              <th className="py-2">تاريخ المغادرة</th>
+              <th className="py-2">الحالة</th>
+              <th className="py-2">رصيد دائن</th>
+              <th className="py-2">إجراءات</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tenants.map((t) => (
+              <tr key={t.id} className="border-b border-neutral-100 dark:border-neutral-900">
+                <td className="py-2">{t.name}<SyncBadge rowId={t.id} /></td>
+                <td className="py-2">{unitsById.get(t.unitId)?.name || "-"}</td>
+                <td className="py-2">{t.startDate}</td>
+                <td className="py-2">
+                  {moveOut.tenantId === t.id ? (
+                    <span className="flex gap-2">
+                      <input
+                        type="date"
+                        className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-2 py-1"
+                        value={moveOut.date}
+                        onChange={(e) => setMoveOut((m) => ({ ...m, date: e.target.value }))}
+                      />
+                      <button className="text-blue-600 hover:underline" onClick={saveMoveOut}>حفظ</button>
+                    </span>
+                  ) : (
+                    t.endDate || "-"
+                  )}
+                </td>
+                <td className="py-2">{t.active ? "نشط" : "متوقف"}</td>
+                <td className="py-2">{formatCurrency(tenantCreditBase(data, t.id, settings), settings)}</td>
+                <td className="py-2 flex gap-3">
+                  <button className="text-blue-600 hover:underline" onClick={() => editTenant(t)}>تعديل</button>
+                  <button className="text-blue-600 hover:underline" onClick={() => toggleActive(t.id)}>{t.active ? "إيقاف" : "تنشيط"}</button>
+                  <button className="text-blue-600 hover:underline" onClick={() => setMoveOut({ tenantId: t.id, date: t.endDate || new Date().toISOString().slice(0, 10) })}>مغادرة</button>
+                  <button className="text-red-600 hover:underline" onClick={() => setRemoval({ tenantId: t.id, hard: false })}>حذف</button>
+                </td>
+              </tr>
+            ))}
+            {tenants.length === 0 && (
+              <tr>
+                <td className="py-6 text-center text-neutral-500" colSpan={7}>لا يوجد مستأجرون</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {removal && removing && (
+        <RemovalConfirm
+          title={removal.hard ? `حذف المستأجر ${removing.name} نهائياً` : `أرشفة المستأجر ${removing.name}`}
+          note={
+            removal.hard
+              ? "يُحذف المستأجر وكل السجلات أعلاه ولا يمكن التراجع."
+              : "يُخفى المستأجر من القوائم والفوترة، وتبقى سجلاته في كشف الحساب والتقارير ويمكن استعادته من سلة المحذوفات."
+          }
+          dependents={tenantDependents(data, removing.id)}
+          hard={removal.hard}
+          onConfirm={() => (removal.hard ? removeTenant(removing.id) : archiveTenant(removing.id))}
+          onCancel={() => setRemoval(null)}
+        />
+      )}
+
+      {archivedTenants.length > 0 && (
+        <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+          <h2 className="font-medium mb-3">سلة المحذوفات</h2>
+          <ul className="text-sm space-y-1">
+            {archivedTenants.map((t) => (
+              <li key={t.id} className="flex flex-wrap gap-3">
+                <span>{t.name} — {unitsById.get(t.unitId)?.name || "-"}<SyncBadge rowId={t.id} /></span>
+                <span className="text-neutral-500">أُرشف {t.deletedAt?.slice(0, 10)}</span>
+                <button className="text-blue-600 hover:underline" onClick={() => restoreTenant(t)}>استعادة</button>
+                {!tenantDependents(data, t.id).some((x) => x.financial) && (
+                  <button className="text-red-600 hover:underline" onClick={() => setRemoval({ tenantId: t.id, hard: true })}>حذف نهائي</button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </section>
+  );
+}
+
+function LeasesTab({
+  data,
+  setData,
+  unitsById,
+}: {
+  data: AppData;
+  setData: React.Dispatch<React.SetStateAction<AppData>>;
+  unitsById: Map<string, Unit>;
+}) {
+  const emptyForm = {
+    tenantId: "",
+    startDate: new Date().toISOString().slice(0, 10),
+    endDate: "",
+    rentAmount: "",
+    rentCurrency: "JOD" as Currency,
+    frequency: "monthly" as BillingFrequency,
+    dueDay: "1",
+    depositAmount: "",
+    depositCurrency: "JOD" as Currency,
+    proration: "days" as Lease["proration"],
+  };
+  const [form, setForm] = useState(emptyForm);
+  const emptyEscalation = { kind: "" as EscalationRule["kind"] | "", value: "", effectiveDate: "", cap: "" };
+  const [scheduleLeaseId, setScheduleLeaseId] = useState<string>("");
+  const [escForm, setEscForm] = useState(emptyEscalation);
+  const scheduleLease = data.leases.find((l) => l.id === scheduleLeaseId);
+
+  function openSchedule(lease: Lease) {
+    setScheduleLeaseId(lease.id);
+    setEscForm(
+      lease.escalation
+        ? { kind: lease.escalation.kind, value: String(lease.escalation.value), effectiveDate: lease.escalation.effectiveDate, cap: lease.escalation.cap ? String(lease.escalation.cap) : "" }
+        : { ...emptyEscalation, effectiveDate: anniversaryAfter(lease.startDate) }
+    );
+  }
+
+  // أول ذكرى سنوية بعد بداية العقد
+  function anniversaryAfter(date: string): string {
+    return `${Number(date.slice(0, 4)) + 1}${date.slice(4)}`;
+  }
+
+  async function saveEscalation() {
+    if (!scheduleLease) return;
+    const escalation: EscalationRule | undefined =
+      escForm.kind && Number(escForm.value) && escForm.effectiveDate
+        ? { kind: escForm.kind, value: Number(escForm.value), effectiveDate: escForm.effectiveDate, cap: Number(escForm.cap) || undefined }
+        : undefined;
+    setData((d) => ({ ...d, leases: d.leases.map((l) => (l.id === scheduleLease.id ? { ...l, escalation } : l)) }));
+    enqueue("dbUpdateLeaseEscalation", { label: "حفظ زيادة الأجار", rowIds: [scheduleLease.id] }, scheduleLease.id, {
+      escalation_kind: escalation?.kind ?? null,
+      escalation_value: escalation?.value ?? null,
+      escalation_date: escalation?.effectiveDate ?? null,
+      escalation_cap: escalation?.cap ?? null,
+    });
+  }
+
+  function selectTenant(tenantId: string) {
+    // القيم الافتراضية من الوحدة الحالية للمستأجر
+    const tenant = data.tenants.find((t) => t.id === tenantId);
+    const unit = tenant ? unitsById.get(tenant.unitId) : undefined;
+    setForm((f) => ({
+      ...f,
+      tenantId,
+      startDate: tenant?.startDate || f.startDate,
+      rentAmount: unit ? String(unit.rentAmount) : f.rentAmount,
+      rentCurrency: unit?.rentCurrency || f.rentCurrency,
+      frequency: unit ? (unit.kind === "apartment" ? "monthly" : "yearly") : f.frequency,
+    }));
+  }
+
+  const [editingId, setEditingId] = useState<string>("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  function editLease(l: Lease) {
+    setEditingId(l.id);
+    setFormError(null);
+    setForm({
+      tenantId: l.tenantId,
+      startDate: l.startDate,
+      endDate: l.endDate || "",
+      rentAmount: String(l.rentAmount),
+      rentCurrency: l.rentCurrency,
+      frequency: l.frequency,
+      dueDay: String(l.dueDay),
+      depositAmount: l.depositAmount ? String(l.depositAmount) : "",
+      depositCurrency: l.depositCurrency,
+      proration: l.proration,
+    });
+  }
+
+  function resetForm() {
+    setEditingId("");
+    setFormError(null);
+    setForm(emptyForm);
+  }
+
+  // تعديل العقد يؤثر على الفواتير القادمة فقط؛ الصادرة تحمل مبالغها المجمدة
+  async function saveLease() {
+    const tenant = data.tenants.find((t) => t.id === form.tenantId);
+    const rentAmount = Number(form.rentAmount);
+    const dueDay = Number(form.dueDay) || 1;
+    if (!tenant || !form.startDate) {
+      setFormError("المستأجر وتاريخ البدء مطلوبان.");
+      return;
+    }
+    if (form.endDate && form.endDate < form.startDate) {
+      setFormError("تاريخ نهاية العقد قبل تاريخ بدايته.");
+      return;
+    }
+    if (!(rentAmount > 0)) {
+      setFormError("قيمة الأجار يجب أن تكون أكبر من صفر.");
+      return;
+    }
+    if (dueDay < 1 || dueDay > 28) {
+      setFormError("يوم الاستحقاق بين 1 و28.");
+      return;
+    }
+    if (Number(form.depositAmount) < 0) {
+      setFormError("التأمين لا يكون سالباً.");
+      return;
+    }
+    const previous = data.leases.find((l) => l.id === editingId);
+    const lease: Lease = {
+      ...previous,
+      id: previous?.id || uid("lease"),
+      tenantId: previous?.tenantId || tenant.id,
+      unitId: previous?.unitId || tenant.unitId,
+      startDate: form.startDate,
+      endDate: form.endDate || undefined,
+      rentAmount,
+      rentCurrency: form.rentCurrency,
+      frequency: form.frequency,
+      dueDay,
+      depositAmount: Number(form.depositAmount) || 0,
+      depositCurrency: form.depositCurrency,
+      proration: form.proration,
+    };
+    const row = {
+      start_date: lease.startDate,
+      end_date: lease.endDate || null,
+      rent_amount: lease.rentAmount,
+      rent_currency: lease.rentCurrency,
+      frequency: lease.frequency,
+      due_day: lease.dueDay,
+      deposit_amount: lease.depositAmount,
+      deposit_currency: lease.depositCurrency,
+      proration: lease.proration,
+    };
+    if (previous) {
+      setData((d) => replaceRows(d, "leases", [lease]));
+      enqueue("dbUpdateLease", { label: "تعديل عقد", rowIds: [lease.id], undo: { collection: "leases", rows: [previous] } }, lease.id, row);
+    } else {
+      setData((d) => ({ ...d, leases: [lease, ...d.leases] }));
+      enqueue("dbInsertLease", { label: "إضافة عقد", rowIds: [lease.id] }, {
+        id: lease.id,
+        tenant_id: lease.tenantId,
+        unit_id: lease.unitId,
+        ...row,
+        escalation_kind: null,
+        escalation_value: null,
+        escalation_date: null,
+        escalation_cap: null,
+      });
+    }
+    resetForm();
+  }
+
+  async function endLease(id: string) {
+    const endDate = new Date().toISOString().slice(0, 10);
+    setData((d) => ({ ...d, leases: d.leases.map((l) => (l.id === id ? { ...l, endDate } : l)) }));
+    enqueue("dbEndLease", { label: "إنهاء عقد", rowIds: [id] }, id, endDate);
+  }
+
+  async function removeLease(id: string) {
+    setData((d) => ({ ...d, leases: d.leases.filter((l) => l.id !== id) }));
+    enqueue("dbDeleteLease", { label: "حذف عقد", rowIds: [id] }, id);
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <section className="space-y-6">
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <h2 className="font-medium mb-4">{editingId ? "تعديل عقد إيجار" : "إضافة عقد إيجار"}</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-6 gap-3">
+          <select
+            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.tenantId}
+            disabled={!!editingId}
+            onChange={(e) => selectTenant(e.target.value)}
+          >
+            <option value="">اختر المستأجر</option>
+            {data.tenants.filter((t) => !t.deletedAt || t.id === form.tenantId).map((t) => (
+              <option key={t.id} value={t.id}>{t.name} — {unitsById.get(t.unitId)?.name}</option>
+            ))}
+          </select>
+          <label className="text-sm">
+            <span className="block text-neutral-500 mb-1">من</span>
+            <input
+              type="date"
+              className="w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+              value={form.startDate}
+              onChange={(e) => setForm((f) => ({ ...f, startDate: e.target.value }))}
+            />
+          </label>
+          <label className="text-sm">
+            <span className="block text-neutral-500 mb-1">إلى (اختياري)</span>
+            <input
+              type="date"
+              className="w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+              value={form.endDate}
+              onChange={(e) => setForm((f) => ({ ...f, endDate: e.target.value }))}
+            />
+          </label>
+          <input
+            type="number"
+            placeholder="قيمة الأجار"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.rentAmount}
+            onChange={(e) => setForm((f) => ({ ...f, rentAmount: e.target.value }))}
+          />
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.rentCurrency}
+            onChange={(e) => setForm((f) => ({ ...f, rentCurrency: e.target.value as Currency }))}
+          >
+            <option value="JOD">دينار</option>
+            <option value="ILS">شيكل</option>
+          </select>
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.frequency}
+            onChange={(e) => setForm((f) => ({ ...f, frequency: e.target.value as BillingFrequency }))}
+          >
+            <option value="monthly">فوترة شهرية</option>
+            <option value="yearly">فوترة سنوية</option>
+          </select>
+          {form.frequency === "yearly" && (
+            <select
+              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+              value={form.proration}
+              onChange={(e) => setForm((f) => ({ ...f, proration: e.target.value as Lease["proration"] }))}
+            >
+              <option value="days">السنة الجزئية بالأيام</option>
+              <option value="months">السنة الجزئية بالأشهر</option>
+            </select>
+          )}
+          <input
+            type="number"
+            min={1}
+            max={28}
+            placeholder="يوم الاستحقاق"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.dueDay}
+            onChange={(e) => setForm((f) => ({ ...f, dueDay: e.target.value }))}
+          />
+          <input
+            type="number"
+            placeholder="التأمين (اختياري)"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.depositAmount}
+            onChange={(e) => setForm((f) => ({ ...f, depositAmount: e.target.value }))}
+          />
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.depositCurrency}
+            onChange={(e) => setForm((f) => ({ ...f, depositCurrency: e.target.value as Currency }))}
+          >
+            <option value="JOD">دينار</option>
+            <option value="ILS">شيكل</option>
+          </select>
+          <button onClick={saveLease} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ</button>
+        </div>
+        {editingId && (
+          <button onClick={resetForm} className="text-sm text-neutral-500 hover:underline mt-2">إلغاء التعديل</button>
+        )}
+        {formError && <p className="text-sm text-red-600 mt-2">{formError}</p>}
+        <p className="text-xs text-neutral-500 mt-2">يُستخدم العقد الساري خلال الفترة عند توليد الفواتير بدلاً من أجار الوحدة الحالي.</p>
+      </div>
+
+      {scheduleLease && (
+        <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+          <h2 className="font-medium mb-4">
+            زيادة الأجار — {data.tenants.find((t) => t.id === scheduleLease.tenantId)?.name || "-"} / {unitsById.get(scheduleLease.unitId)?.name || "-"}
+          </h2>
+          <div className="grid grid-cols-1 sm:grid-cols-6 gap-3">
+            <select
+              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+              value={escForm.kind}
+              onChange={(e) => setEscForm((f) => ({ ...f, kind: e.target.value as EscalationRule["kind"] | "" }))}
+            >
+              <option value="">بدون زيادة</option>
+              <option value="percent">نسبة مئوية سنوية</option>
+              <option value="fixed">مبلغ ثابت سنوي</option>
+            </select>
+            <input
+              type="number"
+              placeholder={escForm.kind === "fixed" ? "المبلغ" : "النسبة %"}
+              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+              value={escForm.value}
+              onChange={(e) => setEscForm((f) => ({ ...f, value: e.target.value }))}
+            />
+            <label className="text-sm">
+              <span className="block text-neutral-500 mb-1">أول زيادة (تتكرر سنوياً)</span>
+              <input
+                type="date"
+                className="w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+                value={escForm.effectiveDate}
+                onChange={(e) => setEscForm((f) => ({ ...f, effectiveDate: e.target.value }))}
+              />
+            </label>
+            <input
+              type="number"
+              placeholder="سقف الأجار (اختياري)"
+              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+              value={escForm.cap}
+              onChange={(e) => setEscForm((f) => ({ ...f, cap: e.target.value }))}
+            />
+            <button onClick={saveEscalation} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ</button>
+            <button onClick={() => setScheduleLeaseId("")} className="rounded-md border px-4 py-2">إغلاق</button>
+          </div>
+          <table className="min-w-full text-sm mt-4">
+            <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+              <tr className="text-neutral-500">
+                <th className="py-2">اعتباراً من</th>
+                <th className="py-2">الأجار</th>
+              </tr>
+            </thead>
+            <tbody>
+              {escalationSchedule(scheduleLease, 10).map((row) => (
+                <tr key={row.from} className={`border-b border-neutral-100 dark:border-neutral-900 ${row.from > today ? "" : "text-neutral-500"}`}>
+                  <td className="py-2">{row.from}</td>
+                  <td className="py-2">{row.rent} {scheduleLease.rentCurrency === "JOD" ? "دينار" : "شيكل"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="overflow-auto">
+        <table className="min-w-full text-sm">
+          <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+            <tr className="text-neutral-500">
+              <th className="py-2">المستأجر</th>
+              <th className="py-2">الوحدة</th>
+              <th className="py-2">المدة</th>
+              <th className="py-2">الأجار</th>
+              <th className="py-2">الفوترة</th>
+              <th className="py-2">يوم الاستحقاق</th>
+              <th className="py-2">التأمين</th>
+              <th className="py-2">إجراءات</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.leases.map((l) => {
+              const active = l.startDate <= today && (!l.endDate || l.endDate >= today);
+              return (
+                <tr key={l.id} className="border-b border-neutral-100 dark:border-neutral-900">
+                  <td className="py-2">{data.tenants.find((t) => t.id === l.tenantId)?.name || "-"}<SyncBadge rowId={l.id} /></td>
+                  <td className="py-2">{unitsById.get(l.unitId)?.name || "-"}</td>
+                  <td className="py-2">{l.startDate} ← {l.endDate || "مفتوح"}</td>
+                  <td className="py-2">
+                    {escalatedRent(l, today)} {l.rentCurrency === "JOD" ? "دينار" : "شيكل"}
+                    {l.escalation && <span className="text-xs text-neutral-500"> (أساسي {l.rentAmount})</span>}
+                  </td>
+                  <td className="py-2">{l.frequency === "monthly" ? "شهري" : "سنوي"}</td>
+                  <td className="py-2">{l.dueDay}</td>
+                  <td className="py-2">{l.depositAmount ? `${l.depositAmount} ${l.depositCurrency === "JOD" ? "دينار" : "شيكل"}` : "-"}</td>
+                  <td className="py-2 flex gap-3">
+                    <button className="text-blue-600 hover:underline" onClick={() => editLease(l)}>تعديل</button>
+                    <button className="text-blue-600 hover:underline" onClick={() => openSchedule(l)}>الزيادات</button>
+                    {active && <button className="text-blue-600 hover:underline" onClick={() => endLease(l.id)}>إنهاء اليوم</button>}
+                    <button className="text-red-600 hover:underline" onClick={() => removeLease(l.id)}>حذف</button>
+                  </td>
+                </tr>
+              );
+            })}
+            {data.leases.length === 0 && (
+              <tr>
+                <td className="py-6 text-center text-neutral-500" colSpan={8}>لا توجد عقود</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+function UtilitiesTab({
+  data,
+  setData,
+  unitsById,
+  settings,
+}: {
+  data: AppData;
+  setData: React.Dispatch<React.SetStateAction<AppData>>;
+  unitsById: Map<string, Unit>;
+  settings: Settings;
+}) {
+  const [form, setForm] = useState<{ unitId: string; period: string; type: UtilityType; amount: string; currency: Currency }>(
+    { unitId: "", period: new Date().toISOString().slice(0, 7), type: "water", amount: "", currency: "JOD" }
+  );
+
+  const [editingId, setEditingId] = useState<string>("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // بنود القراءات وحصص فاتورة المبنى تُعدّل من مصدرها (القراءة أو فاتورة المبنى)
+  function editUtility(u: UtilityCharge) {
+    setEditingId(u.id);
+    setFormError(null);
+    setForm({ unitId: u.unitId, period: u.period, type: u.type, amount: String(u.amount), currency: u.currency });
+  }
+
+  function resetForm() {
+    setEditingId("");
+    setFormError(null);
+    setForm({ unitId: "", period: new Date().toISOString().slice(0, 7), type: "water", amount: "", currency: form.currency });
+  }
+
+  async function saveUtility() {
+    const amount = Number(form.amount);
+    if (!form.unitId || !/^\d{4}(-\d{2})?$/.test(form.period)) {
+      setFormError("الوحدة والفترة مطلوبتان.");
+      return;
+    }
+    if (!(amount > 0)) {
+      setFormError("المبلغ يجب أن يكون أكبر من صفر.");
+      return;
+    }
+    const previous = data.utilities.find((u) => u.id === editingId);
+    const u: UtilityCharge = {
+      ...previous,
+      id: previous?.id || uid("util"),
+      unitId: previous?.unitId || form.unitId,
+      period: form.period,
+      type: form.type,
+      amount,
+      currency: form.currency,
+    };
+    if (previous) {
+      setData((d) => replaceRows(d, "utilities", [u]));
+      enqueue("dbUpdateUtility", { label: "تعديل بند مرافق", rowIds: [u.id], undo: { collection: "utilities", rows: [previous] } }, u.id, { period: u.period, type: u.type, amount: u.amount, currency: u.currency });
+    } else {
+      setData((d) => ({ ...d, utilities: [u, ...d.utilities] }));
+      enqueue("dbInsertUtility", { label: "إضافة بند مرافق", rowIds: [u.id] }, { id: u.id, unit_id: u.unitId, period: u.period, type: u.type, amount: u.amount, currency: u.currency, reading_id: null, bill_id: null, tenant_id: null });
+    }
+    resetForm();
+  }
+
+  const [listFilter, setListFilter] = useState<{ unitId: string; period: string }>({ unitId: "", period: "" });
+  const shownUtilities = data.utilities.filter((u) => (!listFilter.unitId || u.unitId === listFilter.unitId) && (!listFilter.period || u.period === listFilter.period));
+
+  function exportUtilities(mode: AmountMode): ExportTable {
+    return {
+      headers: ["الوحدة", "الفترة", "النوع", ...(mode === "original" ? ["المبلغ", "العملة"] : [`المبلغ (${currencyName(settings.baseCurrency)})`])],
+      rows: shownUtilities.map((u) => [
+        unitsById.get(u.unitId)?.name || "",
+        u.period,
+        chargeTypeLabel(data, u.type),
+        ...(mode === "original"
+          ? [u.amount, currencyName(u.currency)]
+          : [roundAmount(convertToBaseOn(u.amount, u.currency, periodStartDate(u.period), data.rates, settings))]),
+      ]),
+    };
+  }
+
+  async function removeUtility(id: string) {
+    setData((d) => ({ ...d, utilities: d.utilities.filter((u) => u.id !== id) }));
+    enqueue("dbDeleteUtility", { label: "حذف بند مرافق", rowIds: [id] }, id);
+  }
+
+  const [typeForm, setTypeForm] = useState<{ labelAr: string; labelEn: string; defaultAmount: string; currency: Currency; recurrence: ChargeType["recurrence"]; appliesTo: ChargeType["appliesTo"] }>(
+    { labelAr: "", labelEn: "", defaultAmount: "", currency: "JOD", recurrence: "recurring", appliesTo: "both" }
+  );
+  const [typeMessage, setTypeMessage] = useState<string | null>(null);
+  const [editingTypeId, setEditingTypeId] = useState<string>("");
+
+  function editChargeType(t: ChargeType) {
+    setEditingTypeId(t.id);
+    setTypeMessage(null);
+    setTypeForm({ labelAr: t.labelAr, labelEn: t.labelEn, defaultAmount: t.defaultAmount ? String(t.defaultAmount) : "", currency: t.currency, recurrence: t.recurrence, appliesTo: t.appliesTo });
+  }
+
+  function resetTypeForm() {
+    setEditingTypeId("");
+    setTypeForm({ labelAr: "", labelEn: "", defaultAmount: "", currency: typeForm.currency, recurrence: "recurring", appliesTo: "both" });
+  }
+
+  // تعديل النوع يغير تسميته في كل البنود المرتبطة به، ولا يغير مبالغها
+  async function saveChargeType() {
+    if (!typeForm.labelAr.trim()) {
+      setTypeMessage("الاسم بالعربية مطلوب.");
+      return;
+    }
+    if (Number(typeForm.defaultAmount) < 0) {
+      setTypeMessage("المبلغ الافتراضي لا يكون سالباً.");
+      return;
+    }
+    setTypeMessage(null);
+    const previous = data.chargeTypes.find((t) => t.id === editingTypeId);
+    const chargeType: ChargeType = {
+      id: previous?.id || uid("ctype"),
+      labelAr: typeForm.labelAr.trim(),
+      labelEn: typeForm.labelEn.trim() || typeForm.labelAr.trim(),
+      defaultAmount: Number(typeForm.defaultAmount) || 0,
+      currency: typeForm.currency,
+      recurrence: typeForm.recurrence,
+      appliesTo: typeForm.appliesTo,
+    };
+    setData((d) => (previous ? replaceRows(d, "chargeTypes", [chargeType]) : { ...d, chargeTypes: [...d.chargeTypes, chargeType] }));
+    const meta = previous
+      ? { label: "تعديل نوع رسوم", rowIds: [chargeType.id], undo: { collection: "chargeTypes", rows: [previous] } }
+      : { label: "إضافة نوع رسوم", rowIds: [chargeType.id] };
+    enqueue("dbUpsertChargeType", meta, {
+      id: chargeType.id,
+      label_ar: chargeType.labelAr,
+      label_en: chargeType.labelEn,
+      default_amount: chargeType.defaultAmount,
+      currency: chargeType.currency,
+      recurrence: chargeType.recurrence,
+      applies_to: chargeType.appliesTo,
+    });
+    resetTypeForm();
+  }
+
+  // النوع المستخدم في فواتير أو عدادات لا يُحذف حتى لا تفقد تلك السجلات تسميتها
+  async function removeChargeType(id: string) {
+    const inUse = data.utilities.some((u) => u.type === id) || data.buildingBills.some((b) => b.type === id) || data.meters.some((m) => m.type === id) || data.tariffs.some((t) => t.type === id);
+    if (inUse) {
+      setTypeMessage("لا يمكن حذف نوع مستخدم في فواتير أو عدادات.");
+      return;
+    }
+    setTypeMessage(null);
+    setData((d) => ({ ...d, chargeTypes: d.chargeTypes.filter((t) => t.id !== id) }));
+    enqueue("dbDeleteChargeType", { label: "حذف نوع رسوم", rowIds: [id] }, id);
+  }
+
+  const emptyBill = (): BuildingBill => ({
+    id: "",
+    period: new Date().toISOString().slice(0, 7),
+    type: "water",
+    amount: 0,
+    currency: "JOD",
+    method: "equal",
+    unitIds: Array.from(unitsById.values()).filter((u) => !u.deletedAt).map((u) => u.id),
+    shares: {},
+  });
+  const [bill, setBill] = useState<BuildingBill>(emptyBill);
+  const billSplit = bill.amount > 0 && bill.unitIds.length ? splitBuildingBill(bill, unitsById) : null;
+
+  // الحفظ والتعديل سواء: تُحذف حصص الوحدات السابقة وتُعاد قسمة الفاتورة
+  async function saveBill() {
+    if (!billSplit) return;
+    const saved: BuildingBill = { ...bill, id: bill.id || uid("bill") };
+    const charges: UtilityCharge[] = billSplit.map((r) => ({
+      id: uid("util"),
+      unitId: r.unitId,
+      period: saved.period,
+      type: saved.type,
+      amount: r.amount,
+      currency: saved.currency,
+      billId: saved.id,
+    }));
+    setData((d) => ({
+      ...d,
+      buildingBills: [saved, ...d.buildingBills.filter((b) => b.id !== saved.id)],
+      utilities: [...charges, ...d.utilities.filter((u) => u.billId !== saved.id)],
+    }));
+    enqueue("dbUpsertBuildingBill", { label: "حفظ فاتورة المبنى", rowIds: [saved.id] }, {
+      id: saved.id,
+      period: saved.period,
+      type: saved.type,
+      amount: saved.amount,
+      currency: saved.currency,
+      method: saved.method,
+      unit_ids: saved.unitIds,
+      shares: saved.shares,
+      note: saved.note || null,
+    });
+    enqueue(
+      "dbReplaceBillUtilities",
+      { label: "توزيع فاتورة المبنى على الوحدات", rowIds: charges.map((c) => c.id) },
+      saved.id,
+      charges.map((c) => ({ id: c.id, unit_id: c.unitId, period: c.period, type: c.type, amount: c.amount, currency: c.currency, reading_id: null, bill_id: saved.id, tenant_id: null }))
+    );
+    setBill(emptyBill());
+  }
+
+  async function removeBill(id: string) {
+    setData((d) => ({ ...d, buildingBills: d.buildingBills.filter((b) => b.id !== id), utilities: d.utilities.filter((u) => u.billId !== id) }));
+    enqueue("dbDeleteBuildingBill", { label: "حذف فاتورة المبنى", rowIds: [id] }, id);
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <h2 className="font-medium mb-4">أنواع الرسوم</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-7 gap-3">
+          <input
+            placeholder="الاسم بالعربية"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={typeForm.labelAr}
+            onChange={(e) => setTypeForm((f) => ({ ...f, labelAr: e.target.value }))}
+          />
+          <input
+            placeholder="English label"
+            dir="ltr"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={typeForm.labelEn}
+            onChange={(e) => setTypeForm((f) => ({ ...f, labelEn: e.target.value }))}
+          />
+          <input
+            type="number"
+            placeholder="المبلغ الافتراضي"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={typeForm.defaultAmount}
+            onChange={(e) => setTypeForm((f) => ({ ...f, defaultAmount: e.target.value }))}
+          />
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={typeForm.currency}
+            onChange={(e) => setTypeForm((f) => ({ ...f, currency: e.target.value as Currency }))}
+          >
+            <option value="JOD">دينار</option>
+            <option value="ILS">شيكل</option>
+          </select>
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={typeForm.recurrence}
+            onChange={(e) => setTypeForm((f) => ({ ...f, recurrence: e.target.value as ChargeType["recurrence"] }))}
+          >
+            <option value="recurring">متكرر مع كل فاتورة</option>
+            <option value="oneoff">لمرة واحدة</option>
+          </select>
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={typeForm.appliesTo}
+            onChange={(e) => setTypeForm((f) => ({ ...f, appliesTo: e.target.value as ChargeType["appliesTo"] }))}
+          >
+            <option value="both">الشقق والمحلات</option>
+            <option value="apartment">الشقق فقط</option>
+            <option value="shop">المحلات فقط</option>
+          </select>
+          <button onClick={saveChargeType} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ</button>
+        </div>
+        {editingTypeId && (
+          <button onClick={resetTypeForm} className="text-sm text-neutral-500 hover:underline mt-2">إلغاء التعديل</button>
+        )}
+        {typeMessage && <p className="text-sm text-red-600 mt-2">{typeMessage}</p>}
+        <ul className="mt-4 text-sm space-y-1">
+          {allChargeTypes(data).map((t) => (
+            <li key={t.id} className="flex items-center gap-3">
+              <span>
+                {t.labelAr} / {t.labelEn}
+                {t.defaultAmount ? ` — ${t.defaultAmount} ${t.currency === "JOD" ? "دينار" : "شيكل"}` : ""}
+                {t.recurrence === "recurring" ? " — متكرر" : ""}
+                {t.appliesTo === "apartment" ? " — الشقق" : t.appliesTo === "shop" ? " — المحلات" : ""}
+              </span>
+              {data.chargeTypes.includes(t) && <button className="text-blue-600 hover:underline" onClick={() => editChargeType(t)}>تعديل</button>}
+              {data.chargeTypes.includes(t) && <button className="text-red-600 hover:underline" onClick={() => removeChargeType(t.id)}>حذف</button>}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <h2 className="font-medium mb-4">{editingId ? "تعديل فاتورة مرافق" : "إضافة فاتورة مرافق"}</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-6 gap-3">
+          <select
+            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.unitId}
+            disabled={!!editingId}
+            onChange={(e) => setForm((f) => ({ ...f, unitId: e.target.value }))}
+          >
+            <option value="">اختر الوحدة</option>
+            {Array.from(unitsById.values()).filter((u) => !u.deletedAt || u.id === form.unitId).map((u) => (
+              <option key={u.id} value={u.id}>{u.name}</option>
+            ))}
+          </select>
+          <input
+            type="month"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.period}
+            onChange={(e) => setForm((f) => ({ ...f, period: e.target.value }))}
+          />
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.type}
+            onChange={(e) => {
+              const chargeType = allChargeTypes(data).find((t) => t.id === e.target.value);
+              setForm((f) => ({
+                ...f,
+                type: e.target.value,
+                amount: chargeType?.defaultAmount ? String(chargeType.defaultAmount) : f.amount,
+                currency: chargeType?.defaultAmount ? chargeType.currency : f.currency,
+              }));
+            }}
+          >
+            {allChargeTypes(data).map((t) => (
+              <option key={t.id} value={t.id}>{t.labelAr}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            placeholder="المبلغ"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.amount}
+            onChange={(e) => setForm((f) => ({ ...f, amount: e.target.value }))}
+          />
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.currency}
+            onChange={(e) => setForm((f) => ({ ...f, currency: e.target.value as Currency }))}
+          >
+            <option value="JOD">دينار</option>
+            <option value="ILS">شيكل</option>
+          </select>
+          <button onClick={saveUtility} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ</button>
+        </div>
+        {editingId && (
+          <button onClick={resetForm} className="text-sm text-neutral-500 hover:underline mt-2">إلغاء التعديل</button>
+        )}
+        {formError && <p className="text-sm text-red-600 mt-2">{formError}</p>}
+      </div>
+
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <h2 className="font-medium mb-4">{bill.id ? "تعديل فاتورة المبنى" : "فاتورة على مستوى المبنى"}</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-6 gap-3 mb-3">
+          <input
+            type="month"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={bill.period}
+            onChange={(e) => setBill((b) => ({ ...b, period: e.target.value }))}
+          />
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={bill.type}
+            onChange={(e) => setBill((b) => ({ ...b, type: e.target.value }))}
+          >
+            {allChargeTypes(data).map((t) => (
+              <option key={t.id} value={t.id}>{t.labelAr}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            placeholder="المبلغ"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={bill.amount || ""}
+            onChange={(e) => setBill((b) => ({ ...b, amount: Number(e.target.value) }))}
+          />
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={bill.currency}
+            onChange={(e) => setBill((b) => ({ ...b, currency: e.target.value as Currency }))}
+          >
+            <option value="JOD">دينار</option>
+            <option value="ILS">شيكل</option>
+          </select>
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={bill.method}
+            onChange={(e) => setBill((b) => ({ ...b, method: e.target.value as SplitMethod }))}
+          >
+            {(Object.keys(SPLIT_METHOD_LABELS) as SplitMethod[]).map((m) => (
+              <option key={m} value={m}>{SPLIT_METHOD_LABELS[m]}</option>
+            ))}
+          </select>
+          <input
+            placeholder="ملاحظة (مثال: المولد)"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={bill.note || ""}
+            onChange={(e) => setBill((b) => ({ ...b, note: e.target.value }))}
+          />
+        </div>
+        <table className="min-w-full text-sm">
+          <tbody>
+            {Array.from(unitsById.values()).filter((u) => !u.deletedAt || bill.unitIds.includes(u.id)).map((u) => {
+              const included = bill.unitIds.includes(u.id);
+              const share = billSplit?.find((r) => r.unitId === u.id);
+              return (
+                <tr key={u.id} className="border-b border-neutral-100 dark:border-neutral-900">
+                  <td className="py-2">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={included}
+                        onChange={(e) => setBill((b) => ({ ...b, unitIds: e.target.checked ? [...b.unitIds, u.id] : b.unitIds.filter((x) => x !== u.id) }))}
+                      />
+                      {u.name}
+                    </label>
+                  </td>
+                  <td className="py-2">
+                    {bill.method === "area" && `${u.area ?? 0} م²`}
+                    {bill.method === "occupants" && `${u.occupants ?? 0} ساكن`}
+                    {(bill.method === "submeter" || bill.method === "custom") && (
+                      <input
+                        type="number"
+                        placeholder={bill.method === "custom" ? "%" : "الاستهلاك"}
+                        className="w-28 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-2 py-1"
+                        value={bill.shares[u.id] ?? ""}
+                        disabled={!included}
+                        onChange={(e) => setBill((b) => ({ ...b, shares: { ...b.shares, [u.id]: Number(e.target.value) } }))}
+                      />
+                    )}
+                  </td>
+                  <td className="py-2">{included && share ? `${share.amount} ${bill.currency === "JOD" ? "دينار" : "شيكل"}` : "-"}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {bill.amount > 0 && !billSplit && (
+          <p className="text-sm text-red-600 mt-2">
+            {bill.method === "custom" ? "مجموع النسب يجب أن يساوي 100%." : "لا يمكن القسمة: أوزان الوحدات المختارة صفر."}
+          </p>
+        )}
+        <div className="flex gap-3 mt-3">
+          <button onClick={saveBill} disabled={!billSplit} className="rounded-md bg-blue-600 text-white px-4 py-2 disabled:opacity-50">{bill.id ? "حفظ وإعادة التوزيع" : "حفظ وتوزيع"}</button>
+          {bill.id && <button onClick={() => setBill(emptyBill())} className="rounded-md border px-4 py-2">إلغاء</button>}
+        </div>
+        {data.buildingBills.length > 0 && (
+          <ul className="mt-4 text-sm space-y-1">
+            {data.buildingBills.map((b) => (
+              <li key={b.id} className="flex items-center gap-3">
+                <span>{b.period} — {chargeTypeLabel(data, b.type)} — {b.amount} {b.currency === "JOD" ? "دينار" : "شيكل"} — {SPLIT_METHOD_LABELS[b.method]}{b.note ? ` — ${b.note}` : ""}</span>
+                <button className="text-blue-600 hover:underline" onClick={() => setBill(b)}>تعديل</button>
+                <button className="text-red-600 hover:underline" onClick={() => removeBill(b.id)}>حذف</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-2 py-1 select-light"
+            value={listFilter.unitId}
+            onChange={(e) => setListFilter((f) => ({ ...f, unitId: e.target.value }))}
+          >
+            <option value="">كل الوحدات</option>
+            {data.units.map((u) => (
+              <option key={u.id} value={u.id}>{u.name}</option>
+            ))}
+          </select>
+          <input
+            type="month"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-2 py-1"
+            value={listFilter.period}
+            onChange={(e) => setListFilter((f) => ({ ...f, period: e.target.value }))}
+          />
+        </div>
+        <ExportButtons fileName="utilities" sheetName="المرافق" build={exportUtilities} />
+      </div>
+
+      <div className="overflow-auto">
+        <table className="min-w-full text-sm">
+          <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+            <tr className="text-neutral-500">
+              <th className="py-2">الوحدة</th>
+              <th className="py-2">الفترة</th>
+              <th className="py-2">النوع</th>
+              <th className="py-2">المبلغ</th>
+              <th className="py-2">بالعملة الرئيسية</th>
+              <th className="py-2">إجراءات</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shownUtilities.map((u) => {
+              const unit = unitsById.get(u.unitId);
+              const base = convertToBaseOn(u.amount, u.currency, periodStartDate(u.period), data.rates, settings);
+              return (
+                <tr key={u.id} className="border-b border-neutral-100 dark:border-neutral-900">
+                  <td className="py-2">{unit?.name || "-"}<SyncBadge rowId={u.id} /></td>
+                  <td className="py-2">{u.period}</td>
+                  <td className="py-2">{chargeTypeLabel(data, u.type)}{u.readingId ? " (قراءة عداد)" : ""}{u.billId ? " (حصة من فاتورة المبنى)" : ""}</td>
+                  <td className="py-2">{u.amount} {u.currency === "JOD" ? "دينار" : "شيكل"}</td>
+                  <td className="py-2">{formatCurrency(base, settings)}</td>
+                  <td className="py-2 flex gap-3">
+                    {!u.readingId && !u.billId && <button className="text-blue-600 hover:underline" onClick={() => editUtility(u)}>تعديل</button>}
+                    <button className="text-red-600 hover:underline" onClick={() => removeUtility(u.id)}>حذف</button>
+                  </td>
+                </tr>
+              );
+            })}
+            {shownUtilities.length === 0 && (
+              <tr>
+                <td className="py-6 text-center text-neutral-500" colSpan={6}>لا توجد بيانات مرافق</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+function MetersTab({
+  data,
+  setData,
+  unitsById,
+}: {
+  data: AppData;
+  setData: React.Dispatch<React.SetStateAction<AppData>>;
+  unitsById: Map<string, Unit>;
+}) {
+  const [tariffForm, setTariffForm] = useState<{ name: string; type: UtilityType; currency: Currency; fixedCharge: string; tiers: Array<{ upTo: string; rate: string }> }>(
+    { name: "", type: "water", currency: "JOD", fixedCharge: "", tiers: [{ upTo: "", rate: "" }] }
+  );
+  const [meterForm, setMeterForm] = useState<{ unitId: string; type: UtilityType; name: string; digits: string; initialReading: string; tariffId: string }>(
+    { unitId: "", type: "water", name: "", digits: "5", initialReading: "0", tariffId: "" }
+  );
+  const [readingForm, setReadingForm] = useState<{ meterId: string; period: string; reading: string }>(
+    { meterId: "", period: new Date().toISOString().slice(0, 7), reading: "" }
+  );
+
+  const typeLabel = (t: UtilityType) => chargeTypeLabel(data, t);
+  const currencyLabel = (c: Currency) => (c === "JOD" ? "دينار" : "شيكل");
+
+  const [editingTariffId, setEditingTariffId] = useState<string>("");
+  const [editingMeterId, setEditingMeterId] = useState<string>("");
+  const [editingReadingId, setEditingReadingId] = useState<string>("");
+  const [tariffError, setTariffError] = useState<string | null>(null);
+  const [meterError, setMeterError] = useState<string | null>(null);
+
+  function editTariff(t: Tariff) {
+    setEditingTariffId(t.id);
+    setTariffError(null);
+    setTariffForm({
+      name: t.name,
+      type: t.type,
+      currency: t.currency,
+      fixedCharge: t.fixedCharge ? String(t.fixedCharge) : "",
+      tiers: t.tiers.map((x) => ({ upTo: x.upTo === null ? "" : String(x.upTo), rate: String(x.rate) })),
+    });
+  }
+
+  function resetTariffForm() {
+    setEditingTariffId("");
+    setTariffError(null);
+    setTariffForm({ name: "", type: tariffForm.type, currency: tariffForm.currency, fixedCharge: "", tiers: [{ upTo: "", rate: "" }] });
+  }
+
+  // تعديل التعرفة يُطبق على القراءات القادمة؛ المبالغ المحسوبة سابقاً تبقى كما هي
+  async function saveTariff() {
+    if (!tariffForm.name.trim()) {
+      setTariffError("اسم التعرفة مطلوب.");
+      return;
+    }
+    // الشريحة بلا حد أعلى تُعتبر الأخيرة
+    const tiers: TariffTier[] = tariffForm.tiers
+      .filter((t) => t.rate !== "")
+      .map((t) => ({ upTo: t.upTo === "" ? null : Number(t.upTo), rate: Number(t.rate) }))
+      .sort((a, b) => (a.upTo ?? Infinity) - (b.upTo ?? Infinity));
+    if (tiers.length === 0 || tiers.some((t) => t.rate < 0 || (t.upTo !== null && t.upTo <= 0))) {
+      setTariffError("أدخل شريحة واحدة على الأقل بسعر وحد أعلى موجبين.");
+      return;
+    }
+    // الاستهلاك فوق آخر حد لا يبقى بلا سعر
+    if (tiers.filter((t) => t.upTo === null).length !== 1) {
+      setTariffError("اترك الحد الأعلى فارغاً في الشريحة الأخيرة (ما فوق)، ولشريحة واحدة فقط.");
+      return;
+    }
+    if (Number(tariffForm.fixedCharge) < 0) {
+      setTariffError("الرسوم الثابتة لا تكون سالبة.");
+      return;
+    }
+    const previous = data.tariffs.find((t) => t.id === editingTariffId);
+    const tariff: Tariff = {
+      id: previous?.id || uid("tariff"),
+      name: tariffForm.name.trim(),
+      type: tariffForm.type,
+      currency: tariffForm.currency,
+      fixedCharge: Number(tariffForm.fixedCharge) || 0,
+      tiers,
+    };
+    setData((d) => (previous ? replaceRows(d, "tariffs", [tariff]) : { ...d, tariffs: [...d.tariffs, tariff] }));
+    const meta = previous
+      ? { label: "تعديل تعرفة", rowIds: [tariff.id], undo: { collection: "tariffs", rows: [previous] } }
+      : { label: "إضافة تعرفة", rowIds: [tariff.id] };
+    enqueue("dbUpsertTariff", meta, {
+      id: tariff.id,
+      name: tariff.name,
+      type: tariff.type,
+      currency: tariff.currency,
+      fixed_charge: tariff.fixedCharge,
+      tiers: tariff.tiers.map((t) => ({ up_to: t.upTo, rate: t.rate })),
+    });
+    resetTariffForm();
+  }
+
+  async function removeTariff(id: string) {
+    setData((d) => ({ ...d, tariffs: d.tariffs.filter((t) => t.id !== id), meters: d.meters.map((m) => (m.tariffId === id ? { ...m, tariffId: undefined } : m)) }));
+    enqueue("dbDeleteTariff", { label: "حذف تعرفة", rowIds: [id] }, id);
+  }
+
+  function editMeter(m: Meter) {
+    setEditingMeterId(m.id);
+    setMeterError(null);
+    setMeterForm({ unitId: m.unitId, type: m.type, name: m.name, digits: String(m.digits), initialReading: String(m.initialReading), tariffId: m.tariffId || "" });
+  }
+
+  function resetMeterForm() {
+    setEditingMeterId("");
+    setMeterError(null);
+    setMeterForm({ unitId: "", type: meterForm.type, name: "", digits: meterForm.digits, initialReading: "0", tariffId: "" });
+  }
+
+  // الوحدة والنوع ثابتان؛ والخانات والقراءة الأولى لا تتغير بعد أول قراءة لأن الاستهلاك المحسوب يعتمد عليهما
+  async function saveMeter() {
+    if (!meterForm.unitId || !meterForm.name.trim()) {
+      setMeterError("الوحدة ورقم العداد مطلوبان.");
+      return;
+    }
+    if (!(Number(meterForm.digits) >= 1) || Number(meterForm.initialReading) < 0) {
+      setMeterError("عدد الخانات 1 على الأقل والقراءة الأولى لا تكون سالبة.");
+      return;
+    }
+    const previous = data.meters.find((m) => m.id === editingMeterId);
+    const meter: Meter = {
+      id: previous?.id || uid("meter"),
+      unitId: previous?.unitId || meterForm.unitId,
+      type: previous?.type || meterForm.type,
+      name: meterForm.name.trim(),
+      digits: Math.max(1, Number(meterForm.digits) || 5),
+      initialReading: Number(meterForm.initialReading) || 0,
+      tariffId: meterForm.tariffId || undefined,
+    };
+    if (previous && (previous.digits !== meter.digits || previous.initialReading !== meter.initialReading) && data.readings.some((r) => r.meterId === previous.id)) {
+      setMeterError("لا يمكن تغيير عدد الخانات أو القراءة الأولى لعداد له قراءات.");
+      return;
+    }
+    const row = { name: meter.name, digits: meter.digits, initial_reading: meter.initialReading, tariff_id: meter.tariffId || null };
+    if (previous) {
+      setData((d) => replaceRows(d, "meters", [meter]));
+      enqueue("dbUpdateMeter", { label: "تعديل عداد", rowIds: [meter.id], undo: { collection: "meters", rows: [previous] } }, meter.id, row);
+    } else {
+      setData((d) => ({ ...d, meters: [...d.meters, meter] }));
+      enqueue("dbInsertMeter", { label: "إضافة عداد", rowIds: [meter.id] }, { id: meter.id, unit_id: meter.unitId, type: meter.type, ...row });
+    }
+    resetMeterForm();
+  }
+
+  async function removeMeter(id: string) {
+    const readingIds = new Set(data.readings.filter((r) => r.meterId === id).map((r) => r.id));
+    setData((d) => ({
+      ...d,
+      meters: d.meters.filter((m) => m.id !== id),
+      readings: d.readings.filter((r) => r.meterId !== id),
+      utilities: d.utilities.filter((u) => !u.readingId || !readingIds.has(u.readingId)),
+    }));
+    enqueue("dbDeleteMeter", { label: "حذف عداد", rowIds: [id] }, id);
+  }
+
+  const readingMeter = data.meters.find((m) => m.id === readingForm.meterId);
+  const readingTariff = data.tariffs.find((t) => t.id === readingMeter?.tariffId);
+  const readingCheck = readingMeter && readingForm.reading !== ""
+    ? checkReading(readingMeter, data.readings, readingForm.period, Number(readingForm.reading))
+    : null;
+  const duplicateReading = data.readings.some((r) => r.id !== editingReadingId && r.meterId === readingForm.meterId && r.period === readingForm.period);
+
+  // أحدث قراءة للعداد فقط تُعدّل، لأن استهلاك كل قراءة لاحقة محسوب منها
+  function isLatestReading(r: MeterReading): boolean {
+    return !data.readings.some((x) => x.meterId === r.meterId && x.period > r.period);
+  }
+
+  function editReading(r: MeterReading) {
+    setEditingReadingId(r.id);
+    setReadingForm({ meterId: r.meterId, period: r.period, reading: String(r.reading) });
+  }
+
+  function resetReadingForm() {
+    setEditingReadingId("");
+    setReadingForm({ meterId: "", period: readingForm.period, reading: "" });
+  }
+
+  // تعديل القراءة يعيد حساب بند المرافق المرتبط بها بالتعرفة الحالية للعداد
+  async function updateReading() {
+    const previous = data.readings.find((r) => r.id === editingReadingId);
+    if (!previous || !readingMeter || !readingTariff || !readingCheck) return;
+    const reading: MeterReading = { ...previous, reading: Number(readingForm.reading) };
+    const previousCharge = data.utilities.find((u) => u.readingId === previous.id);
+    const charge = previousCharge && { ...previousCharge, amount: tariffAmount(readingTariff, readingCheck.consumption), currency: readingTariff.currency };
+    setData((d) => {
+      const next = replaceRows(d, "readings", [reading]);
+      return charge ? replaceRows(next, "utilities", [charge]) : next;
+    });
+    enqueue("dbUpdateReading", { label: "تعديل قراءة عداد", rowIds: [reading.id], undo: { collection: "readings", rows: [previous] } }, reading.id, { reading: reading.reading });
+    if (charge && previousCharge) {
+      enqueue("dbUpdateUtility", { label: "تعديل بند مرافق", rowIds: [charge.id], undo: { collection: "utilities", rows: [previousCharge] } }, charge.id, { amount: charge.amount, currency: charge.currency });
+    }
+    resetReadingForm();
+  }
+
+  // تُحفظ القراءة ومعها فاتورة المرافق المحسوبة من التعرفة
+  async function addReading() {
+    if (!readingMeter || !readingTariff || !readingCheck || duplicateReading) return;
+    const reading: MeterReading = { id: uid("read"), meterId: readingMeter.id, period: readingForm.period, reading: Number(readingForm.reading) };
+    const charge: UtilityCharge = {
+      id: uid("util"),
+      unitId: readingMeter.unitId,
+      period: reading.period,
+      type: readingMeter.type,
+      amount: tariffAmount(readingTariff, readingCheck.consumption),
+      currency: readingTariff.currency,
+      readingId: reading.id,
+    };
+    setData((d) => ({ ...d, readings: [reading, ...d.readings], utilities: [charge, ...d.utilities] }));
+    enqueue("dbInsertReading", { label: "تسجيل قراءة عداد", rowIds: [reading.id] }, { id: reading.id, meter_id: reading.meterId, period: reading.period, reading: reading.reading });
+    enqueue("dbInsertUtility", { label: "إضافة بند مرافق", rowIds: [charge.id] }, { id: charge.id, unit_id: charge.unitId, period: charge.period, type: charge.type, amount: charge.amount, currency: charge.currency, reading_id: reading.id, bill_id: null, tenant_id: null });
+    setReadingForm({ meterId: "", period: readingForm.period, reading: "" });
+  }
+
+  async function removeReading(id: string) {
+    setData((d) => ({ ...d, readings: d.readings.filter((r) => r.id !== id), utilities: d.utilities.filter((u) => u.readingId !== id) }));
+    enqueue("dbDeleteReading", { label: "حذف قراءة", rowIds: [id] }, id);
+  }
+
+  function flagsText(check: ReadingCheck): string {
+    const flags: string[] = [];
+    if (check.rollover) flags.push("العداد دار وعاد للصفر");
+    if (check.abnormal === "high") flags.push("استهلاك مرتفع بشكل غير طبيعي");
+    if (check.abnormal === "low") flags.push("استهلاك منخفض بشكل غير طبيعي");
+    return flags.join("، ");
   }
 
   return (
-    <div dir="rtl" className="min-h-screen bg-white text-black dark:bg-neutral-950 dark:text-neutral-100">
-      <div className="mx-auto max-w-6xl p-4 sm:p-8">
-        <header className="flex items-center justify-between mb-6">
-          <h1 className="text-2xl sm:text-3xl font-semibold">نظام محاسبة المجمع</h1>
-          <div className="flex items-center gap-3">
-            <span className="text-sm text-neutral-500">العملة الرئيسية: {data.settings.baseCurrency === "JOD" ? "دينار أردني" : "شيكل"}</span>
-            {isAuthed ? (
-              <button onClick={signOut} className="text-sm rounded-md border px-3 py-1 hover:bg-neutral-50 dark:hover:bg-neutral-900">تسجيل الخروج</button>
-            ) : null}
+    <section className="space-y-6">
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <h2 className="font-medium mb-4">{editingTariffId ? "تعديل تعرفة" : "إضافة تعرفة"}</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-5 gap-3 mb-3">
+          <input
+            placeholder="اسم التعرفة"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={tariffForm.name}
+            onChange={(e) => setTariffForm((f) => ({ ...f, name: e.target.value }))}
+          />
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={tariffForm.type}
+            onChange={(e) => setTariffForm((f) => ({ ...f, type: e.target.value }))}
+          >
+            {allChargeTypes(data).map((t) => (
+              <option key={t.id} value={t.id}>{t.labelAr}</option>
+            ))}
+          </select>
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={tariffForm.currency}
+            onChange={(e) => setTariffForm((f) => ({ ...f, currency: e.target.value as Currency }))}
+          >
+            <option value="JOD">دينار</option>
+            <option value="ILS">شيكل</option>
+          </select>
+          <input
+            type="number"
+            placeholder="رسوم ثابتة"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={tariffForm.fixedCharge}
+            onChange={(e) => setTariffForm((f) => ({ ...f, fixedCharge: e.target.value }))}
+          />
+          <button onClick={() => setTariffForm((f) => ({ ...f, tiers: [...f.tiers, { upTo: "", rate: "" }] }))} className="rounded-md border px-4 py-2">إضافة شريحة</button>
+        </div>
+        {tariffForm.tiers.map((t, idx) => (
+          <div key={idx} className="grid grid-cols-1 sm:grid-cols-5 gap-3 mb-2">
+            <input
+              type="number"
+              placeholder="حتى (فارغ = ما فوق)"
+              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+              value={t.upTo}
+              onChange={(e) => setTariffForm((f) => ({ ...f, tiers: f.tiers.map((x, i) => (i === idx ? { ...x, upTo: e.target.value } : x)) }))}
+            />
+            <input
+              type="number"
+              placeholder="سعر الوحدة"
+              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+              value={t.rate}
+              onChange={(e) => setTariffForm((f) => ({ ...f, tiers: f.tiers.map((x, i) => (i === idx ? { ...x, rate: e.target.value } : x)) }))}
+            />
+            <button className="text-red-600 hover:underline" onClick={() => setTariffForm((f) => ({ ...f, tiers: f.tiers.filter((_, i) => i !== idx) }))}>إزالة</button>
           </div>
-        </header>
+        ))}
+        <div className="flex items-center gap-3 mt-2">
+          <button onClick={saveTariff} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ التعرفة</button>
+          {editingTariffId && <button onClick={resetTariffForm} className="text-sm text-neutral-500 hover:underline">إلغاء التعديل</button>}
+        </div>
+        {tariffError && <p className="text-sm text-red-600 mt-2">{tariffError}</p>}
+        <ul className="mt-4 text-sm space-y-1">
+          {data.tariffs.map((t) => (
+            <li key={t.id} className="flex items-center gap-3">
+              <span>{t.name} — {typeLabel(t.type)} — رسوم {t.fixedCharge} {currencyLabel(t.currency)} — {t.tiers.map((x) => `${x.upTo === null ? "ما فوق" : `حتى ${x.upTo}`}: ${x.rate}`).join("، ")}</span>
+              <button className="text-blue-600 hover:underline" onClick={() => editTariff(t)}>تعديل</button>
+              <button className="text-red-600 hover:underline" onClick={() => removeTariff(t.id)}>حذف</button>
+            </li>
+          ))}
+        </ul>
+      </div>
 
-        {!isAuthed ? (
-          <section className="max-w-md mx-auto p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
-            <h2 className="font-medium mb-4">تسجيل الدخول</h2>
-            <div className="space-y-3">
-              <input
-                placeholder="البريد الإلكتروني"
-                className="w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-                value={loginEmail}
-                onChange={(e) => setLoginEmail(e.target.value)}
-              />
-              <input
-                type="password"
-                placeholder="كلمة المرور"
-                className="w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-                value={loginPassword}
-                onChange={(e) => setLoginPassword(e.target.value)}
-              />
-              <button onClick={signIn} className="w-full rounded-md bg-blue-600 text-white px-4 py-2">دخول</button>
-              {authError && <div className="text-sm text-red-600">{authError}</div>}
-              {process.env.NEXT_PUBLIC_ADMIN_EMAIL ? (
-                <p className="text-xs text-neutral-500">البريد المسموح: {process.env.NEXT_PUBLIC_ADMIN_EMAIL}</p>
-              ) : (
-                <p className="text-xs text-neutral-500">لم يتم ضبط البريد المسموح. سيتم قبول أي بريد مسجّل في Supabase.</p>
-              )}
-            </div>
-          </section>
-        ) : (
-          <>
-            <nav className="flex flex-wrap gap-2 mb-6 tab-scroll">
-              {[
-                { key: "home", label: "الرئيسية" },
-                { key: "settings", label: "الإعدادات" },
-                { key: "units", label: "الوحدات" },
-                { key: "tenants", label: "المستأجرون" },
-                { key: "utilities", label: "المرافق" },
-                { key: "invoices", label: "الفواتير" },
-                { key: "payments", label: "المدفوعات" },
-              ].map((t) => (
-                <button
-                  key={t.key}
-                  onClick={() => setActiveTab(t.key as TabKey)}
-                  className={`btn ${
-                    activeTab === t.key
-                      ? "bg-blue-600 text-white border-blue-600"
-                      : "bg-transparent border-neutral-300 dark:border-neutral-700 hover:bg-neutral-50 dark:hover:bg-neutral-900"
-                  }`}
-                >
-                  {t.label}
-                </button>
-              ))}
-            </nav>
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <h2 className="font-medium mb-4">{editingMeterId ? "تعديل عداد" : "إضافة عداد"}</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-7 gap-3">
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={meterForm.unitId}
+            disabled={!!editingMeterId}
+            onChange={(e) => setMeterForm((f) => ({ ...f, unitId: e.target.value }))}
+          >
+            <option value="">اختر الوحدة</option>
+            {Array.from(unitsById.values()).filter((u) => !u.deletedAt || u.id === meterForm.unitId).map((u) => (
+              <option key={u.id} value={u.id}>{u.name}</option>
+            ))}
+          </select>
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={meterForm.type}
+            disabled={!!editingMeterId}
+            onChange={(e) => setMeterForm((f) => ({ ...f, type: e.target.value, tariffId: "" }))}
+          >
+            {allChargeTypes(data).map((t) => (
+              <option key={t.id} value={t.id}>{t.labelAr}</option>
+            ))}
+          </select>
+          <input
+            placeholder="رقم العداد"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={meterForm.name}
+            onChange={(e) => setMeterForm((f) => ({ ...f, name: e.target.value }))}
+          />
+          <input
+            type="number"
+            placeholder="عدد الخانات"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={meterForm.digits}
+            onChange={(e) => setMeterForm((f) => ({ ...f, digits: e.target.value }))}
+          />
+          <input
+            type="number"
+            placeholder="القراءة الأولى"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={meterForm.initialReading}
+            onChange={(e) => setMeterForm((f) => ({ ...f, initialReading: e.target.value }))}
+          />
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={meterForm.tariffId}
+            onChange={(e) => setMeterForm((f) => ({ ...f, tariffId: e.target.value }))}
+          >
+            <option value="">بدون تعرفة</option>
+            {data.tariffs.filter((t) => t.type === meterForm.type).map((t) => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+          <button onClick={saveMeter} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ</button>
+        </div>
+        {editingMeterId && (
+          <button onClick={resetMeterForm} className="text-sm text-neutral-500 hover:underline mt-2">إلغاء التعديل</button>
+        )}
+        {meterError && <p className="text-sm text-red-600 mt-2">{meterError}</p>}
+        <ul className="mt-4 text-sm space-y-1">
+          {data.meters.map((m) => (
+            <li key={m.id} className="flex items-center gap-3">
+              <span>{unitsById.get(m.unitId)?.name || "-"} — {typeLabel(m.type)} — {m.name} — {data.tariffs.find((t) => t.id === m.tariffId)?.name || "بدون تعرفة"}</span>
+              <button className="text-blue-600 hover:underline" onClick={() => editMeter(m)}>تعديل</button>
+              <button className="text-red-600 hover:underline" onClick={() => removeMeter(m.id)}>حذف</button>
+            </li>
+          ))}
+        </ul>
+      </div>
 
-            {activeTab === "home" && (
-              <HomeTab data={data} settings={data.settings} />
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <h2 className="font-medium mb-4">{editingReadingId ? "تعديل قراءة" : "تسجيل قراءة"}</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-5 gap-3">
+          <select
+            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={readingForm.meterId}
+            disabled={!!editingReadingId}
+            onChange={(e) => setReadingForm((f) => ({ ...f, meterId: e.target.value }))}
+          >
+            <option value="">اختر العداد</option>
+            {data.meters.map((m) => (
+              <option key={m.id} value={m.id}>{unitsById.get(m.unitId)?.name} — {typeLabel(m.type)} — {m.name}</option>
+            ))}
+          </select>
+          <input
+            type="month"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={readingForm.period}
+            disabled={!!editingReadingId}
+            onChange={(e) => setReadingForm((f) => ({ ...f, period: e.target.value }))}
+          />
+          <input
+            type="number"
+            placeholder="القراءة الحالية"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={readingForm.reading}
+            onChange={(e) => setReadingForm((f) => ({ ...f, reading: e.target.value }))}
+          />
+          <button onClick={editingReadingId ? updateReading : addReading} disabled={!readingTariff || !readingCheck || duplicateReading} className="rounded-md bg-blue-600 text-white px-4 py-2 disabled:opacity-50">حفظ</button>
+        </div>
+        {editingReadingId && (
+          <button onClick={resetReadingForm} className="text-sm text-neutral-500 hover:underline mt-2">إلغاء التعديل</button>
+        )}
+        {readingMeter && !readingTariff && <p className="text-sm text-red-600 mt-2">حدد تعرفة للعداد أولاً.</p>}
+        {duplicateReading && <p className="text-sm text-red-600 mt-2">توجد قراءة لهذا العداد في نفس الفترة.</p>}
+        {readingCheck && readingTariff && (
+          <div className="text-sm mt-3 space-y-1">
+            <div>القراءة السابقة: {readingCheck.previous} — الاستهلاك: {readingCheck.consumption} — المبلغ: {tariffAmount(readingTariff, readingCheck.consumption)} {currencyLabel(readingTariff.currency)}</div>
+            {flagsText(readingCheck) && <div className="text-amber-600">تنبيه: {flagsText(readingCheck)}</div>}
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-auto">
+        <table className="min-w-full text-sm">
+          <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+            <tr className="text-neutral-500">
+              <th className="py-2">الوحدة</th>
+              <th className="py-2">العداد</th>
+              <th className="py-2">الفترة</th>
+              <th className="py-2">السابقة</th>
+              <th className="py-2">الحالية</th>
+              <th className="py-2">الاستهلاك</th>
+              <th className="py-2">المبلغ</th>
+              <th className="py-2">تنبيهات</th>
+              <th className="py-2">إجراءات</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.readings.map((r) => {
+              const meter = data.meters.find((m) => m.id === r.meterId);
+              if (!meter) return null;
+              const check = checkReading(meter, data.readings, r.period, r.reading);
+              const charge = data.utilities.find((u) => u.readingId === r.id);
+              return (
+                <tr key={r.id} className="border-b border-neutral-100 dark:border-neutral-900">
+                  <td className="py-2">{unitsById.get(meter.unitId)?.name || "-"}<SyncBadge rowId={r.id} /></td>
+                  <td className="py-2">{typeLabel(meter.type)} — {meter.name}</td>
+                  <td className="py-2">{r.period}</td>
+                  <td className="py-2">{check.previous}</td>
+                  <td className="py-2">{r.reading}</td>
+                  <td className="py-2">{check.consumption}</td>
+                  <td className="py-2">{charge ? `${charge.amount} ${currencyLabel(charge.currency)}` : "-"}</td>
+                  <td className="py-2 text-amber-600">{flagsText(check) || "-"}</td>
+                  <td className="py-2 flex gap-3">
+                    {isLatestReading(r) && <button className="text-blue-600 hover:underline" onClick={() => editReading(r)}>تعديل</button>}
+                    <button className="text-red-600 hover:underline" onClick={() => removeReading(r.id)}>حذف</button>
+                  </td>
+                </tr>
+              );
+            })}
+            {data.readings.length === 0 && (
+              <tr>
+                <td className="py-6 text-center text-neutral-500" colSpan={9}>لا توجد قراءات</td>
+              </tr>
             )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
 
-            {activeTab === "settings" && (
-          <section className="space-y-6">
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-              <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
-                <h2 className="font-medium mb-3">العملة الرئيسية</h2>
-                <div className="flex gap-4">
-                  <label className="flex items-center gap-2 text-sm">
-                    <input
-                      type="radio"
-                      name="baseCurrency"
-                      checked={data.settings.baseCurrency === "JOD"}
-                      onChange={() => updateBaseCurrency("JOD")}
-                    />
-                    دينار أردني
-                  </label>
-                  <label className="flex items-center gap-2 text-sm">
-                    <input
-                      type="radio"
-                      name="baseCurrency"
-                      checked={data.settings.baseCurrency === "ILS"}
-                      onChange={() => updateBaseCurrency("ILS")}
-                    />
-                    شيكل
-                  </label>
-                </div>
-              </div>
+function InvoicesTab({
+  data,
+  setData,
+  unitsById,
+  settings,
+}: {
+  data: AppData;
+  setData: React.Dispatch<React.SetStateAction<AppData>>;
+  unitsById: Map<string, Unit>;
+  settings: Settings;
+}) {
+  const [scope, setScope] = useState<"monthly" | "yearly">("monthly");
+  const [period, setPeriod] = useState<string>(new Date().toISOString().slice(0, 7)); // YYYY-MM
+  const [tenantFilter, setTenantFilter] = useState<string>("");
+  const [plan, setPlan] = useState<InvoicePlanItem[] | null>(null);
+  const [applying, setApplying] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
 
-              <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
-                <h2 className="font-medium mb-3">سعر الصرف</h2>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
-                  <div>
-                    <label className="block text-sm mb-1">1 دينار = كم شيكل؟</label>
-                    <input
-                      type="number"
-                      step="0.0001"
-                      className="w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
-                      value={Number(data.settings.jodToIlsRate.toFixed(6))}
-                      onChange={(e) => updateExchangeRate(Number(e.target.value))}
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm mb-1">1 شيكل ≈ كم دينار؟</label>
-                    <input
-                      type="text"
-                      readOnly
-                      className="w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
-                      value={(1 / (data.settings.jodToIlsRate || 1)).toFixed(6)}
-                    />
-                  </div>
-                </div>
-                <div className="flex items-center gap-3 mt-3">
-                  <button onClick={autoFetchRate} disabled={syncing} className="rounded-md bg-indigo-600 text-white px-3 py-1.5 text-sm disabled:opacity-60">
-                    {syncing ? "جارٍ التحديث..." : "تحديث تلقائي"}
-                  </button>
-                  <span className="text-xs text-neutral-500">آخر قيمة: {data.settings.jodToIlsRate.toFixed(6)} شيكل/دينار</span>
-                </div>
-                <p className="text-xs text-neutral-500 mt-2">تؤثر على تحويل العملات في الإجماليات.</p>
-              </div>
+  const scopePeriod = scope === "monthly" ? period : period.slice(0, 4);
+
+  const [listFilter, setListFilter] = useState<{ tenantId: string; period: string }>({ tenantId: "", period: "" });
+  const listPeriods = Array.from(new Set(data.invoices.map((i) => i.period))).sort().reverse();
+  const shownInvoices = data.invoices.filter((i) => (!listFilter.tenantId || i.tenantId === listFilter.tenantId) && (!listFilter.period || i.period === listFilter.period));
+
+  // بالعملة الأصلية: مبالغ الإصدار المجمدة كما هي؛ بالعملة الرئيسية: نفس أعمدة الجدول
+  function exportInvoices(mode: AmountMode): ExportTable {
+    const base = currencyName(settings.baseCurrency);
+    const headers =
+      mode === "original"
+        ? ["الرقم", "الفترة", "المستأجر", "الوحدة", "الأجار", "عملة الأجار", "مرافق بالدينار", "مرافق بالشيكل", "الإجمالي", "عملة الإصدار", "سعر الصرف", "الحالة"]
+        : ["الرقم", "الفترة", "المستأجر", "الوحدة", `الأجار (${base})`, `المرافق (${base})`, `الإجمالي (${base})`, `المدفوع (${base})`, "الحالة"];
+    const rows = shownInvoices.map((inv) => {
+      const amounts = invoiceAmounts(inv, settings);
+      const paidBase = invoicePaidBase(data, inv.id, settings);
+      const status = inv.voidedAt ? "ملغاة" : INVOICE_STATUS_LABELS[invoiceStatus(amounts.total, paidBase)];
+      const head = [inv.number || "", inv.period, data.tenants.find((t) => t.id === inv.tenantId)?.name || "", unitsById.get(inv.unitId)?.name || ""];
+      return mode === "original"
+        ? [...head, inv.rentAmount, currencyName(inv.rentCurrency), inv.utilitiesJod, inv.utilitiesIls, roundAmount(inv.totalBase), currencyName(inv.currency), inv.jodToIlsRate, status]
+        : [...head, roundAmount(amounts.rent), roundAmount(amounts.utilities), roundAmount(amounts.total), roundAmount(paidBase), status];
+    });
+    return { headers, rows };
+  }
 
-              <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
-                <h2 className="font-medium mb-3">معلومة</h2>
-                <p className="text-sm text-neutral-600 dark:text-neutral-400">يمكنك تغيير العملة المعروضة وسعر الصرف في أي وقت.</p>
-              </div>
-            </div>
-            <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
-              <h2 className="font-medium mb-3">النسخ الاحتياطي والاستعادة (Supabase)</h2>
-              <div className="flex flex-wrap items-center gap-3">
-                <button
-                  onClick={backupToSupabase}
-                  disabled={syncing}
-                  className="rounded-md bg-emerald-600 text-white px-4 py-2 disabled:opacity-60"
-                >
-                  {syncing ? "جارٍ الحفظ..." : "نسخ احتياطي الآن"}
-                </button>
-                <button
-                  onClick={restoreFromSupabase}
-                  disabled={syncing}
-                  className="rounded-md bg-amber-600 text-white px-4 py-2 disabled:opacity-60"
-                >
-                  {syncing ? "جارٍ الاستعادة..." : "استعادة أحدث نسخة"}
-                </button>
-                {syncMsg && <span className="text-sm text-neutral-600 dark:text-neutral-400">{syncMsg}</span>}
-              </div>
-              <p className="text-xs text-neutral-500 mt-2">قم بإضافة مفاتيح Supabase في ملف البيئة لتفعيل هذه الأزرار.</p>
-            </div>
-          </section>
-        )}
+  // دورية الفوترة من العقد الساري، وإلا من نوع الوحدة (شقة شهري / محل سنوي)
+  function billedInScope(t: Tenant): boolean {
+    const unit = unitsById.get(t.unitId);
+    if (!unit) return false;
+    const lease = leaseInForce(data.leases, t.id, unit.id, scopePeriod);
+    const frequency: BillingFrequency = lease ? lease.frequency : unit.kind === "apartment" ? "monthly" : "yearly";
+    return frequency === scope;
+  }
 
-        {activeTab === "units" && (
-          <UnitsTab data={data} setData={setData} tenantsByUnit={tenantsByUnit} />
-        )}
+  // الإشغال من كل العقود المتداخلة مع الفترة (عقد ينتهي وآخر يبدأ خلالها)، وإلا من تاريخي بدء ومغادرة المستأجر؛
+  // المغادرة المبكرة تتقدم على نهاية أي عقد. طريقة الاحتساب من العقد الساري
+  function occupancyProration(t: Tenant, unit: Unit): Proration | null {
+    const start = periodStartDate(scopePeriod);
+    const end = periodEndDate(scopePeriod);
+    const leases = data.leases.filter((l) => l.tenantId === t.id && l.unitId === unit.id && l.startDate <= end && (!l.endDate || l.endDate >= start));
+    const leaveBy = (leaseEnd?: string) => (leaseEnd && (!t.endDate || leaseEnd < t.endDate) ? leaseEnd : t.endDate);
+    const occupancy: Occupancy[] = leases.length ? leases.map((l) => ({ start: l.startDate, end: leaveBy(l.endDate) })) : [{ start: t.startDate, end: t.endDate }];
+    return prorationFor(scopePeriod, occupancy, leaseInForce(data.leases, t.id, unit.id, scopePeriod)?.proration ?? "days");
+  }
 
-        {activeTab === "tenants" && (
-          <TenantsTab data={data} setData={setData} unitsById={unitsById} />
-        )}
+  // بنود الفترة، شهرياً بالشهر وسنوياً بالسنة
+  function chargeInPeriod(u: UtilityCharge): boolean {
+    return scope === "monthly" ? u.period === period : u.period.startsWith(period.slice(0, 4));
+  }
 
-        {activeTab === "utilities" && (
-          <UtilitiesTab data={data} setData={setData} unitsById={unitsById} settings={data.settings} />
-        )}
+  // من غادر وعليه رسوم محمّلة في الفترة يُفوتر بها وحدها
+  function eligibleTenants() {
+    const hasOwnCharges = (t: Tenant) => data.utilities.some((u) => u.tenantId === t.id && u.unitId === t.unitId && chargeInPeriod(u));
+    const filtered = data.tenants
+      .filter((t) => !t.deletedAt)
+      .filter(billedInScope)
+      .filter((t) => (t.active && occupancyProration(t, unitsById.get(t.unitId)!) !== null) || hasOwnCharges(t));
+    if (tenantFilter) return filtered.filter((t) => t.id === tenantFilter);
+    return filtered;
+  }
 
-        {activeTab === "invoices" && (
-          <InvoicesTab data={data} setData={setData} unitsById={unitsById} settings={data.settings} />
-        )}
+  // مجموع المرافق لكل عملة على حدة، كما سُجّلت؛ البنود المحمّلة على مستأجر آخر لا تدخل
+  // الرسوم المتكررة تُضاف بمبلغها الافتراضي ما لم تُسجّل لها رسوم فعلية للوحدة في نفس الفترة
+  // من لا يشغل الوحدة في الفترة تدخل بنوده المحمّلة عليه فقط
+  function sumUtilitiesByCurrency(unit: Unit, t: Tenant, occupying: boolean): Record<Currency, number> {
+    const charges = data.utilities.filter((u) => u.unitId === unit.id && chargeInPeriod(u) && (u.tenantId ? u.tenantId === t.id : occupying));
+    const recurring = data.chargeTypes.filter(
+      (ct) =>
+        occupying && ct.recurrence === "recurring" && ct.defaultAmount > 0 && (ct.appliesTo === "both" || ct.appliesTo === unit.kind) && !charges.some((u) => u.type === ct.id)
+    );
+    const totals = charges.reduce((acc, u) => ({ ...acc, [u.currency]: acc[u.currency] + u.amount }), { JOD: 0, ILS: 0 } as Record<Currency, number>);
+    return recurring.reduce((acc, ct) => ({ ...acc, [ct.currency]: acc[ct.currency] + ct.defaultAmount }), totals);
+  }
 
-        {activeTab === "payments" && (
-          <PaymentsTab data={data} setData={setData} unitsById={unitsById} settings={data.settings} />
-        )}
-          </>
-        )}
-      </div>
-    </div>
-  );
-}
+  function draftInvoice(t: Tenant, unit: Unit): Invoice {
+    const lease = leaseInForce(data.leases, t.id, unit.id, scopePeriod);
+    const fullRent = lease ? escalatedRent(lease, periodStartDate(scopePeriod)) : unit.rentAmount;
+    const occupancy = t.active ? occupancyProration(t, unit) : null;
+    const proration = occupancy ?? { factor: 0 };
+    const rentAmount = Math.round(fullRent * proration.factor * 100) / 100;
+    const rentCurrency = lease ? lease.rentCurrency : unit.rentCurrency;
+    const rentBase = convertToBase(rentAmount, rentCurrency, settings);
+    const utilities = sumUtilitiesByCurrency(unit, t, occupancy !== null);
+    const utilitiesBase = convertToBase(utilities.JOD, "JOD", settings) + convertToBase(utilities.ILS, "ILS", settings);
+    const totalBase = rentBase + utilitiesBase;
+    return {
+      id: uid("inv"),
+      unitId: unit.id,
+      tenantId: t.id,
+      period: scopePeriod,
+      scope,
+      rentBase,
+      utilitiesBase,
+      totalBase,
+      currency: settings.baseCurrency,
+      jodToIlsRate: settings.jodToIlsRate,
+      rentAmount,
+      rentCurrency,
+      utilitiesJod: utilities.JOD,
+      utilitiesIls: utilities.ILS,
+      leaseId: lease?.id,
+      prorationNote: proration.note,
+    };
+  }
+
+  // معاينة دون أي كتابة: يُطابق كل مسودة مع الفاتورة السارية لنفس المستأجر والوحدة والفترة
+  function previewInvoices() {
+    setMessage(null);
+    const items: InvoicePlanItem[] = eligibleTenants().map((t) => {
+      const draft = draftInvoice(t, unitsById.get(t.unitId)!);
+      const existing = data.invoices.find(
+        (i) => !i.voidedAt && i.tenantId === draft.tenantId && i.unitId === draft.unitId && i.period === draft.period && i.scope === draft.scope
+      );
+      if (!existing) return { draft, status: "new" };
+      return { draft, existing, status: sameInvoiceAmounts(existing, draft) ? "exists" : "changed" };
+    });
+    setPlan(items);
+  }
+
+  // يضيف الفواتير الجديدة فقط؛ الموجودة والمتغيرة لا تُمس إلا بإعادة إصدار صريحة
+  async function applyPlan() {
+    if (!plan || applying) return;
+    const newInvoices = plan.filter((p) => p.status === "new").map((p) => p.draft);
+    if (newInvoices.length === 0) {
+      setPlan(null);
+      return;
+    }
+    setApplying(true);
+    // ترحيل الرصيد الدائن للمستأجرين على الفواتير الجديدة
+    const next: AppData = { ...data, invoices: [...newInvoices, ...data.invoices] };
+    const allocations = Array.from(new Set(newInvoices.map((i) => i.tenantId))).flatMap((tid) => autoAllocateTenant(next, tid, settings));
+    const ids = new Set(newInvoices.map((i) => i.id));
+    setData((d) => ({ ...d, invoices: [...newInvoices, ...d.invoices], allocations: [...allocations, ...d.allocations] }));
+    try {
+      // التخصيص قد يشير لدفعة ما زالت في الصندوق
+      await flushPendingWrites();
+      const numbers = await dbIssueInvoices(
+        newInvoices.map(invoiceToRow),
+        allocations.map((a) => ({ id: a.id, payment_id: a.paymentId, invoice_id: a.invoiceId, amount: a.amount }))
+      );
+      setData((d) => ({ ...d, invoices: withDocumentNumbers(d.invoices, numbers) }));
+      setMessage(`تم إنشاء ${newInvoices.length} فاتورة.`);
+      setPlan(null);
+    } catch (err) {
+      // قاعدة البيانات رفضت الدفعة كاملة: نتراجع محلياً حتى لا تختلف الواجهة عن الخادم
+      setData((d) => ({
+        ...d,
+        invoices: d.invoices.filter((i) => !ids.has(i.id)),
+        allocations: d.allocations.filter((a) => !ids.has(a.invoiceId)),
+      }));
+      const message = err instanceof Error ? err.message : (err as { message?: string })?.message;
+      setMessage(`فشل حفظ الفواتير: ${message || "خطأ غير معروف"}`);
+    } finally {
+      setApplying(false);
+    }
+  }
+
+  // إعادة إصدار فاتورة بعينها: تُلغى القديمة (وتُفك تخصيصاتها لتعود رصيداً دائناً) وتحل محلها المسودة
+  async function regenerateInvoice(existing: Invoice, draft: Invoice) {
+    const voidedAt = new Date().toISOString();
+    const freed = data.allocations.filter((a) => a.invoiceId === existing.id);
+    const next: AppData = {
+      ...data,
+      invoices: [draft, ...data.invoices.map((i) => (i.id === existing.id ? { ...i, voidedAt, replacedBy: draft.id } : i))],
+      allocations: data.allocations.filter((a) => a.invoiceId !== existing.id),
+    };
+    const allocations = autoAllocateTenant(next, draft.tenantId, settings);
+    setData((d) => ({
+      ...d,
+      invoices: [draft, ...d.invoices.map((i) => (i.id === existing.id ? { ...i, voidedAt, replacedBy: draft.id } : i))],
+      allocations: [...allocations, ...d.allocations.filter((a) => a.invoiceId !== existing.id)],
+    }));
+    setPlan((p) => p?.map((item) => (item.existing?.id === existing.id ? { ...item, existing: draft, status: "exists" } : item)) ?? null);
+    try {
+      await flushPendingWrites();
+      const numbers = await dbIssueInvoices(
+        [invoiceToRow(draft)],
+        allocations.map((a) => ({ id: a.id, payment_id: a.paymentId, invoice_id: a.invoiceId, amount: a.amount })),
+        { id: existing.id, voidedAt }
+      );
+      setData((d) => ({ ...d, invoices: withDocumentNumbers(d.invoices, numbers) }));
+      setMessage("تمت إعادة إصدار الفاتورة.");
+    } catch (err) {
+      // الخادم لم يغيّر شيئاً: تعود الفاتورة القديمة وتخصيصاتها محلياً
+      const added = new Set(allocations.map((a) => a.id));
+      setData((d) => ({
+        ...d,
+        invoices: d.invoices.filter((i) => i.id !== draft.id).map((i) => (i.id === existing.id ? existing : i)),
+        allocations: [...freed, ...d.allocations.filter((a) => !added.has(a.id))],
+      }));
+      setPlan((p) => p?.map((item) => (item.existing?.id === draft.id ? { ...item, existing, status: "changed" } : item)) ?? null);
+      const message = err instanceof Error ? err.message : (err as { message?: string })?.message;
+      setMessage(`فشلت إعادة الإصدار: ${message || "خطأ غير معروف"}`);
+    }
+  }
+
+  const [correction, setCorrection] = useState<{ invoiceId: string; rentAmount: string; rentCurrency: Currency; utilitiesJod: string; utilitiesIls: string } | null>(null);
+  const [correctionError, setCorrectionError] = useState<string | null>(null);
+  const correcting = correction ? data.invoices.find((i) => i.id === correction.invoiceId) : undefined;
+
+  function openCorrection(inv: Invoice) {
+    setCorrectionError(null);
+    setCorrection({
+      invoiceId: inv.id,
+      rentAmount: String(inv.rentAmount),
+      rentCurrency: inv.rentCurrency,
+      utilitiesJod: String(inv.utilitiesJod),
+      utilitiesIls: String(inv.utilitiesIls),
+    });
+  }
+
+  // الفاتورة الصادرة لا تُعدّل في مكانها: التصحيح فاتورة بديلة بنفس الفترة وسعر الصرف المجمد، والأصلية تُلغى
+  async function saveCorrection() {
+    if (!correction || !correcting) return;
+    const rentAmount = Number(correction.rentAmount);
+    const utilitiesJod = Number(correction.utilitiesJod) || 0;
+    const utilitiesIls = Number(correction.utilitiesIls) || 0;
+    if (!(rentAmount >= 0) || utilitiesJod < 0 || utilitiesIls < 0) {
+      setCorrectionError("المبالغ لا تكون سالبة.");
+      return;
+    }
+    const frozen: Settings = { baseCurrency: correcting.currency, jodToIlsRate: correcting.jodToIlsRate };
+    const rentBase = convertToBase(rentAmount, correction.rentCurrency, frozen);
+    const utilitiesBase = convertToBase(utilitiesJod, "JOD", frozen) + convertToBase(utilitiesIls, "ILS", frozen);
+    const draft: Invoice = {
+      ...correcting,
+      id: uid("inv"),
+      number: undefined,
+      voidedAt: undefined,
+      replacedBy: undefined,
+      rentAmount,
+      rentCurrency: correction.rentCurrency,
+      utilitiesJod,
+      utilitiesIls,
+      rentBase,
+      utilitiesBase,
+      totalBase: rentBase + utilitiesBase,
+    };
+    if (sameInvoiceAmounts(correcting, draft)) {
+      setCorrectionError("لم تتغير مبالغ الفاتورة.");
+      return;
+    }
+    setCorrection(null);
+    await regenerateInvoice(correcting, draft);
+  }
+
+  async function printInvoices(query: string) {
+    try {
+      await openDocumentPdf(query);
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "تعذر إنشاء ملف PDF.");
+    }
+  }
+
+  // الفاتورة المرقّمة تُلغى ولا تُحذف حتى يبقى تسلسل الأرقام بلا فجوات
+  async function removeInvoice(id: string) {
+    const inv = data.invoices.find((i) => i.id === id);
+    if (inv?.number) {
+      const voidedAt = new Date().toISOString();
+      const freed = data.allocations.filter((a) => a.invoiceId === id);
+      setData((d) => ({ ...d, invoices: d.invoices.map((i) => (i.id === id ? { ...i, voidedAt } : i)), allocations: d.allocations.filter((a) => a.invoiceId !== id) }));
+      enqueue("dbVoidInvoice", { label: "إلغاء فاتورة", rowIds: [id] }, id, voidedAt, null);
+      freed.forEach((a) => enqueue("dbDeleteAllocation", { label: "فك تخصيص", rowIds: [id] }, a.id));
+      return;
+    }
+    setData((d) => ({ ...d, invoices: d.invoices.filter((i) => i.id !== id), allocations: d.allocations.filter((a) => a.invoiceId !== id) }));
+    enqueue("dbDeleteInvoice", { label: "حذف فاتورة", rowIds: [id] }, id);
+  }
 
-function HomeTab({ data, settings }: { data: AppData; settings: Settings }) {
-  const cards = [
-    { label: "عدد الوحدات", value: data.units.length },
-    { label: "عدد المستأجرين", value: data.tenants.length },
-    { label: "عدد الفواتير", value: data.invoices.length },
-    { label: "عدد الدفعات", value: data.payments.length },
-  ];
   return (
     <section className="space-y-6">
-      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
-        {cards.map((c) => (
-          <div key={c.label} className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
-            <div className="text-sm text-neutral-500">{c.label}</div>
-            <div className="text-2xl font-semibold mt-1">{c.value}</div>
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <h2 className="font-medium mb-4">إنشاء فواتير</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-7 gap-3">
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={scope}
+            onChange={(e) => setScope(e.target.value as "monthly" | "yearly")}
+          >
+            <option value="monthly">شهري</option>
+            <option value="yearly">سنوي</option>
+          </select>
+          {scope === "monthly" ? (
+            <input
+              type="month"
+              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+              value={period}
+              onChange={(e) => setPeriod(e.target.value)}
+            />
+          ) : (
+            <input
+              type="number"
+              min={2000}
+              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+              value={period.slice(0, 4)}
+              onChange={(e) => setPeriod(`${e.target.value}-01`)}
+            />
+          )}
+          <select
+            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={tenantFilter}
+            onChange={(e) => setTenantFilter(e.target.value)}
+          >
+            <option value="">كل المستأجرين</option>
+            {data.tenants
+              .filter((t) => t.active && !t.deletedAt)
+              .filter(billedInScope)
+              .map((t) => {
+                const u = unitsById.get(t.unitId);
+                return (
+                  <option key={t.id} value={t.id}>{t.name} — {u?.name}</option>
+                );
+              })}
+          </select>
+          <button onClick={previewInvoices} className="rounded-md bg-blue-600 text-white px-4 py-2">معاينة</button>
+          <button onClick={() => printInvoices(`period=${scopePeriod}`)} className="rounded-md border px-4 py-2">طباعة فواتير الفترة</button>
+        </div>
+        <p className="text-xs text-neutral-500 mt-2">تُجمّد عملة الإصدار وسعر الصرف والمبالغ الأصلية على كل فاتورة، وتُعرض محوّلة بسعرها المجمد.</p>
+        {message && <p className="text-sm text-neutral-600 dark:text-neutral-400 mt-2">{message}</p>}
+      </div>
+
+      {plan && (
+        <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <h2 className="font-medium">
+              معاينة التوليد: {plan.filter((p) => p.status === "new").length} جديدة، {plan.filter((p) => p.status === "exists").length} موجودة، {plan.filter((p) => p.status === "changed").length} ستتغير مبالغها
+            </h2>
+            <div className="flex gap-3">
+              <button onClick={applyPlan} disabled={applying} className="rounded-md bg-emerald-600 text-white px-4 py-2 disabled:opacity-60">
+                {applying ? "جارٍ الحفظ..." : "تطبيق (إنشاء الجديدة فقط)"}
+              </button>
+              <button onClick={() => setPlan(null)} className="rounded-md border px-4 py-2">إلغاء</button>
+            </div>
           </div>
-        ))}
+          <div className="overflow-auto">
+            <table className="min-w-full text-sm">
+              <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+                <tr className="text-neutral-500">
+                  <th className="py-2">المستأجر</th>
+                  <th className="py-2">الوحدة</th>
+                  <th className="py-2">الحالي</th>
+                  <th className="py-2">الجديد</th>
+                  <th className="py-2">النتيجة</th>
+                  <th className="py-2">إجراءات</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.map((item) => (
+                  <tr key={item.draft.id} className="border-b border-neutral-100 dark:border-neutral-900">
+                    <td className="py-2">{data.tenants.find((t) => t.id === item.draft.tenantId)?.name || "-"}</td>
+                    <td className="py-2">{unitsById.get(item.draft.unitId)?.name || "-"}</td>
+                    <td className="py-2">{item.existing ? formatCurrency(invoiceAmounts(item.existing, settings).total, settings) : "-"}</td>
+                    <td className="py-2">{formatCurrency(invoiceAmounts(item.draft, settings).total, settings)}</td>
+                    <td className={`py-2 ${item.status === "new" ? "text-emerald-600" : item.status === "changed" ? "text-amber-600" : "text-neutral-500"}`}>
+                      {item.status === "new" ? "ستُنشأ" : item.status === "changed" ? "موجودة — المبالغ تغيرت" : "موجودة"}
+                    </td>
+                    <td className="py-2">
+                      {item.existing && item.status === "changed" ? (
+                        <button className="text-blue-600 hover:underline" onClick={() => regenerateInvoice(item.existing!, item.draft)}>إعادة إصدار</button>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+                {plan.length === 0 && (
+                  <tr>
+                    <td className="py-6 text-center text-neutral-500" colSpan={6}>لا يوجد مستأجرون مؤهلون لهذه الفترة</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-2 py-1 select-light"
+            value={listFilter.tenantId}
+            onChange={(e) => setListFilter((f) => ({ ...f, tenantId: e.target.value }))}
+          >
+            <option value="">كل المستأجرين</option>
+            {data.tenants.map((t) => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-2 py-1 select-light"
+            value={listFilter.period}
+            onChange={(e) => setListFilter((f) => ({ ...f, period: e.target.value }))}
+          >
+            <option value="">كل الفترات</option>
+            {listPeriods.map((p) => (
+              <option key={p} value={p}>{p}</option>
+            ))}
+          </select>
+        </div>
+        <ExportButtons fileName="invoices" sheetName="الفواتير" build={exportInvoices} />
       </div>
-      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
-        <h2 className="font-medium mb-2">معلومات عامة</h2>
-        <div className="text-sm text-neutral-600 dark:text-neutral-400">العملة الرئيسية: {settings.baseCurrency === "JOD" ? "دينار أردني" : "شيكل"}</div>
-        <div className="text-sm text-neutral-600 dark:text-neutral-400">سعر الصرف الحالي: 1 دينار = {settings.jodToIlsRate} شيكل</div>
+
+      {correction && correcting && (
+        <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+          <h2 className="font-medium mb-4">
+            تصحيح الفاتورة {correcting.number || ""} — {data.tenants.find((t) => t.id === correcting.tenantId)?.name || "-"} / {correcting.period}
+          </h2>
+          <div className="grid grid-cols-1 sm:grid-cols-6 gap-3">
+            <input
+              type="number"
+              placeholder="الأجار"
+              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+              value={correction.rentAmount}
+              onChange={(e) => setCorrection((c) => c && { ...c, rentAmount: e.target.value })}
+            />
+            <select
+              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+              value={correction.rentCurrency}
+              onChange={(e) => setCorrection((c) => c && { ...c, rentCurrency: e.target.value as Currency })}
+            >
+              <option value="JOD">دينار</option>
+              <option value="ILS">شيكل</option>
+            </select>
+            <input
+              type="number"
+              placeholder="المرافق بالدينار"
+              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+              value={correction.utilitiesJod}
+              onChange={(e) => setCorrection((c) => c && { ...c, utilitiesJod: e.target.value })}
+            />
+            <input
+              type="number"
+              placeholder="المرافق بالشيكل"
+              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+              value={correction.utilitiesIls}
+              onChange={(e) => setCorrection((c) => c && { ...c, utilitiesIls: e.target.value })}
+            />
+            <button onClick={saveCorrection} className="rounded-md bg-blue-600 text-white px-4 py-2">إصدار الفاتورة المصححة</button>
+            <button onClick={() => setCorrection(null)} className="rounded-md border px-4 py-2">إغلاق</button>
+          </div>
+          {correctionError && <p className="text-sm text-red-600 mt-2">{correctionError}</p>}
+          <p className="text-xs text-neutral-500 mt-2">تُلغى الفاتورة الحالية وتُصدر بديلة برقم جديد وبنفس سعر الصرف ({correcting.jodToIlsRate.toFixed(4)})، وتُخصص الدفعات عليها من جديد.</p>
+        </div>
+      )}
+
+      <div className="overflow-auto">
+        <table className="min-w-full text-sm">
+          <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+            <tr className="text-neutral-500">
+              <th className="py-2">الرقم</th>
+              <th className="py-2">الفترة</th>
+              <th className="py-2">المستأجر</th>
+              <th className="py-2">الوحدة</th>
+              <th className="py-2">الأجار</th>
+              <th className="py-2">المرافق</th>
+              <th className="py-2">الإجمالي</th>
+              <th className="py-2">عملة/سعر الإصدار</th>
+              <th className="py-2">المدفوع</th>
+              <th className="py-2">الحالة</th>
+              <th className="py-2">إجراءات</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shownInvoices.map((inv) => {
+              const unit = unitsById.get(inv.unitId);
+              const tenant = data.tenants.find((t) => t.id === inv.tenantId);
+              const paidBase = invoicePaidBase(data, inv.id, settings);
+              const amounts = invoiceAmounts(inv, settings);
+              const status = invoiceStatus(amounts.total, paidBase);
+              return (
+                <tr key={inv.id} className={`border-b border-neutral-100 dark:border-neutral-900 ${inv.voidedAt ? "line-through text-neutral-400" : ""}`}>
+                  <td className="py-2 whitespace-nowrap" dir="ltr">{inv.number || "—"}</td>
+                  <td className="py-2">{inv.scope === "monthly" ? inv.period : `سنة ${inv.period}`}<SyncBadge rowId={inv.id} /></td>
+                  <td className="py-2">{tenant?.name || "-"}</td>
+                  <td className="py-2">{unit?.name || "-"}</td>
+                  <td className="py-2">
+                    {formatCurrency(amounts.rent, settings)}
+                    {inv.prorationNote && <div className="text-xs text-neutral-500">جزئي: {inv.prorationNote}</div>}
+                  </td>
+                  <td className="py-2">{formatCurrency(amounts.utilities, settings)}</td>
+                  <td className="py-2 font-medium">{formatCurrency(amounts.total, settings)}</td>
+                  <td className="py-2 text-xs text-neutral-500">{inv.currency === "JOD" ? "دينار" : "شيكل"} @ {inv.jodToIlsRate.toFixed(4)}</td>
+                  <td className="py-2">{formatCurrency(paidBase, settings)}</td>
+                  {inv.voidedAt ? (
+                    <td className="py-2">ملغاة</td>
+                  ) : (
+                    <td className={`py-2 ${status === "paid" ? "text-emerald-600" : status === "partial" ? "text-amber-600" : status === "overpaid" ? "text-indigo-600" : "text-red-600"}`}>{INVOICE_STATUS_LABELS[status]}</td>
+                  )}
+                  <td className="py-2 flex gap-3">
+                    <button className="text-blue-600 hover:underline" onClick={() => printInvoices(`invoice=${inv.id}`)}>طباعة</button>
+                    {!inv.voidedAt && <button className="text-blue-600 hover:underline" onClick={() => openCorrection(inv)}>تصحيح</button>}
+                    {!(inv.voidedAt && inv.number) && (
+                      <button className="text-red-600 hover:underline" onClick={() => removeInvoice(inv.id)}>{inv.number ? "إلغاء" : "حذف"}</button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+            {shownInvoices.length === 0 && (
+              <tr>
+                <td className="py-6 text-center text-neutral-500" colSpan={11}>لا توجد فواتير بعد</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
       </div>
     </section>
   );
 }
 
-function UnitsTab({
+function PaymentsTab({
   data,
   setData,
-  tenantsByUnit,
+  unitsById,
+  settings,
 }: {
   data: AppData;
   setData: React.Dispatch<React.SetStateAction<AppData>>;
-  tenantsByUnit: Map<string, Tenant[]>;
+  unitsById: Map<string, Unit>;
+  settings: Settings;
 }) {
-  const [form, setForm] = useState<{ name: string; kind: UnitKind; rentAmount: string; rentCurrency: Currency }>(
-    { name: "", kind: "apartment", rentAmount: "", rentCurrency: "JOD" }
+  const [form, setForm] = useState<{ tenantId: string; date: string; amount: string; currency: Currency; period: string; note: string }>(
+    { tenantId: "", date: new Date().toISOString().slice(0, 10), amount: "", currency: "JOD", period: new Date().toISOString().slice(0, 7), note: "" }
+  );
+  const [allocForm, setAllocForm] = useState<{ paymentId: string; invoiceId: string; amount: string }>({ paymentId: "", invoiceId: "", amount: "" });
+  const [allocError, setAllocError] = useState<string | null>(null);
+  const [printError, setPrintError] = useState<string | null>(null);
+  const [listFilter, setListFilter] = useState<{ tenantId: string; from: string; to: string }>({ tenantId: "", from: "", to: "" });
+  const shownPayments = data.payments.filter(
+    (p) => (!listFilter.tenantId || p.tenantId === listFilter.tenantId) && (!listFilter.from || p.date >= listFilter.from) && (!listFilter.to || p.date <= listFilter.to)
   );
 
-  async function addUnit() {
-    if (!form.name || !form.rentAmount) return;
-    const unit: Unit = {
-      id: uid("unit"),
-      name: form.name.trim(),
-      kind: form.kind,
-      rentAmount: Number(form.rentAmount),
-      rentCurrency: form.rentCurrency,
-    };
-    setData((d) => ({ ...d, units: [unit, ...d.units] }));
+  async function printReceipt(id: string) {
+    setPrintError(null);
     try {
-      await dbInsertUnit({ id: unit.id, name: unit.name, kind: unit.kind, rent_amount: unit.rentAmount, rent_currency: unit.rentCurrency });
-    } catch {}
-    setForm({ name: "", kind: "apartment", rentAmount: "", rentCurrency: "JOD" });
+      await openDocumentPdf(`payment=${id}`);
+    } catch (err) {
+      setPrintError(err instanceof Error ? err.message : "تعذر إنشاء ملف PDF.");
+    }
+  }
+
+  function exportPayments(mode: AmountMode): ExportTable {
+    const base = currencyName(settings.baseCurrency);
+    return {
+      headers: ["الرقم", "التاريخ", "المستأجر", "الوحدة", "الفترة", ...(mode === "original" ? ["المبلغ", "العملة", "غير مخصص"] : [`المبلغ (${base})`]), "ملاحظة", "الحالة"],
+      rows: shownPayments.map((p) => [
+        p.number || "",
+        p.date,
+        data.tenants.find((t) => t.id === p.tenantId)?.name || "",
+        unitsById.get(p.unitId)?.name || "",
+        p.period || "",
+        ...(mode === "original"
+          ? [p.amount, currencyName(p.currency), roundAmount(paymentUnallocated(data, p))]
+          : [roundAmount(convertToBaseOn(p.amount, p.currency, p.date, data.rates, settings))]),
+        p.note || "",
+        p.voidedAt ? "ملغى" : "",
+      ]),
+    };
+  }
+
+  const [editingId, setEditingId] = useState<string>("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  function editPayment(p: Payment) {
+    setEditingId(p.id);
+    setFormError(null);
+    setForm({ tenantId: p.tenantId, date: p.date, amount: String(p.amount), currency: p.currency, period: p.period || "", note: p.note || "" });
+  }
+
+  function resetForm() {
+    setEditingId("");
+    setFormError(null);
+    setForm({ tenantId: "", date: new Date().toISOString().slice(0, 10), amount: "", currency: form.currency, period: new Date().toISOString().slice(0, 7), note: "" });
+  }
+
+  async function savePayment() {
+    const tenant = data.tenants.find((t) => t.id === form.tenantId);
+    const amount = Number(form.amount);
+    if (!tenant || !form.date) {
+      setFormError("المستأجر والتاريخ مطلوبان.");
+      return;
+    }
+    if (!(amount > 0)) {
+      setFormError("المبلغ يجب أن يكون أكبر من صفر.");
+      return;
+    }
+    const previous = data.payments.find((p) => p.id === editingId);
+    // التخصيصات بعملة الدفعة: لا تُغيّر العملة ولا يُنقص المبلغ عما خُصص منه
+    if (previous) {
+      const allocated = previous.amount - paymentUnallocated(data, previous);
+      if (allocated > 0 && form.currency !== previous.currency) {
+        setFormError("لا يمكن تغيير عملة دفعة مخصصة على فواتير؛ ألغِ تخصيصاتها أولاً.");
+        return;
+      }
+      if (amount < allocated - SETTLEMENT_EPSILON) {
+        setFormError(`المبلغ أقل من المخصص على الفواتير (${Number(allocated.toFixed(2))}).`);
+        return;
+      }
+    }
+    const payment: Payment = {
+      ...previous,
+      id: previous?.id || uid("pay"),
+      tenantId: tenant.id,
+      unitId: previous?.unitId || tenant.unitId,
+      date: form.date,
+      amount,
+      currency: form.currency,
+      period: form.period || undefined,
+      note: form.note.trim() || undefined,
+    };
+    const row = { date: payment.date, amount: payment.amount, currency: payment.currency, period: payment.period || null, note: payment.note || null };
+    // تُخصص الدفعة (أو الزيادة في مبلغها) تلقائياً على أقدم الفواتير المفتوحة، والباقي يبقى رصيداً دائناً
+    const payments = previous ? data.payments.map((p) => (p.id === payment.id ? payment : p)) : [payment, ...data.payments];
+    const allocations = autoAllocateTenant({ ...data, payments }, payment.tenantId, settings);
+    setData((d) => ({ ...(previous ? replaceRows(d, "payments", [payment]) : { ...d, payments: [payment, ...d.payments] }), allocations: [...allocations, ...d.allocations] }));
+    if (previous) {
+      enqueue("dbUpdatePayment", { label: "تعديل دفعة", rowIds: [payment.id], undo: { collection: "payments", rows: [previous] } }, payment.id, row);
+    } else {
+      // رقم الإيصال يخصصه الخادم ويصل عبر معالج نتائج الصندوق
+      enqueue("dbInsertPayment", { label: "تسجيل دفعة", rowIds: [payment.id] }, { id: payment.id, tenant_id: payment.tenantId, unit_id: payment.unitId, ...row });
+    }
+    enqueue("dbInsertAllocations", { label: "تخصيص دفعة", rowIds: [payment.id] }, allocations.map((a) => ({ id: a.id, payment_id: a.paymentId, invoice_id: a.invoiceId, amount: a.amount })));
+    resetForm();
+  }
+
+  async function addAllocation() {
+    const payment = data.payments.find((p) => p.id === allocForm.paymentId);
+    const invoice = data.invoices.find((i) => i.id === allocForm.invoiceId);
+    const amount = Number(allocForm.amount);
+    if (!payment || !invoice) {
+      setAllocError("اختر الفاتورة.");
+      return;
+    }
+    if (!(amount > 0)) {
+      setAllocError("المبلغ يجب أن يكون أكبر من صفر.");
+      return;
+    }
+    // المبلغ بعملة الدفعة، والمتبقي على الفاتورة بالعملة الرئيسية فيُحوّل بسعر يوم الدفعة
+    const unallocated = paymentUnallocated(data, payment);
+    if (amount > unallocated + SETTLEMENT_EPSILON) {
+      setAllocError(`المبلغ أكبر من غير المخصص من الدفعة (${Number(unallocated.toFixed(2))}).`);
+      return;
+    }
+    const outstandingBase = invoiceAmounts(invoice, settings).total - invoicePaidBase(data, invoice.id, settings);
+    if (convertToBaseOn(amount, payment.currency, payment.date, data.rates, settings) > outstandingBase + SETTLEMENT_EPSILON) {
+      setAllocError(`المبلغ أكبر من المتبقي على الفاتورة (${formatCurrency(Math.max(outstandingBase, 0), settings)}).`);
+      return;
+    }
+    setAllocError(null);
+    const alloc: PaymentAllocation = { id: uid("alloc"), paymentId: payment.id, invoiceId: allocForm.invoiceId, amount };
+    setData((d) => ({ ...d, allocations: [alloc, ...d.allocations] }));
+    enqueue("dbInsertAllocations", { label: "تخصيص دفعة", rowIds: [alloc.paymentId] }, [{ id: alloc.id, payment_id: alloc.paymentId, invoice_id: alloc.invoiceId, amount: alloc.amount }]);
+    setAllocForm((f) => ({ ...f, invoiceId: "", amount: "" }));
   }
 
-  async function removeUnit(id: string) {
-    setData((d) => ({
-      ...d,
-      units: d.units.filter((u) => u.id !== id),
-      tenants: d.tenants.filter((t) => t.unitId !== id),
-      utilities: d.utilities.filter((u) => u.unitId !== id),
-      invoices: d.invoices.filter((i) => i.unitId !== id),
-      payments: d.payments.filter((p) => p.unitId !== id),
-    }));
-    try { await dbDeleteUnit(id); } catch {}
+  async function removeAllocation(id: string) {
+    setData((d) => ({ ...d, allocations: d.allocations.filter((a) => a.id !== id) }));
+    enqueue("dbDeleteAllocation", { label: "إلغاء تخصيص", rowIds: [id] }, id);
+  }
+
+  const allocPayment = data.payments.find((p) => p.id === allocForm.paymentId);
+
+  // تصحيح تأمين سُجّل سابقاً كدفعة عادية: يُنقل إلى التأمينات ويُحذف من الدفعات
+  async function moveToDeposits(p: Payment) {
+    const deposit: DepositTransaction = { id: uid("dep"), tenantId: p.tenantId, unitId: p.unitId, date: p.date, kind: "received", amount: p.amount, currency: p.currency, note: p.note };
+    setData((d) => ({ ...d, deposits: [deposit, ...d.deposits] }));
+    enqueue("dbInsertDeposits", { label: "تسجيل تأمين", rowIds: [deposit.id] }, [depositToRow(deposit)]);
+    await removePayment(p.id);
+  }
+
+  // الإيصال المرقّم يُلغى ولا يُحذف، وتُفك تخصيصاته
+  async function removePayment(id: string) {
+    const payment = data.payments.find((p) => p.id === id);
+    if (payment?.number) {
+      const voidedAt = new Date().toISOString();
+      const freed = data.allocations.filter((a) => a.paymentId === id);
+      setData((d) => ({ ...d, payments: d.payments.map((p) => (p.id === id ? { ...p, voidedAt } : p)), allocations: d.allocations.filter((a) => a.paymentId !== id) }));
+      enqueue("dbVoidPayment", { label: "إلغاء إيصال", rowIds: [id] }, id, voidedAt);
+      freed.forEach((a) => enqueue("dbDeleteAllocation", { label: "فك تخصيص", rowIds: [id] }, a.id));
+      return;
+    }
+    setData((d) => ({ ...d, payments: d.payments.filter((p) => p.id !== id), allocations: d.allocations.filter((a) => a.paymentId !== id) }));
+    enqueue("dbDeletePayment", { label: "حذف دفعة", rowIds: [id] }, id);
   }
 
   return (
     <section className="space-y-6">
       <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
-        <h2 className="font-medium mb-4">إضافة وحدة جديدة</h2>
+        <h2 className="font-medium mb-4">{editingId ? "تعديل دفعة" : "إضافة دفعة"}</h2>
         <div className="grid grid-cols-1 sm:grid-cols-6 gap-3">
-          <input
-            placeholder="اسم الوحدة (مثال: شقة 3A)"
-            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-            value={form.name}
-            onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
-          />
           <select
-            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-            value={form.kind}
-            onChange={(e) => setForm((f) => ({ ...f, kind: e.target.value as UnitKind }))}
+            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.tenantId}
+            disabled={!!editingId}
+            onChange={(e) => setForm((f) => ({ ...f, tenantId: e.target.value }))}
           >
-            <option value="apartment">شقة (أجار شهري)</option>
-            <option value="shop">محل (أجار سنوي)</option>
+            <option value="">اختر المستأجر</option>
+            {data.tenants.filter((t) => !t.deletedAt || t.id === form.tenantId).map((t) => {
+              const unit = unitsById.get(t.unitId);
+              return (
+                <option key={t.id} value={t.id}>{t.name} — {unit?.name}</option>
+              );
+            })}
           </select>
+          <input
+            type="date"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.date}
+            onChange={(e) => setForm((f) => ({ ...f, date: e.target.value }))}
+          />
           <input
             type="number"
-            placeholder="قيمة الأجار"
+            placeholder="المبلغ"
             className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-            value={form.rentAmount}
-            onChange={(e) => setForm((f) => ({ ...f, rentAmount: e.target.value }))}
+            value={form.amount}
+            onChange={(e) => setForm((f) => ({ ...f, amount: e.target.value }))}
           />
           <select
-            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
-            value={form.rentCurrency}
-            onChange={(e) => setForm((f) => ({ ...f, rentCurrency: e.target.value as Currency }))}
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.currency}
+            onChange={(e) => setForm((f) => ({ ...f, currency: e.target.value as Currency }))}
           >
             <option value="JOD">دينار</option>
             <option value="ILS">شيكل</option>
           </select>
-          <button onClick={addUnit} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ</button>
+          <input
+            type="month"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.period}
+            onChange={(e) => setForm((f) => ({ ...f, period: e.target.value }))}
+          />
+          <input
+            placeholder="ملاحظة (اختياري)"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.note}
+            onChange={(e) => setForm((f) => ({ ...f, note: e.target.value }))}
+          />
+          <button onClick={savePayment} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ</button>
+        </div>
+        {editingId && (
+          <button onClick={resetForm} className="text-sm text-neutral-500 hover:underline mt-2">إلغاء التعديل</button>
+        )}
+        {formError && <p className="text-sm text-red-600 mt-2">{formError}</p>}
+      </div>
+
+      {allocPayment && (
+        <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+          <h2 className="font-medium mb-2">تخصيص دفعة {allocPayment.date} — {allocPayment.amount} {allocPayment.currency === "JOD" ? "دينار" : "شيكل"}</h2>
+          <p className="text-xs text-neutral-500 mb-3">غير مخصص: {Number(paymentUnallocated(data, allocPayment).toFixed(2))} {allocPayment.currency === "JOD" ? "دينار" : "شيكل"}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-5 gap-3">
+            <select
+              className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+              value={allocForm.invoiceId}
+              onChange={(e) => setAllocForm((f) => ({ ...f, invoiceId: e.target.value }))}
+            >
+              <option value="">اختر الفاتورة</option>
+              {data.invoices
+                .filter((i) => i.tenantId === allocPayment.tenantId && !i.voidedAt)
+                .map((i) => {
+                  const total = invoiceAmounts(i, settings).total;
+                  const status = invoiceStatus(total, invoicePaidBase(data, i.id, settings));
+                  return (
+                    <option key={i.id} value={i.id}>{i.scope === "monthly" ? i.period : `سنة ${i.period}`} — {formatCurrency(total, settings)} ({INVOICE_STATUS_LABELS[status]})</option>
+                  );
+                })}
+            </select>
+            <input
+              type="number"
+              placeholder="المبلغ بعملة الدفعة"
+              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+              value={allocForm.amount}
+              onChange={(e) => setAllocForm((f) => ({ ...f, amount: e.target.value }))}
+            />
+            <button onClick={addAllocation} className="rounded-md bg-blue-600 text-white px-4 py-2">تخصيص</button>
+            <button
+              onClick={() => {
+                setAllocForm({ paymentId: "", invoiceId: "", amount: "" });
+                setAllocError(null);
+              }}
+              className="rounded-md border px-4 py-2"
+            >
+              إغلاق
+            </button>
+          </div>
+          {allocError && <p className="text-sm text-red-600 mt-2">{allocError}</p>}
+          <ul className="mt-3 text-sm space-y-1">
+            {data.allocations
+              .filter((a) => a.paymentId === allocPayment.id)
+              .map((a) => {
+                const inv = data.invoices.find((i) => i.id === a.invoiceId);
+                return (
+                  <li key={a.id} className="flex gap-3">
+                    <span>{inv ? (inv.scope === "monthly" ? inv.period : `سنة ${inv.period}`) : "-"}</span>
+                    <span>{Number(a.amount.toFixed(2))} {allocPayment.currency === "JOD" ? "دينار" : "شيكل"}</span>
+                    <button className="text-red-600 hover:underline" onClick={() => removeAllocation(a.id)}>إلغاء</button>
+                  </li>
+                );
+              })}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-2 py-1 select-light"
+            value={listFilter.tenantId}
+            onChange={(e) => setListFilter((f) => ({ ...f, tenantId: e.target.value }))}
+          >
+            <option value="">كل المستأجرين</option>
+            {data.tenants.map((t) => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+          <span>من</span>
+          <input
+            type="date"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-2 py-1"
+            value={listFilter.from}
+            onChange={(e) => setListFilter((f) => ({ ...f, from: e.target.value }))}
+          />
+          <span>إلى</span>
+          <input
+            type="date"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-2 py-1"
+            value={listFilter.to}
+            onChange={(e) => setListFilter((f) => ({ ...f, to: e.target.value }))}
+          />
         </div>
+        <ExportButtons fileName="payments" sheetName="المدفوعات" build={exportPayments} />
       </div>
+      {printError && <p className="text-sm text-red-600">{printError}</p>}
 
       <div className="overflow-auto">
         <table className="min-w-full text-sm">
           <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
             <tr className="text-neutral-500">
-              <th className="py-2">الاسم</th>
-              <th className="py-2">النوع</th>
-              <th className="py-2">الأجار</th>
-              <th className="py-2">عدد المستأجرين</th>
+              <th className="py-2">الرقم</th>
+              <th className="py-2">التاريخ</th>
+              <th className="py-2">المستأجر</th>
+              <th className="py-2">الفترة</th>
+              <th className="py-2">المبلغ</th>
+              <th className="py-2">بالعملة الرئيسية</th>
+              <th className="py-2">غير مخصص</th>
               <th className="py-2">إجراءات</th>
             </tr>
           </thead>
           <tbody>
-            {data.units.map((u) => (
-              <tr key={u.id} className="border-b border-neutral-100 dark:border-neutral-900">
-                <td className="py-2">{u.name}</td>
-                <td className="py-2">{u.kind === "apartment" ? "شقة" : "محل"}</td>
-                <td className="py-2">{u.rentAmount} {u.rentCurrency === "JOD" ? "دينار" : "شيكل"}</td>
-                <td className="py-2">{(tenantsByUnit.get(u.id) || []).length}</td>
-                <td className="py-2">
-                  <button className="text-red-600 hover:underline" onClick={() => removeUnit(u.id)}>حذف</button>
-                </td>
-              </tr>
-            ))}
-            {data.units.length === 0 && (
+            {shownPayments.map((p) => {
+              const tenant = data.tenants.find((t) => t.id === p.tenantId);
+              const unit = tenant ? unitsById.get(tenant.unitId) : undefined;
+              const base = convertToBaseOn(p.amount, p.currency, p.date, data.rates, settings);
+              return (
+                <tr key={p.id} className={`border-b border-neutral-100 dark:border-neutral-900 ${p.voidedAt ? "line-through text-neutral-400" : ""}`}>
+                  <td className="py-2 whitespace-nowrap" dir="ltr">{p.number || "—"}</td>
+                  <td className="py-2">{p.date}<SyncBadge rowId={p.id} /></td>
+                  <td className="py-2">{tenant ? `${tenant.name} — ${unit?.name}` : "-"}</td>
+                  <td className="py-2">{p.period || "-"}</td>
+                  <td className="py-2">{p.amount} {p.currency === "JOD" ? "دينار" : "شيكل"}</td>
+                  <td className="py-2">{formatCurrency(base, settings)}</td>
+                  <td className="py-2">{Number(paymentUnallocated(data, p).toFixed(2))} {p.currency === "JOD" ? "دينار" : "شيكل"}</td>
+                  {p.voidedAt ? (
+                    <td className="py-2 flex gap-3">
+                      ملغى
+                      <button className="text-blue-600 hover:underline" onClick={() => printReceipt(p.id)}>إيصال</button>
+                    </td>
+                  ) : (
+                    <td className="py-2 flex gap-3">
+                      <button className="text-blue-600 hover:underline" onClick={() => editPayment(p)}>تعديل</button>
+                      <button className="text-blue-600 hover:underline" onClick={() => setAllocForm({ paymentId: p.id, invoiceId: "", amount: "" })}>تخصيص</button>
+                      <button className="text-blue-600 hover:underline" onClick={() => moveToDeposits(p)}>نقل للتأمينات</button>
+                      <button className="text-blue-600 hover:underline" onClick={() => printReceipt(p.id)}>إيصال</button>
+                      <button className="text-red-600 hover:underline" onClick={() => removePayment(p.id)}>{p.number ? "إلغاء" : "حذف"}</button>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+            {shownPayments.length === 0 && (
               <tr>
-                <td className="py-6 text-center text-neutral-500" colSpan={5}>لا توجد وحدات بعد</td>
+                <td className="py-6 text-center text-neutral-500" colSpan={8}>لا توجد مدفوعات</td>
               </tr>
             )}
           </tbody>
         </table>
+    </div>
+    </section>
+  );
+}
+
+function StatementTab({
+  data,
+  unitsById,
+  settings,
+}: {
+  data: AppData;
+  unitsById: Map<string, Unit>;
+  settings: Settings;
+}) {
+  const today = new Date().toISOString().slice(0, 10);
+  const [tenantId, setTenantId] = useState<string>("");
+  const [from, setFrom] = useState<string>(`${today.slice(0, 4)}-01-01`);
+  const [to, setTo] = useState<string>(today);
+
+  const statement = useMemo(
+    () => (tenantId ? buildTenantStatement(data, tenantId, from, to, settings) : null),
+    [data, tenantId, from, to, settings]
+  );
+
+  // الكشف برصيد جارٍ واحد، فيُصدّر بالعملة الرئيسية فقط
+  function exportStatement(): ExportTable {
+    if (!statement) return { headers: [], rows: [] };
+    const base = currencyName(settings.baseCurrency);
+    return {
+      headers: ["التاريخ", "البيان", `مدين (${base})`, `دائن (${base})`, `الرصيد (${base})`],
+      rows: [
+        [from, "رصيد افتتاحي", "", "", roundAmount(statement.openingBalance)],
+        ...statement.entries.map((e) => [e.date, e.description, e.debit ? roundAmount(e.debit) : "", e.credit ? roundAmount(e.credit) : "", roundAmount(e.balance)]),
+        [to, "رصيد ختامي", roundAmount(statement.totalDebit), roundAmount(statement.totalCredit), roundAmount(statement.closingBalance)],
+      ],
+    };
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <h2 className="font-medium mb-4">كشف حساب مستأجر</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+          <select
+            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={tenantId}
+            onChange={(e) => setTenantId(e.target.value)}
+          >
+            <option value="">اختر المستأجر</option>
+            {data.tenants.map((t) => {
+              const unit = unitsById.get(t.unitId);
+              return (
+                <option key={t.id} value={t.id}>{t.name} — {unit?.name}</option>
+              );
+            })}
+          </select>
+          <input
+            type="date"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+          />
+          <input
+            type="date"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+          />
+        </div>
+        <p className="text-xs text-neutral-500 mt-2">الفواتير تُسجّل مديناً بتاريخ بداية فترتها، والدفعات دائناً بتاريخها. الرصيد الموجب مستحق على المستأجر.</p>
+      </div>
+
+      {statement && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+            {[
+              { label: "الرصيد الافتتاحي", value: statement.openingBalance },
+              { label: "مجموع الفواتير", value: statement.totalDebit },
+              { label: "مجموع الدفعات", value: statement.totalCredit },
+              { label: "الرصيد الختامي", value: statement.closingBalance },
+            ].map((c) => (
+              <div key={c.label} className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+                <div className="text-sm text-neutral-500">{c.label}</div>
+                <div className="text-xl font-semibold mt-1">{formatCurrency(c.value, settings)}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <ExportButtons
+              fileName={`statement-${data.tenants.find((t) => t.id === tenantId)?.name || tenantId}`}
+              sheetName="كشف حساب"
+              build={exportStatement}
+              amountChoice={false}
+            />
+          </div>
+
+          <div className="overflow-auto">
+            <table className="min-w-full text-sm">
+              <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+                <tr className="text-neutral-500">
+                  <th className="py-2">التاريخ</th>
+                  <th className="py-2">البيان</th>
+                  <th className="py-2">مدين</th>
+                  <th className="py-2">دائن</th>
+                  <th className="py-2">الرصيد</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr className="border-b border-neutral-100 dark:border-neutral-900 text-neutral-500">
+                  <td className="py-2">{from || "-"}</td>
+                  <td className="py-2">رصيد افتتاحي</td>
+                  <td className="py-2">-</td>
+                  <td className="py-2">-</td>
+                  <td className="py-2">{formatCurrency(statement.openingBalance, settings)}</td>
+                </tr>
+                {statement.entries.map((e) => (
+                  <tr key={e.id} className="border-b border-neutral-100 dark:border-neutral-900">
+                    <td className="py-2">{e.date}</td>
+                    <td className="py-2">{e.description}</td>
+                    <td className="py-2">{e.debit ? formatCurrency(e.debit, settings) : "-"}</td>
+                    <td className="py-2">{e.credit ? formatCurrency(e.credit, settings) : "-"}</td>
+                    <td className="py-2 font-medium">{formatCurrency(e.balance, settings)}</td>
+                  </tr>
+                ))}
+                {statement.entries.length === 0 && (
+                  <tr>
+                    <td className="py-6 text-center text-neutral-500" colSpan={5}>لا توجد حركات في هذه الفترة</td>
+                  </tr>
+                )}
+                <tr className="font-medium">
+                  <td className="py-2">{to || "-"}</td>
+                  <td className="py-2">رصيد ختامي</td>
+                  <td className="py-2">{formatCurrency(statement.totalDebit, settings)}</td>
+                  <td className="py-2">{formatCurrency(statement.totalCredit, settings)}</td>
+                  <td className="py-2">{formatCurrency(statement.closingBalance, settings)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
+
+function ReportsTab({ data, settings }: { data: AppData; settings: Settings }) {
+  const today = new Date().toISOString().slice(0, 10);
+  const [filter, setFilter] = useState<ReportFilter>({ from: `${today.slice(0, 4)}-01-01`, to: today, unitId: "" });
+  const [grouping, setGrouping] = useState<"months" | "years">("months");
+
+  const report = useMemo(() => buildFinancialReport(data, filter, settings), [data, filter, settings]);
+  const base = currencyName(settings.baseCurrency);
+  const periods = report[grouping];
+
+  function exportPeriods(): ExportTable {
+    return {
+      headers: [grouping === "months" ? "الشهر" : "السنة", `الأجار (${base})`, `المرافق (${base})`, `المفوتر (${base})`, `المحصّل (${base})`, `الفرق (${base})`],
+      rows: periods.map((p) => [p.key, roundAmount(p.rent), roundAmount(p.utilities), roundAmount(p.invoiced), roundAmount(p.collected), roundAmount(p.invoiced - p.collected)]),
+    };
+  }
+
+  function exportAging(): ExportTable {
+    return {
+      headers: ["المستأجر", "الوحدة", ...AGING_BUCKETS.map((b) => `${b} (${base})`), `الإجمالي (${base})`],
+      rows: report.aging.map((r) => {
+        const tenant = data.tenants.find((t) => t.id === r.tenantId);
+        return [tenant?.name || "", data.units.find((u) => u.id === tenant?.unitId)?.name || "", ...r.buckets.map(roundAmount), roundAmount(r.total)];
+      }),
+    };
+  }
+
+  const unitName = (unitId: string | null) => (unitId === null ? "مصاريف عامة للمبنى" : data.units.find((u) => u.id === unitId)?.name || "-");
+
+  function exportNoi(): ExportTable {
+    return {
+      headers: ["الوحدة", `المفوتر (${base})`, `المحصّل (${base})`, `المصاريف (${base})`, `صافي الدخل التشغيلي (${base})`],
+      rows: [
+        ...report.noi.map((r) => [unitName(r.unitId), roundAmount(r.invoiced), roundAmount(r.collected), roundAmount(r.expenses), roundAmount(r.invoiced - r.expenses)]),
+        [filter.unitId ? "الإجمالي" : "المبنى", roundAmount(report.invoiced), roundAmount(report.collected), roundAmount(report.expenses), roundAmount(report.invoiced - report.expenses)],
+      ],
+    };
+  }
+
+  // الدخل حسب العملة المستلمة فعلاً له وجهان: المبلغ الأصلي أو ما يعادله
+  function exportIncome(mode: AmountMode): ExportTable {
+    return {
+      headers: ["البند", mode === "original" ? "المبلغ" : `المبلغ (${base})`, ...(mode === "original" ? ["العملة"] : [])],
+      rows: [
+        ...(["apartment", "shop"] as UnitKind[]).map((k) => [k === "apartment" ? "الشقق" : "المحلات", roundAmount(report.byKind[k]), ...(mode === "original" ? [base] : [])]),
+        ...(["JOD", "ILS"] as Currency[]).map((c) => [
+          `مستلم ب${currencyName(c)}`,
+          roundAmount(mode === "original" ? report.byCurrency[c].amount : report.byCurrency[c].base),
+          ...(mode === "original" ? [currencyName(c)] : []),
+        ]),
+      ],
+    };
+  }
+
+  return (
+    <section className="space-y-6">
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <h2 className="font-medium mb-4">التقارير المالية</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+          <select
+            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={filter.unitId}
+            onChange={(e) => setFilter((f) => ({ ...f, unitId: e.target.value }))}
+          >
+            <option value="">كل الوحدات</option>
+            {data.units.map((u) => (
+              <option key={u.id} value={u.id}>{u.name}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={filter.from}
+            onChange={(e) => setFilter((f) => ({ ...f, from: e.target.value }))}
+          />
+          <input
+            type="date"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={filter.to}
+            onChange={(e) => setFilter((f) => ({ ...f, to: e.target.value }))}
+          />
+        </div>
+        <p className="text-xs text-neutral-500 mt-2">المبالغ بالعملة الرئيسية. الفواتير بتاريخ بداية فترتها والدفعات بتاريخها؛ الملغاة والتأمينات غير محسوبة. أعمار الذمم تشمل كل فاتورة غير مسددة حتى تاريخ النهاية ولو سبقت البداية، وتحتسب الدفعات حتى ذلك التاريخ فقط.</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+        {[
+          { label: "المفوتر", value: formatCurrency(report.invoiced, settings) },
+          { label: "المحصّل", value: formatCurrency(report.collected, settings) },
+          { label: "المسدد من فواتير المدى", value: formatCurrency(report.paidOnInvoiced, settings) },
+          { label: "نسبة التحصيل", value: report.collectionRate === null ? "-" : `${(report.collectionRate * 100).toFixed(1)}%` },
+        ].map((c) => (
+          <div key={c.label} className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+            <div className="text-sm text-neutral-500">{c.label}</div>
+            <div className="text-xl font-semibold mt-1">{c.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+          <div className="flex items-center gap-3">
+            <h2 className="font-medium">المفوتر مقابل المحصّل</h2>
+            <select
+              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-2 py-1 text-sm select-light"
+              value={grouping}
+              onChange={(e) => setGrouping(e.target.value as "months" | "years")}
+            >
+              <option value="months">شهري</option>
+              <option value="years">سنوي</option>
+            </select>
+          </div>
+          <ExportButtons fileName={`invoiced-vs-collected-${grouping}`} sheetName="المفوتر والمحصل" build={exportPeriods} amountChoice={false} />
+        </div>
+        <div className="overflow-auto">
+          <table className="min-w-full text-sm">
+              <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+              <tr className="text-neutral-500">
+                <th className="py-2">{grouping === "months" ? "الشهر" : "السنة"}</th>
+                <th className="py-2">الأجار</th>
+                <th className="py-2">المرافق</th>
+                <th className="py-2">المفوتر</th>
+                <th className="py-2">المحصّل</th>
+                <th className="py-2">الفرق</th>
+              </tr>
+            </thead>
+            <tbody>
+              {periods.map((p) => (
+                <tr key={p.key} className="border-b border-neutral-100 dark:border-neutral-900">
+                  <td className="py-2">{p.key}</td>
+                  <td className="py-2">{formatCurrency(p.rent, settings)}</td>
+                  <td className="py-2">{formatCurrency(p.utilities, settings)}</td>
+                  <td className="py-2">{formatCurrency(p.invoiced, settings)}</td>
+                  <td className="py-2">{formatCurrency(p.collected, settings)}</td>
+                  <td className={`py-2 ${p.invoiced - p.collected > SETTLEMENT_EPSILON ? "text-red-600" : ""}`}>{formatCurrency(p.invoiced - p.collected, settings)}</td>
+                </tr>
+              ))}
+              {periods.length === 0 && (
+                <tr>
+                  <td className="py-6 text-center text-neutral-500" colSpan={6}>لا توجد حركات في هذا المدى</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+          <h2 className="font-medium">أعمار الذمم حسب المستأجر</h2>
+          <ExportButtons fileName="arrears-aging" sheetName="أعمار الذمم" build={exportAging} amountChoice={false} />
+        </div>
+        <div className="overflow-auto">
+          <table className="min-w-full text-sm">
+              <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+              <tr className="text-neutral-500">
+                <th className="py-2">المستأجر</th>
+                {AGING_BUCKETS.map((b) => (
+                  <th key={b} className="py-2">{b}</th>
+                ))}
+                <th className="py-2">الإجمالي</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.aging.map((r) => (
+                <tr key={r.tenantId} className="border-b border-neutral-100 dark:border-neutral-900">
+                  <td className="py-2">{data.tenants.find((t) => t.id === r.tenantId)?.name || "-"}</td>
+                  {r.buckets.map((amount, i) => (
+                    <td key={i} className={`py-2 ${i === 3 && amount > 0 ? "text-red-600" : ""}`}>{amount > 0 ? formatCurrency(amount, settings) : "-"}</td>
+                  ))}
+                  <td className="py-2 font-medium">{formatCurrency(r.total, settings)}</td>
+                </tr>
+              ))}
+              {report.aging.length === 0 && (
+                <tr>
+                  <td className="py-6 text-center text-neutral-500" colSpan={6}>لا توجد ذمم متأخرة</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+          <h2 className="font-medium">صافي الدخل التشغيلي</h2>
+          <ExportButtons fileName="net-operating-income" sheetName="صافي الدخل" build={exportNoi} amountChoice={false} />
+        </div>
+        <div className="overflow-auto">
+          <table className="min-w-full text-sm">
+            <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+              <tr className="text-neutral-500">
+                <th className="py-2">الوحدة</th>
+                <th className="py-2">المفوتر</th>
+                <th className="py-2">المحصّل</th>
+                <th className="py-2">المصاريف</th>
+                <th className="py-2">صافي الدخل التشغيلي</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.noi.map((r) => (
+                <tr key={r.unitId ?? "building"} className="border-b border-neutral-100 dark:border-neutral-900">
+                  <td className="py-2">{unitName(r.unitId)}</td>
+                  <td className="py-2">{formatCurrency(r.invoiced, settings)}</td>
+                  <td className="py-2">{formatCurrency(r.collected, settings)}</td>
+                  <td className="py-2">{formatCurrency(r.expenses, settings)}</td>
+                  <td className={`py-2 ${r.invoiced - r.expenses < 0 ? "text-red-600" : ""}`}>{formatCurrency(r.invoiced - r.expenses, settings)}</td>
+                </tr>
+              ))}
+              <tr className="font-medium">
+                <td className="py-2">{filter.unitId ? "الإجمالي" : "المبنى"}</td>
+                <td className="py-2">{formatCurrency(report.invoiced, settings)}</td>
+                <td className="py-2">{formatCurrency(report.collected, settings)}</td>
+                <td className="py-2">{formatCurrency(report.expenses, settings)}</td>
+                <td className={`py-2 ${report.invoiced - report.expenses < 0 ? "text-red-600" : ""}`}>{formatCurrency(report.invoiced - report.expenses, settings)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-neutral-500 mt-2">الصافي = المفوتر − المصاريف. المصاريف المتكررة تُحسب عن كل شهر/سنة داخل المدى.</p>
+      </div>
+
+      <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+          <h2 className="font-medium">الدخل المحصّل حسب نوع الوحدة والعملة</h2>
+          <ExportButtons fileName="income-breakdown" sheetName="تفصيل الدخل" build={exportIncome} />
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+          <div>
+            <div className="text-sm text-neutral-500">الشقق</div>
+            <div className="text-lg font-semibold mt-1">{formatCurrency(report.byKind.apartment, settings)}</div>
+          </div>
+          <div>
+            <div className="text-sm text-neutral-500">المحلات</div>
+            <div className="text-lg font-semibold mt-1">{formatCurrency(report.byKind.shop, settings)}</div>
+          </div>
+          {(["JOD", "ILS"] as Currency[]).map((c) => (
+            <div key={c}>
+              <div className="text-sm text-neutral-500">مستلم ب{currencyName(c)}</div>
+              <div className="text-lg font-semibold mt-1">{roundAmount(report.byCurrency[c].amount)} {currencyName(c)}</div>
+              <div className="text-xs text-neutral-500">يعادل {formatCurrency(report.byCurrency[c].base, settings)}</div>
+            </div>
+          ))}
+        </div>
       </div>
     </section>
   );
 }
 
-function TenantsTab({
+function DepositsTab({
   data,
   setData,
   unitsById,
+  settings,
 }: {
   data: AppData;
   setData: React.Dispatch<React.SetStateAction<AppData>>;
   unitsById: Map<string, Unit>;
+  settings: Settings;
 }) {
-  const [form, setForm] = useState<{ name: string; phone: string; unitId: string; startDate: string; active: boolean }>(
-    { name: "", phone: "", unitId: "", startDate: new Date().toISOString().slice(0, 10), active: true }
+  const today = new Date().toISOString().slice(0, 10);
+  const [form, setForm] = useState<{ tenantId: string; date: string; amount: string; currency: Currency; note: string }>(
+    { tenantId: "", date: today, amount: "", currency: "JOD", note: "" }
+  );
+  const [settle, setSettle] = useState<{ tenantId: string; date: string; currency: Currency; damages: Array<{ reason: string; amount: string }> }>(
+    { tenantId: "", date: today, currency: "JOD", damages: [] }
   );
 
-  async function addTenant() {
-    if (!form.name || !form.unitId) return;
-    const tenant: Tenant = {
-      id: uid("tenant"),
-      name: form.name.trim(),
-      phone: form.phone.trim() || undefined,
-      unitId: form.unitId,
-      startDate: form.startDate,
-      active: form.active,
+  const [settleError, setSettleError] = useState<string | null>(null);
+  const [settling, setSettling] = useState(false);
+  const [editingId, setEditingId] = useState<string>("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // الخصم المرتبط بدفعة تسوية لا يُعدّل وحده لأن الدفعة سددت فواتير بمبلغه
+  function editDeposit(x: DepositTransaction) {
+    setEditingId(x.id);
+    setFormError(null);
+    setForm({ tenantId: x.tenantId, date: x.date, amount: String(x.amount), currency: x.currency, note: x.note || "" });
+  }
+
+  function resetForm() {
+    setEditingId("");
+    setFormError(null);
+    setForm({ tenantId: "", date: today, amount: "", currency: form.currency, note: "" });
+  }
+
+  async function saveDeposit() {
+    const tenant = data.tenants.find((t) => t.id === form.tenantId);
+    const amount = Number(form.amount);
+    if (!tenant || !form.date) {
+      setFormError("المستأجر والتاريخ مطلوبان.");
+      return;
+    }
+    if (!(amount > 0)) {
+      setFormError("المبلغ يجب أن يكون أكبر من صفر.");
+      return;
+    }
+    const previous = data.deposits.find((x) => x.id === editingId);
+    const deposit: DepositTransaction = {
+      ...previous,
+      id: previous?.id || uid("dep"),
+      tenantId: tenant.id,
+      unitId: previous?.unitId || tenant.unitId,
+      date: form.date,
+      kind: previous?.kind || "received",
+      amount,
+      currency: form.currency,
+      note: form.note.trim() || undefined,
     };
-    setData((d) => ({ ...d, tenants: [tenant, ...d.tenants] }));
-    try {
-      await dbInsertTenant({ id: tenant.id, name: tenant.name, phone: tenant.phone || null, unit_id: tenant.unitId, start_date: tenant.startDate, active: tenant.active });
-    } catch {}
-    setForm({ name: "", phone: "", unitId: "", startDate: new Date().toISOString().slice(0, 10), active: true });
+    if (previous) {
+      setData((d) => replaceRows(d, "deposits", [deposit]));
+      enqueue("dbUpdateDeposit", { label: "تعديل حركة تأمين", rowIds: [deposit.id], undo: { collection: "deposits", rows: [previous] } }, deposit.id, {
+        date: deposit.date,
+        amount: deposit.amount,
+        currency: deposit.currency,
+        note: deposit.note || null,
+      });
+    } else {
+      setData((d) => ({ ...d, deposits: [deposit, ...d.deposits] }));
+      enqueue("dbInsertDeposits", { label: "تسجيل تأمين", rowIds: [deposit.id] }, [depositToRow(deposit)]);
+    }
+    resetForm();
   }
 
-  async function toggleActive(id: string) {
-    setData((d) => ({
-      ...d,
-      tenants: d.tenants.map((t) => (t.id === id ? { ...t, active: !t.active } : t)),
-    }));
-    const next = !(data.tenants.find((t) => t.id === id)?.active ?? true);
-    try { await dbToggleTenantActive(id, next); } catch {}
+  async function removeDeposit(id: string) {
+    setData((d) => ({ ...d, deposits: d.deposits.filter((x) => x.id !== id) }));
+    enqueue("dbDeleteDeposit", { label: "حذف حركة تأمين", rowIds: [id] }, id);
   }
 
-  async function removeTenant(id: string) {
-    setData((d) => ({
-      ...d,
-      tenants: d.tenants.filter((t) => t.id !== id),
-      invoices: d.invoices.filter((i) => i.tenantId !== id),
-      payments: d.payments.filter((p) => p.tenantId !== id),
-    }));
-    try { await dbDeleteTenant(id); } catch {}
+  // تسوية المغادرة بعملة التسوية: المحتجز − الأضرار − الرصيد غير المدفوع = المبلغ المسترد
+  // المحتجز هو رصيد التأمين بعملة التسوية وحدها؛ تأمين بعملتين يُسوّى بتسوية لكل عملة
+  // الخصم من التأمين لا يتجاوز المحتجز؛ ما زاد من الأضرار يُحمّل على المستأجر كرسوم في أول فترة لم تُفوتر
+  const settleTenant = data.tenants.find((t) => t.id === settle.tenantId);
+  const settleBalances = settleTenant ? depositBalances(data, settleTenant.id) : { JOD: 0, ILS: 0 };
+  const settlement = useMemo(() => {
+    if (!settleTenant) return null;
+    const held = Math.max(0, depositBalances(data, settleTenant.id)[settle.currency]);
+    const damages = settle.damages.reduce((acc, d) => acc + (Number(d.amount) || 0), 0);
+    const damagesCovered = Math.min(damages, held);
+    const damagesExcess = damages - damagesCovered;
+    const balanceBase = buildTenantStatement(data, settleTenant.id, "", settle.date, settings).closingBalance;
+    const unpaid = Math.max(0, convertFromBase(balanceBase, settle.currency, settings));
+    const available = held - damagesCovered;
+    const unpaidCovered = Math.min(unpaid, available);
+    return {
+      held,
+      damages,
+      damagesCovered,
+      damagesExcess,
+      chargePeriod: nextUninvoicedPeriod(data, settleTenant.unitId, settle.date.slice(0, 7), settleTenant.id),
+      unpaid,
+      unpaidCovered,
+      refund: available - unpaidCovered,
+      stillOwed: unpaid - unpaidCovered + damagesExcess,
+    };
+  }, [data, settleTenant, settle, settings]);
+
+  // التسوية تبدأ بعملة التأمين المحتجز
+  function startSettlement(t: Tenant) {
+    const balances = depositBalances(data, t.id);
+    const held = (["JOD", "ILS"] as Currency[]).filter((c) => balances[c] > SETTLEMENT_EPSILON);
+    setSettleError(null);
+    setSettle({ tenantId: t.id, date: t.endDate || today, currency: held.includes(settle.currency) ? settle.currency : held[0] ?? settle.currency, damages: [] });
+  }
+
+  // الدفعة وتخصيصاتها وحركات التأمين وبند الأضرار تُحفظ معاً في معاملة واحدة (settle_deposit)، ثم تظهر محلياً
+  async function applySettlement() {
+    if (!settleTenant || !settlement || settling) return;
+    setSettleError(null);
+    setSettling(true);
+    try {
+      await flushPendingWrites();
+      const base = { tenantId: settleTenant.id, unitId: settleTenant.unitId, date: settle.date, currency: settle.currency };
+      let heldLeft = settlement.held;
+      const deposits: DepositTransaction[] = settle.damages
+        .filter((d) => Number(d.amount) > 0)
+        .flatMap((d) => {
+          const amount = Math.min(Number(d.amount), heldLeft);
+          heldLeft -= amount;
+          return amount > SETTLEMENT_EPSILON ? [{ ...base, id: uid("dep"), kind: "deduction" as const, amount, note: d.reason.trim() || "أضرار" }] : [];
+        });
+      const charge: UtilityCharge | null =
+        settlement.damagesExcess > SETTLEMENT_EPSILON
+          ? { id: uid("util"), unitId: base.unitId, period: settlement.chargePeriod, type: "damages", amount: roundAmount(settlement.damagesExcess), currency: base.currency, tenantId: base.tenantId }
+          : null;
+      let payment: Payment | null = null;
+      let allocations: PaymentAllocation[] = [];
+      if (settlement.unpaidCovered > SETTLEMENT_EPSILON) {
+        // الخصم مقابل الرصيد غير المدفوع يسدد الفواتير فعلاً، فيُسجّل كدفعة مصدرها التأمين
+        payment = { id: uid("pay"), tenantId: base.tenantId, unitId: base.unitId, date: base.date, amount: settlement.unpaidCovered, currency: base.currency, note: "تسوية من التأمين" };
+        allocations = autoAllocateTenant({ ...data, payments: [payment, ...data.payments] }, settleTenant.id, settings);
+        deposits.push({ ...base, id: uid("dep"), kind: "deduction", amount: settlement.unpaidCovered, note: "رصيد غير مدفوع", paymentId: payment.id });
+      }
+      if (settlement.refund > SETTLEMENT_EPSILON) {
+        deposits.push({ ...base, id: uid("dep"), kind: "refund", amount: settlement.refund, note: "إرجاع التأمين" });
+      }
+      const number = await dbSettleDeposit({
+        payment: payment && { id: payment.id, tenant_id: payment.tenantId, unit_id: payment.unitId, date: payment.date, amount: payment.amount, currency: payment.currency, period: null, note: payment.note || null },
+        allocations: allocations.map((a) => ({ id: a.id, payment_id: a.paymentId, invoice_id: a.invoiceId, amount: a.amount })),
+        deposits: deposits.map(depositToRow),
+        utility: charge && { id: charge.id, unit_id: charge.unitId, period: charge.period, type: charge.type, amount: charge.amount, currency: charge.currency, reading_id: null, bill_id: null, tenant_id: base.tenantId },
+      });
+      const newPayment = payment && { ...payment, number: number ?? undefined };
+      setData((d) => ({
+        ...d,
+        deposits: [...deposits, ...d.deposits],
+        payments: newPayment ? [newPayment, ...d.payments] : d.payments,
+        allocations: [...allocations, ...d.allocations],
+        utilities: charge ? [charge, ...d.utilities] : d.utilities,
+      }));
+      setSettle({ tenantId: "", date: today, currency: settle.currency, damages: [] });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : (err as { message?: string })?.message;
+      setSettleError(`فشل حفظ التسوية: ${message || "خطأ غير معروف"}`);
+    } finally {
+      setSettling(false);
+    }
   }
 
+  const currencyLabel = (c: Currency) => (c === "JOD" ? "دينار" : "شيكل");
+  const kindLabel = { received: "استلام", deduction: "خصم", refund: "إرجاع" } as const;
+  const fmt = (n: number) => new Intl.NumberFormat("ar-JO", { maximumFractionDigits: 2 }).format(n);
+
   return (
     <section className="space-y-6">
       <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
-        <h2 className="font-medium mb-4">إضافة مستأجر</h2>
+        <h2 className="font-medium mb-4">{editingId ? "تعديل حركة تأمين" : "استلام تأمين"}</h2>
         <div className="grid grid-cols-1 sm:grid-cols-6 gap-3">
+          <select
+            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.tenantId}
+            disabled={!!editingId}
+            onChange={(e) => setForm((f) => ({ ...f, tenantId: e.target.value }))}
+          >
+            <option value="">اختر المستأجر</option>
+            {data.tenants.filter((t) => !t.deletedAt || t.id === form.tenantId).map((t) => (
+              <option key={t.id} value={t.id}>{t.name} — {unitsById.get(t.unitId)?.name}</option>
+            ))}
+          </select>
           <input
-            placeholder="الاسم"
+            type="date"
             className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-            value={form.name}
-            onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+            value={form.date}
+            onChange={(e) => setForm((f) => ({ ...f, date: e.target.value }))}
           />
           <input
-            placeholder="رقم الهاتف"
+            type="number"
+            placeholder="المبلغ"
             className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-            value={form.phone}
-            onChange={(e) => setForm((f) => ({ ...f, phone: e.target.value }))}
+            value={form.amount}
+            onChange={(e) => setForm((f) => ({ ...f, amount: e.target.value }))}
           />
           <select
-            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-            value={form.unitId}
-            onChange={(e) => setForm((f) => ({ ...f, unitId: e.target.value }))}
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.currency}
+            onChange={(e) => setForm((f) => ({ ...f, currency: e.target.value as Currency }))}
           >
-            <option value="">اختر الوحدة</option>
-            {data.units.map((u) => (
-              <option key={u.id} value={u.id}>{u.name}</option>
-            ))}
+            <option value="JOD">دينار</option>
+            <option value="ILS">شيكل</option>
           </select>
-          <input
-            type="date"
-            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-            value={form.startDate}
-            onChange={(e) => setForm((f) => ({ ...f, startDate: e.target.value }))}
-          />
-          <label className="flex items-center gap-2 text-sm">
-            <input type="checkbox" checked={form.active} onChange={(e) => setForm((f) => ({ ...f, active: e.target.checked }))} />
-            نشط
-          </label>
-          <button onClick={addTenant} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ</button>
+          <button onClick={saveDeposit} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ</button>
         </div>
+        {editingId && (
+          <button onClick={resetForm} className="text-sm text-neutral-500 hover:underline mt-2">إلغاء التعديل</button>
+        )}
+        {formError && <p className="text-sm text-red-600 mt-2">{formError}</p>}
+        <p className="text-xs text-neutral-500 mt-2">التأمين التزام مستحق للمستأجر ولا يُحتسب ضمن الدخل أو الدفعات.</p>
       </div>
 
       <div className="overflow-auto">
         <table className="min-w-full text-sm">
           <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
             <tr className="text-neutral-500">
-              <th className="py-2">الاسم</th>
-              <th className="py-2">الوحدة</th>
-              <th className="py-2">تاريخ البدء</th>
-              <th className="py-2">الحالة</th>
+              <th className="py-2">المستأجر</th>
+              <th className="py-2">التأمين المحتجز</th>
               <th className="py-2">إجراءات</th>
             </tr>
           </thead>
           <tbody>
-            {data.tenants.map((t) => (
-              <tr key={t.id} className="border-b border-neutral-100 dark:border-neutral-900">
-                <td className="py-2">{t.name}</td>
-                <td className="py-2">{unitsById.get(t.unitId)?.name || "-"}</td>
-                <td className="py-2">{t.startDate}</td>
-                <td className="py-2">{t.active ? "نشط" : "متوقف"}</td>
+            {data.tenants
+              .filter((t) => data.deposits.some((x) => x.tenantId === t.id))
+              .map((t) => (
+                <tr key={t.id} className="border-b border-neutral-100 dark:border-neutral-900">
+                  <td className="py-2">{t.name} — {unitsById.get(t.unitId)?.name}</td>
+                  <td className="py-2">{formatBalances(depositBalances(data, t.id))}</td>
+                  <td className="py-2">
+                    <button className="text-blue-600 hover:underline" onClick={() => startSettlement(t)}>تسوية المغادرة</button>
+                  </td>
+                </tr>
+              ))}
+            {data.deposits.length === 0 && (
+              <tr>
+                <td className="py-6 text-center text-neutral-500" colSpan={3}>لا توجد تأمينات</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {settleTenant && settlement && (
+        <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+          <h2 className="font-medium mb-4">تسوية تأمين — {settleTenant.name}</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 mb-3">
+            <input
+              type="date"
+              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+              value={settle.date}
+              onChange={(e) => setSettle((s) => ({ ...s, date: e.target.value }))}
+            />
+            <select
+              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+              value={settle.currency}
+              onChange={(e) => setSettle((s) => ({ ...s, currency: e.target.value as Currency }))}
+            >
+              <option value="JOD">التسوية بالدينار</option>
+              <option value="ILS">التسوية بالشيكل</option>
+            </select>
+            <button onClick={() => setSettle((s) => ({ ...s, damages: [...s.damages, { reason: "", amount: "" }] }))} className="rounded-md border px-4 py-2">إضافة خصم أضرار</button>
+          </div>
+          {settle.damages.map((d, idx) => (
+            <div key={idx} className="grid grid-cols-1 sm:grid-cols-4 gap-3 mb-2">
+              <input
+                placeholder="السبب"
+                className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+                value={d.reason}
+                onChange={(e) => setSettle((s) => ({ ...s, damages: s.damages.map((x, i) => (i === idx ? { ...x, reason: e.target.value } : x)) }))}
+              />
+              <input
+                type="number"
+                placeholder="المبلغ"
+                className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+                value={d.amount}
+                onChange={(e) => setSettle((s) => ({ ...s, damages: s.damages.map((x, i) => (i === idx ? { ...x, amount: e.target.value } : x)) }))}
+              />
+              <button className="text-red-600 hover:underline" onClick={() => setSettle((s) => ({ ...s, damages: s.damages.filter((_, i) => i !== idx) }))}>إزالة</button>
+            </div>
+          ))}
+          <table className="min-w-full text-sm mt-3">
+            <tbody>
+              <tr className="border-b border-neutral-100 dark:border-neutral-900"><td className="py-2">التأمين المحتجز</td><td className="py-2">{fmt(settlement.held)} {currencyLabel(settle.currency)}</td></tr>
+              <tr className="border-b border-neutral-100 dark:border-neutral-900"><td className="py-2">خصم الأضرار</td><td className="py-2">− {fmt(settlement.damagesCovered)} {currencyLabel(settle.currency)}</td></tr>
+              <tr className="border-b border-neutral-100 dark:border-neutral-900"><td className="py-2">رصيد غير مدفوع حتى {settle.date}</td><td className="py-2">− {fmt(settlement.unpaidCovered)} {currencyLabel(settle.currency)}</td></tr>
+              <tr className="font-medium"><td className="py-2">المبلغ المسترد للمستأجر</td><td className="py-2">{fmt(settlement.refund)} {currencyLabel(settle.currency)}</td></tr>
+              {settlement.damagesExcess > SETTLEMENT_EPSILON && (
+                <tr className="text-red-600"><td className="py-2">أضرار تتجاوز التأمين (تُحمّل على فاتورة {settlement.chargePeriod})</td><td className="py-2">{fmt(settlement.damagesExcess)} {currencyLabel(settle.currency)}</td></tr>
+              )}
+              {settlement.stillOwed > SETTLEMENT_EPSILON && (
+                <tr className="text-red-600"><td className="py-2">متبقٍ على المستأجر بعد التأمين</td><td className="py-2">{fmt(settlement.stillOwed)} {currencyLabel(settle.currency)}</td></tr>
+              )}
+            </tbody>
+          </table>
+          {(["JOD", "ILS"] as Currency[])
+            .filter((c) => c !== settle.currency && settleBalances[c] > SETTLEMENT_EPSILON)
+            .map((c) => (
+              <p key={c} className="text-sm text-amber-600 mt-2">يبقى تأمين محتجز بال{currencyLabel(c)} ({fmt(settleBalances[c])}): يُسوّى بتسوية ثانية بتلك العملة.</p>
+            ))}
+          {settleError && <p className="text-sm text-red-600 mt-2">{settleError}</p>}
+          <div className="flex gap-3 mt-3">
+            <button onClick={applySettlement} disabled={settling} className="rounded-md bg-emerald-600 text-white px-4 py-2 disabled:opacity-60">
+              {settling ? "جارٍ الحفظ..." : "اعتماد التسوية"}
+            </button>
+            <button onClick={() => setSettle((s) => ({ ...s, tenantId: "", damages: [] }))} className="rounded-md border px-4 py-2">إلغاء</button>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-auto">
+        <table className="min-w-full text-sm">
+          <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+            <tr className="text-neutral-500">
+              <th className="py-2">التاريخ</th>
+              <th className="py-2">المستأجر</th>
+              <th className="py-2">الحركة</th>
+              <th className="py-2">المبلغ</th>
+              <th className="py-2">ملاحظة</th>
+              <th className="py-2">إجراءات</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.deposits.map((x) => (
+              <tr key={x.id} className="border-b border-neutral-100 dark:border-neutral-900">
+                <td className="py-2">{x.date}<SyncBadge rowId={x.id} /></td>
+                <td className="py-2">{data.tenants.find((t) => t.id === x.tenantId)?.name || "-"}</td>
+                <td className="py-2">{kindLabel[x.kind]}</td>
+                <td className="py-2">{x.amount} {currencyLabel(x.currency)}</td>
+                <td className="py-2">{x.note || "-"}</td>
                 <td className="py-2 flex gap-3">
-                  <button className="text-blue-600 hover:underline" onClick={() => toggleActive(t.id)}>{t.active ? "إيقاف" : "تنشيط"}</button>
-                  <button className="text-red-600 hover:underline" onClick={() => removeTenant(t.id)}>حذف</button>
+                  {!x.paymentId && <button className="text-blue-600 hover:underline" onClick={() => editDeposit(x)}>تعديل</button>}
+                  <button className="text-red-600 hover:underline" onClick={() => removeDeposit(x.id)}>حذف</button>
                 </td>
               </tr>
             ))}
-            {data.tenants.length === 0 && (
-              <tr>
-                <td className="py-6 text-center text-neutral-500" colSpan={5}>لا يوجد مستأجرون</td>
-              </tr>
-            )}
           </tbody>
         </table>
       </div>
@@ -749,7 +5898,7 @@ function TenantsTab({
   );
 }
 
-function UtilitiesTab({
+function ExpensesTab({
   data,
   setData,
   unitsById,
@@ -760,58 +5909,168 @@ function UtilitiesTab({
   unitsById: Map<string, Unit>;
   settings: Settings;
 }) {
-  const [form, setForm] = useState<{ unitId: string; period: string; type: UtilityType; amount: string; currency: Currency }>(
-    { unitId: "", period: new Date().toISOString().slice(0, 7), type: "water", amount: "", currency: "JOD" }
+  const today = new Date().toISOString().slice(0, 10);
+  const [form, setForm] = useState<{ date: string; category: ExpenseCategory; amount: string; currency: Currency; unitId: string; recurrence: Expense["recurrence"]; note: string }>(
+    { date: today, category: "maintenance", amount: "", currency: "JOD", unitId: "", recurrence: "oneoff", note: "" }
   );
+  const [receipt, setReceipt] = useState<File | null>(null);
+  const [receiptKey, setReceiptKey] = useState<number>(0);
+  const [message, setMessage] = useState<string | null>(null);
+  const [listFilter, setListFilter] = useState<{ category: string; unitId: string }>({ category: "", unitId: "" });
+  const [editingId, setEditingId] = useState<string>("");
 
-  async function addUtility() {
-    if (!form.unitId || !form.period || !form.amount) return;
-    const u: UtilityCharge = {
-      id: uid("util"),
-      unitId: form.unitId,
-      period: form.period,
-      type: form.type,
+  const shownExpenses = data.expenses.filter(
+    (x) => (!listFilter.category || x.category === listFilter.category) && (!listFilter.unitId || (listFilter.unitId === "building" ? !x.unitId : x.unitId === listFilter.unitId))
+  );
+
+  function editExpense(x: Expense) {
+    setEditingId(x.id);
+    setMessage(null);
+    setForm({ date: x.date, category: x.category, amount: String(x.amount), currency: x.currency, unitId: x.unitId || "", recurrence: x.recurrence, note: x.note || "" });
+  }
+
+  function resetForm() {
+    setEditingId("");
+    setMessage(null);
+    setForm({ date: today, category: form.category, amount: "", currency: form.currency, unitId: "", recurrence: "oneoff", note: "" });
+  }
+
+  // الإيصال وتاريخ الإيقاف لا يتغيران من التعديل؛ الإيقاف له زره الخاص
+  function updateExpense(previous: Expense) {
+    const amount = Number(form.amount);
+    if (!form.date || !(amount > 0)) {
+      setMessage("التاريخ مطلوب والمبلغ يجب أن يكون أكبر من صفر.");
+      return;
+    }
+    if (previous.endDate && form.date > previous.endDate) {
+      setMessage("تاريخ المصروف بعد تاريخ إيقافه.");
+      return;
+    }
+    const expense: Expense = {
+      ...previous,
+      date: form.date,
+      category: form.category,
+      amount,
+      currency: form.currency,
+      unitId: form.unitId || undefined,
+      recurrence: form.recurrence,
+      note: form.note.trim() || undefined,
+    };
+    setData((d) => replaceRows(d, "expenses", [expense]));
+    enqueue("dbUpdateExpense", { label: "تعديل مصروف", rowIds: [expense.id], undo: { collection: "expenses", rows: [previous] } }, expense.id, {
+      date: expense.date,
+      category: expense.category,
+      amount: expense.amount,
+      currency: expense.currency,
+      unit_id: expense.unitId ?? null,
+      recurrence: expense.recurrence,
+      end_date: expense.endDate ?? null,
+      note: expense.note ?? null,
+    });
+    resetForm();
+  }
+
+  async function saveExpense() {
+    const previous = data.expenses.find((x) => x.id === editingId);
+    if (previous) return updateExpense(previous);
+    if (!form.date || !form.amount) return;
+    setMessage(null);
+    const id = uid("exp");
+    // الإيصال يُرفع قبل الحفظ ليُخزّن مساره مع المصروف؛ فشل الرفع لا يمنع تسجيل المصروف
+    let receiptPath: string | undefined;
+    if (receipt) {
+      try {
+        receiptPath = await dbUploadReceipt(id, receipt);
+      } catch {
+        setMessage("تعذر رفع الإيصال، وحُفظ المصروف بدونه.");
+      }
+    }
+    const expense: Expense = {
+      id,
+      date: form.date,
+      category: form.category,
       amount: Number(form.amount),
       currency: form.currency,
+      unitId: form.unitId || undefined,
+      recurrence: form.recurrence,
+      note: form.note.trim() || undefined,
+      receiptPath,
     };
-    setData((d) => ({ ...d, utilities: [u, ...d.utilities] }));
-    try { await dbInsertUtility({ id: u.id, unit_id: u.unitId, period: u.period, type: u.type, amount: u.amount, currency: u.currency }); } catch {}
-    setForm({ unitId: "", period: new Date().toISOString().slice(0, 7), type: "water", amount: "", currency: form.currency });
+    setData((d) => ({ ...d, expenses: [expense, ...d.expenses] }));
+    enqueue("dbInsertExpense", { label: "تسجيل مصروف", rowIds: [expense.id] }, {
+      id: expense.id,
+      date: expense.date,
+      category: expense.category,
+      amount: expense.amount,
+      currency: expense.currency,
+      unit_id: expense.unitId ?? null,
+      recurrence: expense.recurrence,
+      end_date: null,
+      note: expense.note ?? null,
+      receipt_path: expense.receiptPath ?? null,
+    });
+    setForm({ date: today, category: form.category, amount: "", currency: form.currency, unitId: "", recurrence: "oneoff", note: "" });
+    setReceipt(null);
+    setReceiptKey((k) => k + 1);
   }
 
-  async function removeUtility(id: string) {
-    setData((d) => ({ ...d, utilities: d.utilities.filter((u) => u.id !== id) }));
-    try { await dbDeleteUtility(id); } catch {}
+  // إيقاف المتكرر بدل حذفه حتى تبقى أشهره السابقة في التقارير
+  async function stopRecurring(id: string) {
+    setData((d) => ({ ...d, expenses: d.expenses.map((x) => (x.id === id ? { ...x, endDate: today } : x)) }));
+    enqueue("dbSetExpenseEndDate", { label: "إيقاف مصروف متكرر", rowIds: [id] }, id, today);
+  }
+
+  async function removeExpense(expense: Expense) {
+    setData((d) => ({ ...d, expenses: d.expenses.filter((x) => x.id !== expense.id) }));
+    enqueue("dbDeleteExpense", { label: "حذف مصروف", rowIds: [expense.id] }, expense.id, expense.receiptPath);
+  }
+
+  // الرابط موقّع ومؤقت، فتُفتح النافذة أولاً ثم يُحمّل فيها حتى لا يحجبها المتصفح
+  async function openReceipt(path: string) {
+    const win = window.open("", "_blank");
+    try {
+      const url = await dbReceiptUrl(path);
+      if (win) win.location.href = url;
+    } catch {
+      win?.close();
+      setMessage("تعذر فتح الإيصال.");
+    }
+  }
+
+  function exportExpenses(mode: AmountMode): ExportTable {
+    return {
+      headers: ["التاريخ", "الفئة", "الوحدة", ...(mode === "original" ? ["المبلغ", "العملة"] : [`المبلغ (${currencyName(settings.baseCurrency)})`]), "التكرار", "حتى", "ملاحظة"],
+      rows: shownExpenses.map((x) => [
+        x.date,
+        EXPENSE_CATEGORY_LABELS[x.category],
+        x.unitId ? unitsById.get(x.unitId)?.name || "" : "عام",
+        ...(mode === "original" ? [x.amount, currencyName(x.currency)] : [roundAmount(convertToBaseOn(x.amount, x.currency, x.date, data.rates, settings))]),
+        EXPENSE_RECURRENCE_LABELS[x.recurrence],
+        x.endDate || "",
+        x.note || "",
+      ]),
+    };
   }
 
   return (
     <section className="space-y-6">
       <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
-        <h2 className="font-medium mb-4">إضافة فاتورة مرافق</h2>
-        <div className="grid grid-cols-1 sm:grid-cols-6 gap-3">
-          <select
-            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-            value={form.unitId}
-            onChange={(e) => setForm((f) => ({ ...f, unitId: e.target.value }))}
-          >
-            <option value="">اختر الوحدة</option>
-            {Array.from(unitsById.values()).map((u) => (
-              <option key={u.id} value={u.id}>{u.name}</option>
-            ))}
-          </select>
+        <h2 className="font-medium mb-4">{editingId ? "تعديل مصروف" : "تسجيل مصروف"}</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
           <input
-            type="month"
+            type="date"
             className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-            value={form.period}
-            onChange={(e) => setForm((f) => ({ ...f, period: e.target.value }))}
+            value={form.date}
+            onChange={(e) => setForm((f) => ({ ...f, date: e.target.value }))}
           />
           <select
             className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
-            value={form.type}
-            onChange={(e) => setForm((f) => ({ ...f, type: e.target.value as UtilityType }))}
+            value={form.category}
+            onChange={(e) => setForm((f) => ({ ...f, category: e.target.value as ExpenseCategory }))}
           >
-            <option value="water">مياه</option>
-            <option value="electricity">كهرباء</option>
+            {(Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[]).map((c) => (
+              <option key={c} value={c}>{EXPENSE_CATEGORY_LABELS[c]}</option>
+            ))}
           </select>
           <input
             type="number"
@@ -828,40 +6087,115 @@ function UtilitiesTab({
             <option value="JOD">دينار</option>
             <option value="ILS">شيكل</option>
           </select>
-          <button onClick={addUtility} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ</button>
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.unitId}
+            onChange={(e) => setForm((f) => ({ ...f, unitId: e.target.value }))}
+          >
+            <option value="">عام على المبنى</option>
+            {data.units.filter((u) => !u.deletedAt || u.id === form.unitId).map((u) => (
+              <option key={u.id} value={u.id}>{u.name}</option>
+            ))}
+          </select>
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.recurrence}
+            onChange={(e) => setForm((f) => ({ ...f, recurrence: e.target.value as Expense["recurrence"] }))}
+          >
+            {(Object.keys(EXPENSE_RECURRENCE_LABELS) as Expense["recurrence"][]).map((r) => (
+              <option key={r} value={r}>{EXPENSE_RECURRENCE_LABELS[r]}</option>
+            ))}
+          </select>
+          <input
+            placeholder="ملاحظة"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.note}
+            onChange={(e) => setForm((f) => ({ ...f, note: e.target.value }))}
+          />
+          <input
+            key={receiptKey}
+            type="file"
+            accept="image/*,application/pdf"
+            className="text-sm"
+            disabled={!!editingId}
+            onChange={(e) => setReceipt(e.target.files?.[0] || null)}
+          />
+          <button onClick={saveExpense} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ</button>
+        </div>
+        {editingId && (
+          <button onClick={resetForm} className="text-sm text-neutral-500 hover:underline mt-2">إلغاء التعديل</button>
+        )}
+        <p className="text-xs text-neutral-500 mt-2">المصروف المتكرر يُحسب في التقارير عن كل شهر/سنة من تاريخه حتى إيقافه.</p>
+        {message && <p className="text-sm text-neutral-600 dark:text-neutral-400 mt-2">{message}</p>}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-2 py-1 select-light"
+            value={listFilter.category}
+            onChange={(e) => setListFilter((f) => ({ ...f, category: e.target.value }))}
+          >
+            <option value="">كل الفئات</option>
+            {(Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[]).map((c) => (
+              <option key={c} value={c}>{EXPENSE_CATEGORY_LABELS[c]}</option>
+            ))}
+          </select>
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-2 py-1 select-light"
+            value={listFilter.unitId}
+            onChange={(e) => setListFilter((f) => ({ ...f, unitId: e.target.value }))}
+          >
+            <option value="">كل الوحدات</option>
+            <option value="building">عام على المبنى</option>
+            {data.units.map((u) => (
+              <option key={u.id} value={u.id}>{u.name}</option>
+            ))}
+          </select>
         </div>
+        <ExportButtons fileName="expenses" sheetName="المصاريف" build={exportExpenses} />
       </div>
 
       <div className="overflow-auto">
         <table className="min-w-full text-sm">
           <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
             <tr className="text-neutral-500">
+              <th className="py-2">التاريخ</th>
+              <th className="py-2">الفئة</th>
               <th className="py-2">الوحدة</th>
-              <th className="py-2">الفترة</th>
-              <th className="py-2">النوع</th>
               <th className="py-2">المبلغ</th>
               <th className="py-2">بالعملة الرئيسية</th>
+              <th className="py-2">التكرار</th>
+              <th className="py-2">ملاحظة</th>
               <th className="py-2">إجراءات</th>
             </tr>
           </thead>
-          <tbody>
-            {data.utilities.map((u) => {
-              const unit = unitsById.get(u.unitId);
-              const base = convertToBase(u.amount, u.currency, settings);
-              return (
-                <tr key={u.id} className="border-b border-neutral-100 dark:border-neutral-900">
-                  <td className="py-2">{unit?.name || "-"}</td>
-                  <td className="py-2">{u.period}</td>
-                  <td className="py-2">{u.type === "water" ? "مياه" : "كهرباء"}</td>
-                  <td className="py-2">{u.amount} {u.currency === "JOD" ? "دينار" : "شيكل"}</td>
-                  <td className="py-2">{formatCurrency(base, settings)}</td>
-                  <td className="py-2"><button className="text-red-600 hover:underline" onClick={() => removeUtility(u.id)}>حذف</button></td>
-                </tr>
-              );
-            })}
-            {data.utilities.length === 0 && (
+          <tbody>
+            {shownExpenses.map((x) => (
+              <tr key={x.id} className="border-b border-neutral-100 dark:border-neutral-900">
+                <td className="py-2">{x.date}<SyncBadge rowId={x.id} /></td>
+                <td className="py-2">{EXPENSE_CATEGORY_LABELS[x.category]}</td>
+                <td className="py-2">{x.unitId ? unitsById.get(x.unitId)?.name || "-" : "عام"}</td>
+                <td className="py-2">{x.amount} {currencyName(x.currency)}</td>
+                <td className="py-2">{formatCurrency(convertToBaseOn(x.amount, x.currency, x.date, data.rates, settings), settings)}</td>
+                <td className="py-2">
+                  {EXPENSE_RECURRENCE_LABELS[x.recurrence]}
+                  {x.endDate && <div className="text-xs text-neutral-500">حتى {x.endDate}</div>}
+                </td>
+                <td className="py-2">{x.note || "-"}</td>
+                <td className="py-2 flex gap-3">
+                  {x.receiptPath && <button className="text-blue-600 hover:underline" onClick={() => openReceipt(x.receiptPath!)}>الإيصال</button>}
+                  {x.recurrence !== "oneoff" && !x.endDate && (
+                    <button className="text-blue-600 hover:underline" onClick={() => stopRecurring(x.id)}>إيقاف</button>
+                  )}
+                  <button className="text-blue-600 hover:underline" onClick={() => editExpense(x)}>تعديل</button>
+                  <button className="text-red-600 hover:underline" onClick={() => removeExpense(x)}>حذف</button>
+                </td>
+              </tr>
+            ))}
+            {shownExpenses.length === 0 && (
               <tr>
-                <td className="py-6 text-center text-neutral-500" colSpan={6}>لا توجد بيانات مرافق</td>
+                <td className="py-6 text-center text-neutral-500" colSpan={8}>لا توجد مصاريف</td>
               </tr>
             )}
           </tbody>
@@ -871,7 +6205,7 @@ function UtilitiesTab({
   );
 }
 
-function InvoicesTab({
+function MaintenanceTab({
   data,
   setData,
   unitsById,
@@ -882,152 +6216,352 @@ function InvoicesTab({
   unitsById: Map<string, Unit>;
   settings: Settings;
 }) {
-  const [scope, setScope] = useState<"monthly" | "yearly">("monthly");
-  const [period, setPeriod] = useState<string>(new Date().toISOString().slice(0, 7)); // YYYY-MM
-  const [tenantFilter, setTenantFilter] = useState<string>("");
+  const today = new Date().toISOString().slice(0, 10);
+  const emptyRequest = (): MaintenanceRequest => ({ id: "", unitId: "", title: "", status: "open", priority: "normal", currency: "JOD", photoPaths: [], openedOn: today });
+  const [form, setForm] = useState<MaintenanceRequest>(emptyRequest);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [photosKey, setPhotosKey] = useState<number>(0);
+  const [message, setMessage] = useState<string | null>(null);
+  const [listFilter, setListFilter] = useState<{ status: string; unitId: string }>({ status: "", unitId: "" });
 
-  function eligibleTenants() {
-    const list = data.tenants.filter((t) => t.active);
-    const filtered = list.filter((t) => {
-      const unit = unitsById.get(t.unitId);
-      if (!unit) return false;
-      if (scope === "monthly" && unit.kind !== "apartment") return false;
-      if (scope === "yearly" && unit.kind !== "shop") return false;
-      return true;
+  const shownRequests = data.maintenance.filter((m) => (!listFilter.status || m.status === listFilter.status) && (!listFilter.unitId || m.unitId === listFilter.unitId));
+
+  async function persist(request: MaintenanceRequest) {
+    setData((d) => ({
+      ...d,
+      maintenance: d.maintenance.some((m) => m.id === request.id) ? d.maintenance.map((m) => (m.id === request.id ? request : m)) : [request, ...d.maintenance],
+    }));
+    enqueue("dbUpsertMaintenanceRequest", { label: "حفظ طلب صيانة", rowIds: [request.id] }, maintenanceToRow(request));
+  }
+
+  async function saveRequest() {
+    if (!form.unitId || !form.title.trim()) return;
+    setMessage(null);
+    const id = form.id || uid("mnt");
+    const uploaded: string[] = [];
+    for (const file of photos) {
+      try {
+        uploaded.push(await dbUploadMaintenancePhoto(id, file));
+      } catch {
+        setMessage("تعذر رفع بعض الصور، وحُفظ الطلب بدونها.");
+      }
+    }
+    await persist({
+      ...form,
+      id,
+      title: form.title.trim(),
+      completedOn: form.status === "done" ? form.completedOn || today : undefined,
+      photoPaths: [...form.photoPaths, ...uploaded],
+    });
+    setForm(emptyRequest());
+    setPhotos([]);
+    setPhotosKey((k) => k + 1);
+  }
+
+  // الجدولة بدون موعد تأخذ اليوم، والإنجاز يسجّل تاريخه
+  async function advance(request: MaintenanceRequest) {
+    const next = MAINTENANCE_NEXT_STATUS[request.status];
+    if (!next) return;
+    await persist({
+      ...request,
+      status: next.status,
+      scheduledDate: next.status === "scheduled" ? request.scheduledDate || today : request.scheduledDate,
+      completedOn: next.status === "done" ? today : request.completedOn,
     });
-    if (tenantFilter) return filtered.filter((t) => t.id === tenantFilter);
-    return filtered;
   }
 
-  function sumUtilitiesBase(unitId: string, periodStr: string, scopeSel: "monthly" | "yearly") {
-    const periodFilter = (u: UtilityCharge) => {
-      if (scopeSel === "monthly") return u.period === periodStr;
-      // yearly: match year
-      const year = periodStr.slice(0, 4);
-      return u.period.startsWith(year);
+  async function recordExpense(request: MaintenanceRequest) {
+    if (!request.cost || request.expenseId) return;
+    const expense: Expense = {
+      id: uid("exp"),
+      date: request.completedOn || today,
+      category: "maintenance",
+      amount: request.cost,
+      currency: request.currency,
+      unitId: request.unitId,
+      recurrence: "oneoff",
+      note: request.title,
     };
-    return data.utilities
-      .filter((u) => u.unitId === unitId)
-      .filter(periodFilter)
-      .reduce((acc, u) => acc + convertToBase(u.amount, u.currency, settings), 0);
-  }
-
-  async function generateInvoices() {
-    const tenants = eligibleTenants();
-    const scopePeriod = scope === "monthly" ? period : period.slice(0, 4);
-    const newInvoices: Invoice[] = tenants.map((t) => {
-      const unit = unitsById.get(t.unitId)!;
-      const rentBase = convertToBase(unit.rentAmount, unit.rentCurrency, settings) * (scope === "yearly" ? 1 : 1);
-      const utilitiesBase = sumUtilitiesBase(unit.id, period, scope);
-      const totalBase = rentBase + utilitiesBase;
-      return {
-        id: uid("inv"),
-        unitId: unit.id,
-        tenantId: t.id,
-        period: scopePeriod,
-        scope,
-        rentBase,
-        utilitiesBase,
-        totalBase,
-      };
+    setData((d) => ({ ...d, expenses: [expense, ...d.expenses] }));
+    enqueue("dbInsertExpense", { label: "تسجيل مصروف", rowIds: [expense.id] }, {
+      id: expense.id,
+      date: expense.date,
+      category: expense.category,
+      amount: expense.amount,
+      currency: expense.currency,
+      unit_id: expense.unitId ?? null,
+      recurrence: expense.recurrence,
+      end_date: null,
+      note: expense.note ?? null,
+      receipt_path: null,
     });
-    setData((d) => ({ ...d, invoices: [...newInvoices, ...d.invoices] }));
+    await persist({ ...request, expenseId: expense.id });
+  }
+
+  // التحميل على مستأجر الطلب: بند "صيانة على المستأجر" في أول شهر لم يُفوتر له، فيدخل في فاتورته هو لا فاتورة من يسكن الوحدة
+  // يُرفض إن لم يكن للطلب مستأجر أو نُقل المستأجر لوحدة أخرى أو أُرشف؛ ومن غادر تصدر له فاتورة بالبند وحده
+  async function chargeTenant(request: MaintenanceRequest) {
+    if (!request.cost || request.chargeId) return;
+    const tenant = data.tenants.find((t) => t.id === request.tenantId);
+    if (!tenant || tenant.deletedAt || tenant.unitId !== request.unitId) {
+      setMessage("لا يمكن التحميل: الطلب غير مرتبط بمستأجر لهذه الوحدة.");
+      return;
+    }
+    const charge: UtilityCharge = {
+      id: uid("util"),
+      unitId: request.unitId,
+      period: nextUninvoicedPeriod(data, request.unitId, (request.completedOn || today).slice(0, 7), tenant.id),
+      type: "maintenance",
+      amount: request.cost,
+      currency: request.currency,
+      tenantId: tenant.id,
+    };
+    setData((d) => ({ ...d, utilities: [charge, ...d.utilities] }));
+    enqueue("dbInsertUtility", { label: "تحميل الصيانة على المستأجر", rowIds: [charge.id] }, { id: charge.id, unit_id: charge.unitId, period: charge.period, type: charge.type, amount: charge.amount, currency: charge.currency, reading_id: null, bill_id: null, tenant_id: tenant.id });
+    await persist({ ...request, chargeId: charge.id });
+    const left = !tenant.active || (!!tenant.endDate && tenant.endDate < today);
+    setMessage(
+      left
+        ? `تنبيه: ${tenant.name} غادر الوحدة. أضيفت الكلفة إلى فاتورة ${charge.period} الخاصة به وحده.`
+        : `أضيفت الكلفة إلى فاتورة ${tenant.name} عن ${charge.period}.`
+    );
+  }
+
+  async function removeRequest(request: MaintenanceRequest) {
+    setData((d) => ({ ...d, maintenance: d.maintenance.filter((m) => m.id !== request.id) }));
+    enqueue("dbDeleteMaintenanceRequest", { label: "حذف طلب صيانة", rowIds: [request.id] }, request.id, request.photoPaths);
+  }
+
+  async function openPhoto(path: string) {
+    const win = window.open("", "_blank");
     try {
-      await Promise.all(newInvoices.map((i) => dbInsertInvoice({ id: i.id, unit_id: i.unitId, tenant_id: i.tenantId, period: i.period, scope: i.scope, rent_base: i.rentBase, utilities_base: i.utilitiesBase, total_base: i.totalBase })));
-    } catch {}
+      const url = await dbMaintenancePhotoUrl(path);
+      if (win) win.location.href = url;
+    } catch {
+      win?.close();
+      setMessage("تعذر فتح الصورة.");
+    }
   }
 
-  async function removeInvoice(id: string) {
-    setData((d) => ({ ...d, invoices: d.invoices.filter((i) => i.id !== id) }));
-    try { await dbDeleteInvoice(id); } catch {}
+  function exportRequests(mode: AmountMode): ExportTable {
+    return {
+      headers: ["تاريخ الفتح", "الوحدة", "المستأجر", "الطلب", "الأولوية", "الحالة", "الفني", "الموعد", "تاريخ الإنجاز", ...(mode === "original" ? ["الكلفة", "العملة"] : [`الكلفة (${currencyName(settings.baseCurrency)})`])],
+      rows: shownRequests.map((m) => [
+        m.openedOn,
+        unitsById.get(m.unitId)?.name || "",
+        data.tenants.find((t) => t.id === m.tenantId)?.name || "",
+        m.title,
+        MAINTENANCE_PRIORITY_LABELS[m.priority],
+        MAINTENANCE_STATUS_LABELS[m.status],
+        m.technician || "",
+        m.scheduledDate || "",
+        m.completedOn || "",
+        ...(mode === "original"
+          ? [m.cost ?? "", m.cost ? currencyName(m.currency) : ""]
+          : [m.cost ? roundAmount(convertToBaseOn(m.cost, m.currency, m.completedOn || m.openedOn, data.rates, settings)) : ""]),
+      ]),
+    };
   }
 
   return (
     <section className="space-y-6">
       <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
-        <h2 className="font-medium mb-4">إنشاء فواتير</h2>
-        <div className="grid grid-cols-1 sm:grid-cols-7 gap-3">
+        <h2 className="font-medium mb-4">{form.id ? "تعديل طلب صيانة" : "طلب صيانة جديد"}</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
           <select
-            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-            value={scope}
-            onChange={(e) => setScope(e.target.value as "monthly" | "yearly")}
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.unitId}
+            onChange={(e) => {
+              const tenant = data.tenants.find((t) => t.unitId === e.target.value && t.active && !t.deletedAt);
+              setForm((f) => ({ ...f, unitId: e.target.value, tenantId: tenant?.id }));
+            }}
           >
-            <option value="monthly">شهري (الشقق)</option>
-            <option value="yearly">سنوي (المحلات)</option>
+            <option value="">اختر الوحدة</option>
+            {data.units.filter((u) => !u.deletedAt || u.id === form.unitId).map((u) => (
+              <option key={u.id} value={u.id}>{u.name}</option>
+            ))}
           </select>
-          {scope === "monthly" ? (
-            <input
-              type="month"
-              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-              value={period}
-              onChange={(e) => setPeriod(e.target.value)}
-            />
-          ) : (
-            <input
-              type="number"
-              min={2000}
-              className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-              value={period.slice(0, 4)}
-              onChange={(e) => setPeriod(`${e.target.value}-01`)}
-            />
-          )}
           <select
-            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
-            value={tenantFilter}
-            onChange={(e) => setTenantFilter(e.target.value)}
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.tenantId || ""}
+            onChange={(e) => setForm((f) => ({ ...f, tenantId: e.target.value || undefined }))}
           >
-            <option value="">كل المستأجرين</option>
+            <option value="">بدون مستأجر</option>
             {data.tenants
-              .filter((t) => t.active)
-              .filter((t) => {
-                const u = unitsById.get(t.unitId);
-                if (!u) return false;
-                return scope === "monthly" ? u.kind === "apartment" : u.kind === "shop";
-              })
-              .map((t) => {
-                const u = unitsById.get(t.unitId);
-                return (
-                  <option key={t.id} value={t.id}>{t.name} — {u?.name}</option>
-                );
-              })}
+              .filter((t) => t.unitId === form.unitId && (!t.deletedAt || t.id === form.tenantId))
+              .map((t) => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+          </select>
+          <input
+            placeholder="المشكلة (مثال: تسريب في الحمام)"
+            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.title}
+            onChange={(e) => setForm((f) => ({ ...f, title: e.target.value }))}
+          />
+          <input
+            placeholder="تفاصيل"
+            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.description || ""}
+            onChange={(e) => setForm((f) => ({ ...f, description: e.target.value || undefined }))}
+          />
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.priority}
+            onChange={(e) => setForm((f) => ({ ...f, priority: e.target.value as MaintenanceRequest["priority"] }))}
+          >
+            {(Object.keys(MAINTENANCE_PRIORITY_LABELS) as MaintenanceRequest["priority"][]).map((p) => (
+              <option key={p} value={p}>الأولوية: {MAINTENANCE_PRIORITY_LABELS[p]}</option>
+            ))}
+          </select>
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.status}
+            onChange={(e) => setForm((f) => ({ ...f, status: e.target.value as MaintenanceStatus }))}
+          >
+            {(Object.keys(MAINTENANCE_STATUS_LABELS) as MaintenanceStatus[]).map((st) => (
+              <option key={st} value={st}>{MAINTENANCE_STATUS_LABELS[st]}</option>
+            ))}
+          </select>
+          <input
+            placeholder="الفني"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.technician || ""}
+            onChange={(e) => setForm((f) => ({ ...f, technician: e.target.value || undefined }))}
+          />
+          <input
+            type="date"
+            title="موعد الزيارة"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.scheduledDate || ""}
+            onChange={(e) => setForm((f) => ({ ...f, scheduledDate: e.target.value || undefined }))}
+          />
+          <input
+            type="number"
+            placeholder="الكلفة"
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            value={form.cost ?? ""}
+            onChange={(e) => setForm((f) => ({ ...f, cost: e.target.value ? Number(e.target.value) : undefined }))}
+          />
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={form.currency}
+            onChange={(e) => setForm((f) => ({ ...f, currency: e.target.value as Currency }))}
+          >
+            <option value="JOD">دينار</option>
+            <option value="ILS">شيكل</option>
+          </select>
+          <input
+            key={photosKey}
+            type="file"
+            accept="image/*"
+            multiple
+            className="sm:col-span-2 text-sm"
+            onChange={(e) => setPhotos(Array.from(e.target.files || []))}
+          />
+        </div>
+        <div className="flex gap-3 mt-3">
+          <button onClick={saveRequest} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ</button>
+          {form.id && <button onClick={() => setForm(emptyRequest())} className="rounded-md border px-4 py-2">إلغاء</button>}
+        </div>
+        {message && <p className="text-sm text-neutral-600 dark:text-neutral-400 mt-2">{message}</p>}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-2 py-1 select-light"
+            value={listFilter.status}
+            onChange={(e) => setListFilter((f) => ({ ...f, status: e.target.value }))}
+          >
+            <option value="">كل الحالات</option>
+            {(Object.keys(MAINTENANCE_STATUS_LABELS) as MaintenanceStatus[]).map((st) => (
+              <option key={st} value={st}>{MAINTENANCE_STATUS_LABELS[st]}</option>
+            ))}
+          </select>
+          <select
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-2 py-1 select-light"
+            value={listFilter.unitId}
+            onChange={(e) => setListFilter((f) => ({ ...f, unitId: e.target.value }))}
+          >
+            <option value="">كل الوحدات</option>
+            {data.units.map((u) => (
+              <option key={u.id} value={u.id}>{u.name}</option>
+            ))}
           </select>
-          <button onClick={generateInvoices} className="rounded-md bg-blue-600 text-white px-4 py-2">توليد</button>
         </div>
-        <p className="text-xs text-neutral-500 mt-2">تُحسب القيم بالعملة الرئيسية باستخدام سعر الصرف الحالي.</p>
+        <ExportButtons fileName="maintenance" sheetName="الصيانة" build={exportRequests} />
       </div>
 
       <div className="overflow-auto">
         <table className="min-w-full text-sm">
           <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
             <tr className="text-neutral-500">
-              <th className="py-2">الفترة</th>
-              <th className="py-2">المستأجر</th>
+              <th className="py-2">التاريخ</th>
               <th className="py-2">الوحدة</th>
-              <th className="py-2">الأجار</th>
-              <th className="py-2">المرافق</th>
-              <th className="py-2">الإجمالي</th>
+              <th className="py-2">الطلب</th>
+              <th className="py-2">الأولوية</th>
+              <th className="py-2">الحالة</th>
+              <th className="py-2">الفني / الموعد</th>
+              <th className="py-2">الكلفة</th>
+              <th className="py-2">الصور</th>
               <th className="py-2">إجراءات</th>
             </tr>
           </thead>
           <tbody>
-            {data.invoices.map((inv) => {
-              const unit = unitsById.get(inv.unitId);
-              const tenant = data.tenants.find((t) => t.id === inv.tenantId);
+            {shownRequests.map((m) => {
+              const next = MAINTENANCE_NEXT_STATUS[m.status];
+              const charge = m.chargeId ? data.utilities.find((u) => u.id === m.chargeId) : undefined;
               return (
-                <tr key={inv.id} className="border-b border-neutral-100 dark:border-neutral-900">
-                  <td className="py-2">{inv.scope === "monthly" ? inv.period : `سنة ${inv.period}`}</td>
-                  <td className="py-2">{tenant?.name || "-"}</td>
-                  <td className="py-2">{unit?.name || "-"}</td>
-                  <td className="py-2">{formatCurrency(inv.rentBase, settings)}</td>
-                  <td className="py-2">{formatCurrency(inv.utilitiesBase, settings)}</td>
-                  <td className="py-2 font-medium">{formatCurrency(inv.totalBase, settings)}</td>
-                  <td className="py-2"><button className="text-red-600 hover:underline" onClick={() => removeInvoice(inv.id)}>حذف</button></td>
+                <tr key={m.id} className="border-b border-neutral-100 dark:border-neutral-900">
+                  <td className="py-2">{m.openedOn}<SyncBadge rowId={m.id} /></td>
+                  <td className="py-2">
+                    {unitsById.get(m.unitId)?.name || "-"}
+                    {m.tenantId && <div className="text-xs text-neutral-500">{data.tenants.find((t) => t.id === m.tenantId)?.name}</div>}
+                  </td>
+                  <td className="py-2">
+                    {m.title}
+                    {m.description && <div className="text-xs text-neutral-500">{m.description}</div>}
+                  </td>
+                  <td className={`py-2 ${m.priority === "urgent" ? "text-red-600" : ""}`}>{MAINTENANCE_PRIORITY_LABELS[m.priority]}</td>
+                  <td className="py-2">
+                    {MAINTENANCE_STATUS_LABELS[m.status]}
+                    {m.completedOn && <div className="text-xs text-neutral-500">{m.completedOn}</div>}
+                  </td>
+                  <td className="py-2">
+                    {m.technician || "-"}
+                    {m.scheduledDate && <div className="text-xs text-neutral-500">{m.scheduledDate}</div>}
+                  </td>
+                  <td className="py-2">
+                    {m.cost ? `${m.cost} ${currencyName(m.currency)}` : "-"}
+                    {m.expenseId && <div className="text-xs text-neutral-500">مسجلة كمصروف</div>}
+                    {charge && <div className="text-xs text-neutral-500">على المستأجر في {charge.period}</div>}
+                  </td>
+                  <td className="py-2">
+                    <span className="flex gap-2">
+                      {m.photoPaths.map((path, i) => (
+                        <button key={path} className="text-blue-600 hover:underline" onClick={() => openPhoto(path)}>{i + 1}</button>
+                      ))}
+                      {m.photoPaths.length === 0 && "-"}
+                    </span>
+                  </td>
+                  <td className="py-2 flex flex-wrap gap-3">
+                    {next && <button className="text-blue-600 hover:underline" onClick={() => advance(m)}>{next.label}</button>}
+                    {m.status === "done" && m.cost && !m.expenseId ? (
+                      <button className="text-blue-600 hover:underline" onClick={() => recordExpense(m)}>تسجيل كمصروف</button>
+                    ) : null}
+                    {m.status === "done" && m.cost && m.tenantId && !charge ? (
+                      <button className="text-blue-600 hover:underline" onClick={() => chargeTenant(m)}>تحميل على المستأجر</button>
+                    ) : null}
+                    <button className="text-blue-600 hover:underline" onClick={() => setForm(m)}>تعديل</button>
+                    <button className="text-red-600 hover:underline" onClick={() => removeRequest(m)}>حذف</button>
+                  </td>
                 </tr>
               );
             })}
-            {data.invoices.length === 0 && (
+            {shownRequests.length === 0 && (
               <tr>
-                <td className="py-6 text-center text-neutral-500" colSpan={7}>لا توجد فواتير بعد</td>
+                <td className="py-6 text-center text-neutral-500" colSpan={9}>لا توجد طلبات صيانة</td>
               </tr>
             )}
           </tbody>
@@ -1037,138 +6571,178 @@ function InvoicesTab({
   );
 }
 
-function PaymentsTab({
+function ImportTab({
   data,
   setData,
-  unitsById,
   settings,
 }: {
   data: AppData;
   setData: React.Dispatch<React.SetStateAction<AppData>>;
-  unitsById: Map<string, Unit>;
   settings: Settings;
 }) {
-  const [form, setForm] = useState<{ tenantId: string; date: string; amount: string; currency: Currency; period: string; note: string }>(
-    { tenantId: "", date: new Date().toISOString().slice(0, 10), amount: "", currency: "JOD", period: new Date().toISOString().slice(0, 7), note: "" }
-  );
+  const [entity, setEntity] = useState<ImportEntity>("units");
+  const [table, setTable] = useState<string[][] | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [mapping, setMapping] = useState<Record<string, number>>({});
+  const [importing, setImporting] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
 
-  async function addPayment() {
-    if (!form.tenantId || !form.amount) return;
-    const tenant = data.tenants.find((t) => t.id === form.tenantId);
-    if (!tenant) return;
-    const payment: Payment = {
-      id: uid("pay"),
-      tenantId: form.tenantId,
-      unitId: tenant.unitId,
-      date: form.date,
-      amount: Number(form.amount),
-      currency: form.currency,
-      period: form.period,
-      note: form.note.trim() || undefined,
-    };
-    setData((d) => ({ ...d, payments: [payment, ...d.payments] }));
-    try { await dbInsertPayment({ id: payment.id, tenant_id: payment.tenantId, unit_id: payment.unitId, date: payment.date, amount: payment.amount, currency: payment.currency, period: payment.period || null, note: payment.note || null }); } catch {}
-    setForm({ tenantId: "", date: new Date().toISOString().slice(0, 10), amount: "", currency: form.currency, period: new Date().toISOString().slice(0, 7), note: "" });
+  const headers = table?.[0] ?? [];
+
+  // مطابقة تلقائية لعناوين الأعمدة حسب الأسماء المعروفة لكل حقل
+  function autoMap(next: ImportEntity, head: string[]) {
+    const m: Record<string, number> = {};
+    for (const f of IMPORT_FIELDS[next]) m[f.key] = head.findIndex((h) => f.aliases.some((a) => sameName(a, h)));
+    setMapping(m);
   }
 
-  async function removePayment(id: string) {
-    setData((d) => ({ ...d, payments: d.payments.filter((p) => p.id !== id) }));
-    try { await dbDeletePayment(id); } catch {}
+  async function loadFile(file: File | undefined) {
+    setMessage(null);
+    if (!file) return;
+    try {
+      const rows = await readSpreadsheet(file);
+      if (rows.length < 2) throw new Error("الملف فارغ أو لا يحتوي إلا على العناوين.");
+      setTable(rows);
+      setFileName(file.name);
+      autoMap(entity, rows[0]);
+    } catch (err) {
+      setTable(null);
+      setMessage(err instanceof Error ? err.message : "تعذرت قراءة الملف.");
+    }
+  }
+
+  const preview = useMemo(() => (table ? buildImportPreview(entity, table, mapping, data) : null), [entity, table, mapping, data]);
+  const errorCount = preview ? preview.rows.filter((r) => r.errors.length).length : 0;
+
+  // كل شيء أو لا شيء: لا تتغير البيانات المحلية إلا بعد قبول قاعدة البيانات للملف كاملاً
+  async function commitImport() {
+    if (!preview || errorCount > 0 || importing) return;
+    setImporting(true);
+    setMessage(null);
+    try {
+      // الصفوف المستوردة قد تشير لوحدة أو مستأجر ما زال في الصندوق
+      await flushPendingWrites();
+      if (entity === "units") {
+        await dbImportUnits(preview.units.map((u) => ({ id: u.id, name: u.name, kind: u.kind, rent_amount: u.rentAmount, rent_currency: u.rentCurrency, area: u.area ?? null, occupants: u.occupants ?? null })));
+        setData((d) => ({ ...d, units: [...preview.units, ...d.units] }));
+      }
+      if (entity === "tenants") {
+        await dbImportTenants(preview.tenants.map((t) => ({ id: t.id, name: t.name, phone: t.phone || null, unit_id: t.unitId, start_date: t.startDate, end_date: t.endDate || null, active: t.active })));
+        setData((d) => ({ ...d, tenants: [...preview.tenants, ...d.tenants] }));
+      }
+      if (entity === "utilities") {
+        await dbImportUtilities(preview.utilities.map((u) => ({ id: u.id, unit_id: u.unitId, period: u.period, type: u.type, amount: u.amount, currency: u.currency, reading_id: null, bill_id: null, tenant_id: null })));
+        setData((d) => ({ ...d, utilities: [...preview.utilities, ...d.utilities] }));
+      }
+      if (entity === "payments") {
+        const numbers = await dbImportPayments(
+          preview.payments.map((p) => ({ id: p.id, tenant_id: p.tenantId, unit_id: p.unitId, date: p.date, amount: p.amount, currency: p.currency, period: p.period || null, note: p.note || null }))
+        );
+        const payments = withDocumentNumbers(preview.payments, numbers);
+        // الدفعات المستوردة تُخصص على الفواتير المفتوحة كما في الإدخال اليدوي
+        let next: AppData = { ...data, payments: [...payments, ...data.payments] };
+        const allocations: PaymentAllocation[] = [];
+        for (const tenantId of Array.from(new Set(payments.map((p) => p.tenantId)))) {
+          const created = autoAllocateTenant(next, tenantId, settings);
+          allocations.push(...created);
+          next = { ...next, allocations: [...created, ...next.allocations] };
+        }
+        setData((d) => ({ ...d, payments: [...payments, ...d.payments], allocations: [...allocations, ...d.allocations] }));
+        enqueue("dbInsertAllocations", { label: "تخصيص الدفعات المستوردة", rowIds: allocations.map((a) => a.paymentId) }, allocations.map((a) => ({ id: a.id, payment_id: a.paymentId, invoice_id: a.invoiceId, amount: a.amount })));
+      }
+      setMessage(`تم استيراد ${preview.rows.length} صف من ${fileName}.`);
+      setTable(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : (err as { message?: string })?.message;
+      setMessage(`فشل الاستيراد ولم يُحفظ أي صف: ${message || "خطأ غير معروف"}`);
+    } finally {
+      setImporting(false);
+    }
   }
 
   return (
     <section className="space-y-6">
       <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
-        <h2 className="font-medium mb-4">إضافة دفعة</h2>
-        <div className="grid grid-cols-1 sm:grid-cols-6 gap-3">
-          <select
-            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
-            value={form.tenantId}
-            onChange={(e) => setForm((f) => ({ ...f, tenantId: e.target.value }))}
-          >
-            <option value="">اختر المستأجر</option>
-            {data.tenants.map((t) => {
-              const unit = unitsById.get(t.unitId);
-              return (
-                <option key={t.id} value={t.id}>{t.name} — {unit?.name}</option>
-              );
-            })}
-          </select>
-          <input
-            type="date"
-            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-            value={form.date}
-            onChange={(e) => setForm((f) => ({ ...f, date: e.target.value }))}
-          />
-          <input
-            type="number"
-            placeholder="المبلغ"
-            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-            value={form.amount}
-            onChange={(e) => setForm((f) => ({ ...f, amount: e.target.value }))}
-          />
+        <h2 className="font-medium mb-4">استيراد من CSV أو Excel</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
           <select
-            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-            value={form.currency}
-            onChange={(e) => setForm((f) => ({ ...f, currency: e.target.value as Currency }))}
+            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+            value={entity}
+            onChange={(e) => {
+              const next = e.target.value as ImportEntity;
+              setEntity(next);
+              autoMap(next, headers);
+            }}
           >
-            <option value="JOD">دينار</option>
-            <option value="ILS">شيكل</option>
+            <option value="units">الوحدات</option>
+            <option value="tenants">المستأجرون</option>
+            <option value="utilities">المرافق والرسوم</option>
+            <option value="payments">الدفعات</option>
           </select>
           <input
-            type="month"
-            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-            value={form.period}
-            onChange={(e) => setForm((f) => ({ ...f, period: e.target.value }))}
-          />
-          <input
-            placeholder="ملاحظة (اختياري)"
-            className="rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
-            value={form.note}
-            onChange={(e) => setForm((f) => ({ ...f, note: e.target.value }))}
+            type="file"
+            accept=".csv,.xlsx"
+            className="sm:col-span-2 rounded-md border border-neutral-300 dark:border-neutral-700 bg-transparent px-3 py-2"
+            onChange={(e) => loadFile(e.target.files?.[0])}
           />
-          <button onClick={addPayment} className="rounded-md bg-blue-600 text-white px-4 py-2">حفظ</button>
         </div>
+        <p className="text-xs text-neutral-500 mt-2">الصف الأول عناوين الأعمدة. استورد الوحدات أولاً ثم المستأجرين ثم المرافق والدفعات، فالأسماء تُطابق مع البيانات المحفوظة.</p>
+        {message && <p className="text-sm text-neutral-600 dark:text-neutral-400 mt-2">{message}</p>}
       </div>
 
-      <div className="overflow-auto">
-        <table className="min-w-full text-sm">
-          <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
-            <tr className="text-neutral-500">
-              <th className="py-2">التاريخ</th>
-              <th className="py-2">المستأجر</th>
-              <th className="py-2">الفترة</th>
-              <th className="py-2">المبلغ</th>
-              <th className="py-2">بالعملة الرئيسية</th>
-              <th className="py-2">إجراءات</th>
-            </tr>
-          </thead>
-          <tbody>
-            {data.payments.map((p) => {
-              const tenant = data.tenants.find((t) => t.id === p.tenantId);
-              const unit = tenant ? unitsById.get(tenant.unitId) : undefined;
-              const base = convertToBase(p.amount, p.currency, settings);
-              return (
-                <tr key={p.id} className="border-b border-neutral-100 dark:border-neutral-900">
-                  <td className="py-2">{p.date}</td>
-                  <td className="py-2">{tenant ? `${tenant.name} — ${unit?.name}` : "-"}</td>
-                  <td className="py-2">{p.period || "-"}</td>
-                  <td className="py-2">{p.amount} {p.currency === "JOD" ? "دينار" : "شيكل"}</td>
-                  <td className="py-2">{formatCurrency(base, settings)}</td>
-                  <td className="py-2"><button className="text-red-600 hover:underline" onClick={() => removePayment(p.id)}>حذف</button></td>
+      {table && (
+        <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+          <h2 className="font-medium mb-4">مطابقة الأعمدة</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {IMPORT_FIELDS[entity].map((f) => (
+              <label key={f.key} className="text-sm">
+                <span className="block mb-1">{f.label}{f.required ? " *" : ""}</span>
+                <select
+                  className="w-full rounded-md border border-neutral-300 dark:border-neutral-700 bg-white text-black px-3 py-2 select-light"
+                  value={mapping[f.key] ?? -1}
+                  onChange={(e) => setMapping((m) => ({ ...m, [f.key]: Number(e.target.value) }))}
+                >
+                  <option value={-1}>— بدون —</option>
+                  {headers.map((h, idx) => (
+                    <option key={idx} value={idx}>{h || `عمود ${idx + 1}`}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {preview && (
+        <div className="p-4 rounded-lg border border-neutral-200 dark:border-neutral-800">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="font-medium">المعاينة: {preview.rows.length} صف، {errorCount} بها أخطاء</h2>
+            <button onClick={commitImport} disabled={errorCount > 0 || importing} className="rounded-md bg-emerald-600 text-white px-4 py-2 disabled:opacity-50">
+              {importing ? "جارٍ الاستيراد..." : "استيراد الكل"}
+            </button>
+          </div>
+          <div className="overflow-auto max-h-96">
+            <table className="min-w-full text-sm">
+              <thead className="text-right border-b border-neutral-200 dark:border-neutral-800">
+                <tr className="text-neutral-500">
+                  <th className="py-2">السطر</th>
+                  <th className="py-2">البيانات</th>
+                  <th className="py-2">الأخطاء</th>
                 </tr>
-              );
-            })}
-            {data.payments.length === 0 && (
-              <tr>
-                <td className="py-6 text-center text-neutral-500" colSpan={6}>لا توجد مدفوعات</td>
-              </tr>
-            )}
-          </tbody>
-        </table>
-    </div>
+              </thead>
+              <tbody>
+                {preview.rows.map((r) => (
+                  <tr key={r.line} className="border-b border-neutral-100 dark:border-neutral-900">
+                    <td className="py-2">{r.line}</td>
+                    <td className="py-2">{r.summary}</td>
+                    <td className={`py-2 ${r.errors.length ? "text-red-600" : "text-emerald-600"}`}>{r.errors.length ? r.errors.join("، ") : "سليم"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
     </section>
   );
 }
-
-
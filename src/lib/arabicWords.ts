@@ -0,0 +1,86 @@
+// تفقيط المبالغ بالعربية للفواتير والإيصالات المطبوعة، مثل: "فقط مئتان وخمسون ديناراً لا غير"
+
+const ONES = ["", "واحد", "اثنان", "ثلاثة", "أربعة", "خمسة", "ستة", "سبعة", "ثمانية", "تسعة"];
+const TEENS = ["عشرة", "أحد عشر", "اثنا عشر", "ثلاثة عشر", "أربعة عشر", "خمسة عشر", "ستة عشر", "سبعة عشر", "ثمانية عشر", "تسعة عشر"];
+const TENS = ["", "", "عشرون", "ثلاثون", "أربعون", "خمسون", "ستون", "سبعون", "ثمانون", "تسعون"];
+const HUNDREDS = ["", "مئة", "مئتان", "ثلاثمئة", "أربعمئة", "خمسمئة", "ستمئة", "سبعمئة", "ثمانمئة", "تسعمئة"];
+
+type Noun = { one: string; two: string; few: string; many: string };
+
+// المعدود: المفرد (1 و100+)، المثنى (2)، الجمع (3-10)، والتمييز المنصوب (11-99)
+function countedNoun(n: number, noun: Noun): string {
+  const lastTwo = n % 100;
+  if (n === 2) return noun.two;
+  if (lastTwo >= 3 && lastTwo <= 10) return noun.few;
+  if (lastTwo >= 11 && lastTwo <= 99) return noun.many;
+  return noun.one;
+}
+
+function belowThousand(n: number): string {
+  const parts: string[] = [];
+  const h = Math.floor(n / 100);
+  const rest = n % 100;
+  if (h) parts.push(HUNDREDS[h]);
+  if (rest >= 10 && rest < 20) parts.push(TEENS[rest - 10]);
+  else if (rest) {
+    const o = rest % 10;
+    const t = Math.floor(rest / 10);
+    if (o && t) parts.push(`${ONES[o]} و${TENS[t]}`);
+    else parts.push(o ? ONES[o] : TENS[t]);
+  }
+  return parts.join(" و");
+}
+
+const SCALES: Array<{ value: number; noun: Noun }> = [
+  { value: 1_000_000_000, noun: { one: "مليار", two: "ملياران", few: "مليارات", many: "ملياراً" } },
+  { value: 1_000_000, noun: { one: "مليون", two: "مليونان", few: "ملايين", many: "مليوناً" } },
+  { value: 1_000, noun: { one: "ألف", two: "ألفان", few: "آلاف", many: "ألفاً" } },
+];
+
+export function numberToArabicWords(n: number): string {
+  n = Math.floor(Math.abs(n));
+  if (n === 0) return "صفر";
+  const parts: string[] = [];
+  for (const scale of SCALES) {
+    const count = Math.floor(n / scale.value);
+    n %= scale.value;
+    if (!count) continue;
+    if (count === 1 || count === 2) parts.push(countedNoun(count, scale.noun));
+    else parts.push(`${belowThousand(count)} ${countedNoun(count, scale.noun)}`);
+  }
+  if (n) parts.push(belowThousand(n));
+  return parts.join(" و");
+}
+
+// single: صيغة الواحد للعملة ولجزئها، لأن "فقط دينار" وحدها ملتبسة على الورق
+const CURRENCY_NOUNS: Record<"JOD" | "ILS", { main: Noun; sub: Noun; single: [string, string]; subUnits: number }> = {
+  JOD: {
+    main: { one: "دينار", two: "ديناران", few: "دنانير", many: "ديناراً" },
+    sub: { one: "فلس", two: "فلسان", few: "فلوس", many: "فلساً" },
+    single: ["دينار واحد", "فلس واحد"],
+    subUnits: 1000,
+  },
+  ILS: {
+    main: { one: "شيكل", two: "شيكلان", few: "شواكل", many: "شيكلاً" },
+    sub: { one: "أغورة", two: "أغورتان", few: "أغورات", many: "أغورة" },
+    single: ["شيكل واحد", "أغورة واحدة"],
+    subUnits: 100,
+  },
+};
+
+function withNoun(n: number, noun: Noun): string {
+  if (n === 1 || n === 2) return countedNoun(n, noun);
+  return `${numberToArabicWords(n)} ${countedNoun(n, noun)}`;
+}
+
+export function amountToArabicWords(amount: number, currency: "JOD" | "ILS"): string {
+  const nouns = CURRENCY_NOUNS[currency];
+  const total = Math.round(Math.abs(amount) * nouns.subUnits);
+  const main = Math.floor(total / nouns.subUnits);
+  const sub = total % nouns.subUnits;
+  const parts: string[] = [];
+  if (main) parts.push(main === 1 ? nouns.single[0] : withNoun(main, nouns.main));
+  if (sub) parts.push(sub === 1 ? nouns.single[1] : withNoun(sub, nouns.sub));
+  if (parts.length === 0) parts.push(`صفر ${nouns.main.one}`);
+  return `فقط ${parts.join(" و")} لا غير`;
+}
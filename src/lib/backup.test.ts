@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { backupsToPrune } from "./backup";
+
+const backup = (id: number, created_at: string) => ({ id, created_at });
+
+describe("backupsToPrune", () => {
+  it("keeps the latest backup of each calendar day counted back from today", () => {
+    const rows = [
+      backup(1, "2026-10-18T02:00:00Z"),
+      backup(2, "2026-10-18T09:30:00Z"),
+      backup(3, "2026-10-16T02:00:00Z"),
+      backup(4, "2026-10-10T02:00:00Z"),
+    ];
+    expect(backupsToPrune(rows, 3, 0, "2026-10-18").sort()).toEqual([1, 4]);
+  });
+
+  it("does not reach back to older days when the cron missed some", () => {
+    const rows = [backup(1, "2026-10-18T02:00:00Z"), backup(2, "2026-09-01T02:00:00Z"), backup(3, "2026-08-30T02:00:00Z")];
+    expect(backupsToPrune(rows, 30, 0, "2026-10-18").sort()).toEqual([2, 3]);
+  });
+
+  it("keeps the latest backup of each of the last calendar months", () => {
+    const rows = [
+      backup(1, "2026-10-18T02:00:00Z"),
+      backup(2, "2026-09-29T02:00:00Z"),
+      backup(3, "2026-09-30T02:00:00Z"),
+      backup(4, "2026-08-31T02:00:00Z"),
+    ];
+    expect(backupsToPrune(rows, 1, 2, "2026-10-18").sort()).toEqual([2, 4]);
+  });
+
+  it("counts months across a year boundary", () => {
+    const rows = [backup(1, "2027-01-05T02:00:00Z"), backup(2, "2026-12-31T02:00:00Z"), backup(3, "2026-11-30T02:00:00Z")];
+    expect(backupsToPrune(rows, 1, 2, "2027-01-05")).toEqual([3]);
+  });
+});
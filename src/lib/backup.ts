@@ -0,0 +1,180 @@
+// النسخ الاحتياطية: لقطة من صفوف جداول المالك كما هي في قاعدة البيانات، مع رقم صيغة اللقطة.
+// تُستخدم من الواجهة (بجلسة المستخدم) ومن مسار الخادم (بمفتاح الخدمة)، فتستقبل عميل Supabase كمعامل.
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// يُرفع عند تغيير أعمدة الجداول المحفوظة؛ الاستعادة ترفض اللقطات بصيغة أخرى
+export const BACKUP_SCHEMA_VERSION = 1;
+
+// بترتيب الاعتماد: الجدول الأب قبل الابن، فتُكتب بهذا الترتيب وتُحذف بعكسه (نفس الترتيب في restore_backup)
+export const BACKUP_TABLES = [
+  "settings",
+  "charge_types",
+  "units",
+  "tenants",
+  "leases",
+  "tariffs",
+  "meters",
+  "meter_readings",
+  "building_bills",
+  "utilities",
+  "invoices",
+  "payments",
+  "payment_allocations",
+  "deposits",
+  "expenses",
+  "maintenance_requests",
+] as const;
+
+export type BackupTable = (typeof BACKUP_TABLES)[number];
+export type BackupRow = Record<string, unknown>;
+export type BackupPayload = { tables: Record<BackupTable, BackupRow[]> };
+
+// مجموعات الاستعادة الجزئية كما تظهر للمستخدم؛ جداول المجموعة تُستعاد معاً
+export const BACKUP_GROUPS: Array<{ key: string; label: string; tables: BackupTable[] }> = [
+  { key: "settings", label: "الإعدادات وأنواع الرسوم", tables: ["settings", "charge_types"] },
+  { key: "units", label: "الوحدات", tables: ["units"] },
+  { key: "tenants", label: "المستأجرون والعقود", tables: ["tenants", "leases"] },
+  { key: "meters", label: "العدادات والتعرفات", tables: ["tariffs", "meters", "meter_readings"] },
+  { key: "utilities", label: "المرافق وفواتير المبنى", tables: ["building_bills", "utilities"] },
+  { key: "invoices", label: "الفواتير", tables: ["invoices"] },
+  { key: "payments", label: "الدفعات والتأمينات", tables: ["payments", "payment_allocations", "deposits"] },
+  { key: "expenses", label: "المصاريف والصيانة", tables: ["expenses", "maintenance_requests"] },
+];
+
+// PostgREST يقطع النتيجة عند حد أقصى للصفوف، فيُقرأ كل جدول صفحات مرتبة حتى تعود صفحة ناقصة
+const PAGE_SIZE = 1000;
+
+async function selectOwnerRows(supabase: SupabaseClient, table: BackupTable, ownerId: string): Promise<BackupRow[]> {
+  const rows: BackupRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select("*")
+      .eq("owner_id", ownerId)
+      .order(table === "settings" ? "owner_id" : "id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data || []) as BackupRow[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+export async function snapshotTables(supabase: SupabaseClient, ownerId: string): Promise<BackupPayload> {
+  const results = await Promise.all(BACKUP_TABLES.map((table) => selectOwnerRows(supabase, table, ownerId)));
+  const tables = {} as Record<BackupTable, BackupRow[]>;
+  results.forEach((rows, i) => {
+    tables[BACKUP_TABLES[i]] = rows.map((row) => Object.fromEntries(Object.entries(row).filter(([k]) => k !== "owner_id")));
+  });
+  return { tables };
+}
+
+export function backupRowCounts(payload: BackupPayload): Record<BackupTable, number> {
+  return Object.fromEntries(BACKUP_TABLES.map((t) => [t, payload.tables[t]?.length ?? 0])) as Record<BackupTable, number>;
+}
+
+export type TableDiff = { added: number; changed: number; removed: number; voided: number };
+
+// الفواتير والإيصالات المرقّمة لا تُحذف بالاستعادة: ما ليس في اللقطة منها يُلغى وتُفك تخصيصاته (كما في restore_backup)
+const VOIDED_ON_RESTORE: BackupTable[] = ["invoices", "payments"];
+
+// الصفوف السارية التي ستُلغى، أو التي تُحذف في بقية الجداول
+function missingFromBackup(table: BackupTable, current: BackupPayload, backup: BackupPayload): BackupRow[] {
+  const kept = new Set((backup.tables[table] || []).map((r) => rowKey(table, r)));
+  const missing = (current.tables[table] || []).filter((r) => !kept.has(rowKey(table, r)));
+  return VOIDED_ON_RESTORE.includes(table) ? missing.filter((r) => !r.voided_at) : missing;
+}
+
+// الإعدادات صف واحد لكل مالك بلا عمود id
+function rowKey(table: BackupTable, row: BackupRow): string {
+  return table === "settings" ? "settings" : String(row.id);
+}
+
+// jsonb يعيد ترتيب المفاتيح، فالمقارنة على المفاتيح مرتبة
+function stableJson(row: BackupRow): string {
+  return JSON.stringify(Object.keys(row).sort().map((k) => [k, row[k]]));
+}
+
+// أثر الاستعادة على كل جدول: صفوف تُضاف، وتُستبدل، وتُحذف (أو تُلغى) لأنها ليست في اللقطة
+export function diffBackup(current: BackupPayload, backup: BackupPayload): Record<BackupTable, TableDiff> {
+  const diff = {} as Record<BackupTable, TableDiff>;
+  for (const table of BACKUP_TABLES) {
+    const now = new Map((current.tables[table] || []).map((r) => [rowKey(table, r), stableJson(r)]));
+    const then = new Map((backup.tables[table] || []).map((r) => [rowKey(table, r), stableJson(r)]));
+    const d: TableDiff = { added: 0, changed: 0, removed: 0, voided: 0 };
+    then.forEach((json, key) => {
+      if (!now.has(key)) d.added++;
+      else if (now.get(key) !== json) d.changed++;
+    });
+    if (table !== "settings") {
+      const missing = missingFromBackup(table, current, backup).length;
+      if (VOIDED_ON_RESTORE.includes(table)) d.voided = missing;
+      else d.removed = missing;
+    }
+    diff[table] = d;
+  }
+  return diff;
+}
+
+// الاحتفاظ بالنسخ التلقائية بأيام وأشهر التقويم حتى يوم التشغيل (today بصيغة YYYY-MM-DD، بتوقيت UTC):
+// أحدث نسخة لكل يوم من آخر 30 يوماً، وأحدث نسخة لكل شهر من آخر 12 شهراً. يوم أو شهر فاته التشغيل لا يمد المدة لنسخ أقدم
+export const DEFAULT_KEEP_DAILY = 30;
+export const DEFAULT_KEEP_MONTHLY = 12;
+
+export function backupsToPrune(rows: Array<{ id: number; created_at: string }>, keepDaily: number, keepMonthly: number, today: string): number[] {
+  const sorted = [...rows].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const firstDay = new Date(Date.parse(`${today}T00:00:00Z`) - (keepDaily - 1) * 86_400_000).toISOString().slice(0, 10);
+  const monthIndex = (date: string) => Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1;
+  const firstMonth = monthIndex(today) - (keepMonthly - 1);
+  const keep = new Set<number>();
+  const days = new Set<string>();
+  const months = new Set<string>();
+  for (const row of sorted) {
+    const day = row.created_at.slice(0, 10);
+    const month = row.created_at.slice(0, 7);
+    if (keepDaily > 0 && day >= firstDay && !days.has(day)) {
+      days.add(day);
+      keep.add(row.id);
+    }
+    if (keepMonthly > 0 && monthIndex(day) >= firstMonth && !months.has(month)) {
+      months.add(month);
+      keep.add(row.id);
+    }
+  }
+  return sorted.filter((r) => !keep.has(r.id)).map((r) => r.id);
+}
+
+// مفاتيح on delete cascade بين الجداول المحفوظة كما في مخطط README: حذف الأب يحذف هذه الصفوف معه
+const CASCADES: Array<{ table: BackupTable; column: string; parent: BackupTable }> = [
+  { table: "tenants", column: "unit_id", parent: "units" },
+  { table: "leases", column: "tenant_id", parent: "tenants" },
+  { table: "leases", column: "unit_id", parent: "units" },
+  { table: "meters", column: "unit_id", parent: "units" },
+  { table: "meter_readings", column: "meter_id", parent: "meters" },
+  { table: "utilities", column: "unit_id", parent: "units" },
+  { table: "utilities", column: "reading_id", parent: "meter_readings" },
+  { table: "utilities", column: "bill_id", parent: "building_bills" },
+  { table: "utilities", column: "tenant_id", parent: "tenants" },
+  // ليست حذفاً متتالياً بل فك تخصيصات المستند الملغى، لكن أثرها على الجدول واحد
+  { table: "payment_allocations", column: "payment_id", parent: "payments" },
+  { table: "payment_allocations", column: "invoice_id", parent: "invoices" },
+  { table: "maintenance_requests", column: "unit_id", parent: "units" },
+];
+
+// صفوف الجداول غير المختارة التي تُحذف تبعاً لحذف صفوف من الجداول المختارة؛ الترتيب يجعل السلسلة تنتقل من الأب للابن
+export function restoreCascades(current: BackupPayload, backup: BackupPayload, tables: BackupTable[]): Partial<Record<BackupTable, number>> {
+  const removed = new Map<BackupTable, Set<string>>();
+  const cascaded: Partial<Record<BackupTable, number>> = {};
+  for (const table of BACKUP_TABLES) {
+    const rows = current.tables[table] || [];
+    if (tables.includes(table)) {
+      removed.set(table, new Set(missingFromBackup(table, current, backup).map((r) => rowKey(table, r))));
+      continue;
+    }
+    const links = CASCADES.filter((c) => c.table === table && removed.get(c.parent)?.size);
+    const gone = rows.filter((r) => links.some((c) => removed.get(c.parent)!.has(String(r[c.column])))).map((r) => rowKey(table, r));
+    if (gone.length === 0) continue;
+    removed.set(table, new Set(gone));
+    cascaded[table] = gone.length;
+  }
+  return cascaded;
+}
@@ -1,4 +1,5 @@
 import { getSupabaseClient } from "./supabaseClient";
+import { BACKUP_SCHEMA_VERSION, backupRowCounts, snapshotTables, type BackupPayload, type BackupTable } from "./backup";
 
 export type DbCurrency = "JOD" | "ILS";
 export type DbUnitKind = "apartment" | "shop";
@@ -10,13 +11,21 @@ async function getCurrentUserId(): Promise<string> {
   return data.user.id;
 }
 
-export async function dbUpsertSettings(settings: { base_currency: DbCurrency; jod_to_ils_rate: number }) {
+export type DbSettings = {
+  base_currency: DbCurrency;
+  jod_to_ils_rate: number;
+  building_name?: string | null;
+  building_address?: string | null;
+  logo_url?: string | null;
+};
+
+// أعمدة ترويسة المبنى اختيارية: إن لم تُمرّر تبقى قيمها المحفوظة كما هي
+export async function dbUpsertSettings(settings: DbSettings) {
   const supabase = getSupabaseClient();
   const ownerId = await getCurrentUserId();
   const { error } = await supabase.from("settings").upsert({
     owner_id: ownerId,
-    base_currency: settings.base_currency,
-    jod_to_ils_rate: settings.jod_to_ils_rate,
+    ...settings,
     updated_at: new Date().toISOString(),
   }, { onConflict: "owner_id" });
   if (error) throw error;
@@ -30,13 +39,46 @@ export async function dbFetchSettings() {
   return data as { base_currency: DbCurrency; jod_to_ils_rate: number } | null;
 }
 
-export async function dbInsertUnit(unit: { id: string; name: string; kind: DbUnitKind; rent_amount: number; rent_currency: DbCurrency }) {
+export type DbUnit = {
+  id: string;
+  name: string;
+  kind: DbUnitKind;
+  rent_amount: number;
+  rent_currency: DbCurrency;
+  area: number | null;
+  occupants: number | null;
+};
+
+// دوال dbInsert تُرسل عبر الصندوق وقد تُعاد بعد أن وصل الإدراج فعلاً وضاع الرد، فصف بنفس id يُتجاهل بدل أن يُرفض (23505)؛
+// بقية القيود الفريدة تبقى رفضاً
+export async function dbInsertUnit(unit: DbUnit) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("units").upsert({ ...unit, owner_id: ownerId }, { onConflict: "id", ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+export async function dbUpdateUnit(id: string, patch: Omit<DbUnit, "id">) {
   const supabase = getSupabaseClient();
   const ownerId = await getCurrentUserId();
-  const { error } = await supabase.from("units").insert({ ...unit, owner_id: ownerId });
+  const { error } = await supabase.from("units").update(patch).eq("id", id).eq("owner_id", ownerId);
   if (error) throw error;
 }
 
+// أرشفة الوحدة تؤرشف مستأجريها بنفس الطابع الزمني، فتعيد الاستعادة من أُرشف معها فقط (دالتا archive_unit وrestore_unit في معاملة واحدة)
+export async function dbArchiveUnit(id: string, deletedAt: string) {
+  const supabase = getSupabaseClient();
+  const { error } = await supabase.rpc("archive_unit", { p_id: id, p_deleted_at: deletedAt });
+  if (error) throw error;
+}
+
+export async function dbRestoreUnit(id: string, deletedAt: string) {
+  const supabase = getSupabaseClient();
+  const { error } = await supabase.rpc("restore_unit", { p_id: id, p_deleted_at: deletedAt });
+  if (error) throw error;
+}
+
+// الحذف النهائي للمؤرشف فقط؛ الفواتير والدفعات والتأمينات تمنعه في قاعدة البيانات (on delete restrict)
 export async function dbDeleteUnit(id: string) {
   const supabase = getSupabaseClient();
   const ownerId = await getCurrentUserId();
@@ -44,10 +86,20 @@ export async function dbDeleteUnit(id: string) {
   if (error) throw error;
 }
 
-export async function dbInsertTenant(tenant: { id: string; name: string; phone: string | null; unit_id: string; start_date: string; active: boolean }) {
+export type DbTenant = { id: string; name: string; phone: string | null; unit_id: string; start_date: string; end_date: string | null; active: boolean };
+
+export async function dbInsertTenant(tenant: DbTenant) {
   const supabase = getSupabaseClient();
   const ownerId = await getCurrentUserId();
-  const { error } = await supabase.from("tenants").insert({ ...tenant, owner_id: ownerId });
+  const { error } = await supabase.from("tenants").upsert({ ...tenant, owner_id: ownerId }, { onConflict: "id", ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+// تاريخ المغادرة له مسار خاص (dbSetTenantEndDate)
+export async function dbUpdateTenant(id: string, patch: Omit<DbTenant, "id" | "end_date">) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("tenants").update(patch).eq("id", id).eq("owner_id", ownerId);
   if (error) throw error;
 }
 
@@ -58,6 +110,27 @@ export async function dbToggleTenantActive(id: string, active: boolean) {
   if (error) throw error;
 }
 
+export async function dbSetTenantEndDate(id: string, endDate: string | null) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("tenants").update({ end_date: endDate }).eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+export async function dbArchiveTenant(id: string, deletedAt: string) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("tenants").update({ deleted_at: deletedAt }).eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+export async function dbRestoreTenant(id: string) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("tenants").update({ deleted_at: null }).eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
 export async function dbDeleteTenant(id: string) {
   const supabase = getSupabaseClient();
   const ownerId = await getCurrentUserId();
@@ -65,10 +138,111 @@ export async function dbDeleteTenant(id: string) {
   if (error) throw error;
 }
 
-export async function dbInsertUtility(util: { id: string; unit_id: string; period: string; type: "water" | "electricity"; amount: number; currency: DbCurrency }) {
+export type DbLease = {
+  id: string;
+  tenant_id: string;
+  unit_id: string;
+  start_date: string;
+  end_date: string | null;
+  rent_amount: number;
+  rent_currency: DbCurrency;
+  frequency: "monthly" | "yearly";
+  due_day: number;
+  deposit_amount: number;
+  deposit_currency: DbCurrency;
+  escalation_kind: "percent" | "fixed" | null;
+  escalation_value: number | null;
+  escalation_date: string | null;
+  escalation_cap: number | null;
+  proration: "days" | "months";
+};
+
+export async function dbInsertLease(lease: DbLease) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("leases").upsert({ ...lease, owner_id: ownerId }, { onConflict: "id", ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+// المستأجر والوحدة ثابتان؛ الزيادة السنوية لها مسار خاص (dbUpdateLeaseEscalation)
+export async function dbUpdateLease(id: string, patch: Omit<DbLease, "id" | "tenant_id" | "unit_id" | "escalation_kind" | "escalation_value" | "escalation_date" | "escalation_cap">) {
   const supabase = getSupabaseClient();
   const ownerId = await getCurrentUserId();
-  const { error } = await supabase.from("utilities").insert({ ...util, owner_id: ownerId });
+  const { error } = await supabase.from("leases").update(patch).eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+export async function dbEndLease(id: string, endDate: string) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("leases").update({ end_date: endDate }).eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+export async function dbUpdateLeaseEscalation(
+  id: string,
+  rule: { escalation_kind: "percent" | "fixed" | null; escalation_value: number | null; escalation_date: string | null; escalation_cap: number | null }
+) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("leases").update(rule).eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+export async function dbDeleteLease(id: string) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("leases").delete().eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+export type DbChargeType = {
+  id: string;
+  label_ar: string;
+  label_en: string;
+  default_amount: number;
+  currency: DbCurrency;
+  recurrence: "recurring" | "oneoff";
+  applies_to: "apartment" | "shop" | "both";
+};
+
+export async function dbUpsertChargeType(chargeType: DbChargeType) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("charge_types").upsert({ ...chargeType, owner_id: ownerId }, { onConflict: "id" });
+  if (error) throw error;
+}
+
+export async function dbDeleteChargeType(id: string) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("charge_types").delete().eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+export type DbUtility = {
+  id: string;
+  unit_id: string;
+  period: string;
+  type: string; // water / electricity أو معرّف من charge_types
+  amount: number;
+  currency: DbCurrency;
+  reading_id: string | null;
+  bill_id: string | null;
+  tenant_id: string | null; // بند محمّل على مستأجر بعينه
+};
+
+export async function dbInsertUtility(util: DbUtility) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("utilities").upsert({ ...util, owner_id: ownerId }, { onConflict: "id", ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+export async function dbUpdateUtility(id: string, patch: Partial<Pick<DbUtility, "period" | "type" | "amount" | "currency">>) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("utilities").update(patch).eq("id", id).eq("owner_id", ownerId);
   if (error) throw error;
 }
 
@@ -79,10 +253,169 @@ export async function dbDeleteUtility(id: string) {
   if (error) throw error;
 }
 
-export async function dbInsertInvoice(inv: { id: string; unit_id: string; tenant_id: string; period: string; scope: "monthly" | "yearly"; rent_base: number; utilities_base: number; total_base: number }) {
+export type DbBuildingBill = {
+  id: string;
+  period: string;
+  type: string; // water / electricity أو معرّف من charge_types
+  amount: number;
+  currency: DbCurrency;
+  method: "equal" | "area" | "occupants" | "submeter" | "custom";
+  unit_ids: string[];
+  shares: Record<string, number>;
+  note: string | null;
+};
+
+export async function dbUpsertBuildingBill(bill: DbBuildingBill) {
   const supabase = getSupabaseClient();
   const ownerId = await getCurrentUserId();
-  const { error } = await supabase.from("invoices").insert({ ...inv, owner_id: ownerId });
+  const { error } = await supabase.from("building_bills").upsert({ ...bill, owner_id: ownerId }, { onConflict: "id" });
+  if (error) throw error;
+}
+
+// إعادة التوزيع: تُحذف حصص الوحدات السابقة وتُدرج الجديدة في معاملة واحدة (replace_bill_utilities)، فلا تبقى الفاتورة بلا حصص
+export async function dbReplaceBillUtilities(billId: string, utilities: DbUtility[]) {
+  const supabase = getSupabaseClient();
+  const { error } = await supabase.rpc("replace_bill_utilities", { p_bill_id: billId, p_utilities: utilities });
+  if (error) throw error;
+}
+
+// حصص الوحدات تُحذف معها (on delete cascade)
+export async function dbDeleteBuildingBill(id: string) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("building_bills").delete().eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+// tiers: [{ up_to, rate }] مرتبة تصاعدياً؛ up_to = null للشريحة الأخيرة
+export type DbTariff = {
+  id: string;
+  name: string;
+  type: string; // water / electricity أو معرّف من charge_types
+  currency: DbCurrency;
+  fixed_charge: number;
+  tiers: Array<{ up_to: number | null; rate: number }>;
+};
+
+export async function dbUpsertTariff(tariff: DbTariff) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("tariffs").upsert({ ...tariff, owner_id: ownerId }, { onConflict: "id" });
+  if (error) throw error;
+}
+
+export async function dbDeleteTariff(id: string) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("tariffs").delete().eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+export type DbMeter = {
+  id: string;
+  unit_id: string;
+  type: string; // water / electricity أو معرّف من charge_types
+  name: string;
+  digits: number;
+  initial_reading: number;
+  tariff_id: string | null;
+};
+
+export async function dbInsertMeter(meter: DbMeter) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("meters").upsert({ ...meter, owner_id: ownerId }, { onConflict: "id", ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+export async function dbUpdateMeter(id: string, patch: Omit<DbMeter, "id" | "unit_id" | "type">) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("meters").update(patch).eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+export async function dbDeleteMeter(id: string) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("meters").delete().eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+export type DbMeterReading = { id: string; meter_id: string; period: string; reading: number };
+
+export async function dbInsertReading(reading: DbMeterReading) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("meter_readings").upsert({ ...reading, owner_id: ownerId }, { onConflict: "id", ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+export async function dbUpdateReading(id: string, patch: Pick<DbMeterReading, "reading">) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("meter_readings").update(patch).eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+// فاتورة المرافق المحسوبة من القراءة تُحذف معها (on delete cascade)
+export async function dbDeleteReading(id: string) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("meter_readings").delete().eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+// currency / jod_to_ils_rate والمبالغ الأصلية تُجمّد عند الإصدار؛ الأعمدة فارغة في الفواتير القديمة
+export type DbInvoice = {
+  id: string;
+  unit_id: string;
+  tenant_id: string;
+  period: string;
+  scope: "monthly" | "yearly";
+  rent_base: number;
+  utilities_base: number;
+  total_base: number;
+  currency: DbCurrency | null;
+  jod_to_ils_rate: number | null;
+  rent_amount: number | null;
+  rent_currency: DbCurrency | null;
+  utilities_jod: number | null;
+  utilities_ils: number | null;
+  voided_at: string | null;
+  replaced_by: string | null;
+  lease_id: string | null;
+  proration_note: string | null;
+  number?: string | null; // يخصصه الخادم عند الإدراج؛ لا يُرسل من الواجهة
+};
+
+export type DbAllocationInsert = { id: string; payment_id: string; invoice_id: string; amount: number };
+
+// معاملة واحدة على الخادم (issue_invoices): إما تُحفظ كل الفواتير وتخصيصاتها أو لا شيء (unique_active_invoice يمنع التكرار)
+// عند إعادة الإصدار تُلغى الفاتورة المستبدلة وتُفك تخصيصاتها في نفس المعاملة، فلا تبقى ملغاة بلا بديل
+// الرقم (INV-2026-0001) يخصصه trigger على الخادم داخل نفس المعاملة، فلا يتكرر بين جهازين ولا تضيع أرقام عند الفشل
+export async function dbIssueInvoices(
+  invs: DbInvoice[],
+  allocs: DbAllocationInsert[],
+  replace?: { id: string; voidedAt: string }
+): Promise<Array<{ id: string; number: string | null }>> {
+  if (invs.length === 0) return [];
+  const supabase = getSupabaseClient();
+  await getCurrentUserId();
+  const { data, error } = await supabase.rpc("issue_invoices", {
+    p_invoices: invs,
+    p_allocations: allocs,
+    p_replace_id: replace?.id ?? null,
+    p_voided_at: replace?.voidedAt ?? null,
+  });
+  if (error) throw error;
+  return (data || []) as Array<{ id: string; number: string | null }>;
+}
+
+export async function dbVoidInvoice(id: string, voidedAt: string, replacedBy: string | null) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("invoices").update({ voided_at: voidedAt, replaced_by: replacedBy }).eq("id", id).eq("owner_id", ownerId);
   if (error) throw error;
 }
 
@@ -93,10 +426,37 @@ export async function dbDeleteInvoice(id: string) {
   if (error) throw error;
 }
 
-export async function dbInsertPayment(pay: { id: string; tenant_id: string; unit_id: string; date: string; amount: number; currency: DbCurrency; period: string | null; note: string | null }) {
+export type DbPaymentInsert = { id: string; tenant_id: string; unit_id: string; date: string; amount: number; currency: DbCurrency; period: string | null; note: string | null };
+
+// يعيد رقم الإيصال (RCPT-2026-0001) الذي خصصه الخادم
+export async function dbInsertPayment(pay: DbPaymentInsert): Promise<string | null> {
   const supabase = getSupabaseClient();
   const ownerId = await getCurrentUserId();
-  const { error } = await supabase.from("payments").insert({ ...pay, owner_id: ownerId });
+  const { data, error } = await supabase
+    .from("payments")
+    .upsert({ ...pay, owner_id: ownerId }, { onConflict: "id", ignoreDuplicates: true })
+    .select("number")
+    .maybeSingle();
+  if (error) throw error;
+  if (data) return (data as { number: string | null }).number;
+  // وصلت في محاولة سابقة ضاع ردها: الرقم من الصف الموجود
+  const existing = await supabase.from("payments").select("number").eq("id", pay.id).eq("owner_id", ownerId).single();
+  if (existing.error) throw existing.error;
+  return (existing.data as { number: string | null }).number;
+}
+
+// رقم الإيصال لا يتغير بتعديل الدفعة
+export async function dbUpdatePayment(id: string, patch: Omit<DbPaymentInsert, "id" | "tenant_id" | "unit_id">) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("payments").update(patch).eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+export async function dbVoidPayment(id: string, voidedAt: string) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("payments").update({ voided_at: voidedAt }).eq("id", id).eq("owner_id", ownerId);
   if (error) throw error;
 }
 
@@ -107,57 +467,397 @@ export async function dbDeletePayment(id: string) {
   if (error) throw error;
 }
 
+export async function dbInsertAllocations(allocs: DbAllocationInsert[]) {
+  if (allocs.length === 0) return;
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("payment_allocations").upsert(allocs.map((a) => ({ ...a, owner_id: ownerId })), { onConflict: "id", ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+export async function dbDeleteAllocation(id: string) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("payment_allocations").delete().eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+// السعر اليدوي خاص بالمالك؛ السعر المشترك (owner_id فارغ) يكتبه /api/rates وحده بمفتاح الخدمة
+export async function dbUpsertExchangeRate(rate: { rate_date: string; jod_to_ils_rate: number }) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase
+    .from("exchange_rates")
+    .upsert(
+      { rate_date: rate.rate_date, jod_to_ils_rate: rate.jod_to_ils_rate, source: "manual", owner_id: ownerId, updated_at: new Date().toISOString() },
+      { onConflict: "rate_date,owner_id" }
+    );
+  if (error) throw error;
+}
+
+export type DbDeposit = {
+  id: string;
+  tenant_id: string;
+  unit_id: string;
+  date: string;
+  kind: "received" | "deduction" | "refund";
+  amount: number;
+  currency: DbCurrency;
+  note: string | null;
+  payment_id: string | null;
+};
+
+export async function dbInsertDeposits(deposits: DbDeposit[]) {
+  if (deposits.length === 0) return;
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("deposits").upsert(deposits.map((x) => ({ ...x, owner_id: ownerId })), { onConflict: "id", ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+// تسوية التأمين في معاملة واحدة (settle_deposit)؛ يعيد رقم إيصال دفعة التسوية إن وُجدت
+export async function dbSettleDeposit(settlement: {
+  payment: DbPaymentInsert | null;
+  allocations: DbAllocationInsert[];
+  deposits: DbDeposit[];
+  utility: DbUtility | null;
+}): Promise<string | null> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.rpc("settle_deposit", {
+    p_payment: settlement.payment,
+    p_allocations: settlement.allocations,
+    p_deposits: settlement.deposits,
+    p_utility: settlement.utility,
+  });
+  if (error) throw error;
+  return (data as string | null) ?? null;
+}
+
+export async function dbUpdateDeposit(id: string, patch: Pick<DbDeposit, "date" | "amount" | "currency" | "note">) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("deposits").update(patch).eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+export async function dbDeleteDeposit(id: string) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("deposits").delete().eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+export type DbExpense = {
+  id: string;
+  date: string;
+  category: string;
+  amount: number;
+  currency: DbCurrency;
+  unit_id: string | null;
+  recurrence: "oneoff" | "monthly" | "yearly";
+  end_date: string | null;
+  note: string | null;
+  receipt_path: string | null;
+};
+
+export async function dbInsertExpense(expense: DbExpense) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("expenses").upsert({ ...expense, owner_id: ownerId }, { onConflict: "id", ignoreDuplicates: true });
+  if (error) throw error;
+}
+
+export async function dbUpdateExpense(id: string, patch: Omit<DbExpense, "id" | "receipt_path">) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("expenses").update(patch).eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+export async function dbSetExpenseEndDate(id: string, endDate: string | null) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("expenses").update({ end_date: endDate }).eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+}
+
+export async function dbDeleteExpense(id: string, receiptPath?: string) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("expenses").delete().eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+  if (receiptPath) await supabase.storage.from("receipts").remove([receiptPath]);
+}
+
+// الملفات في حاويات خاصة، داخل مجلد باسم المالك حتى تسمح بها سياسات التخزين
+async function uploadOwnerFile(bucket: string, name: string, file: File): Promise<string> {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const ext = file.name.split(".").pop() || "bin";
+  const path = `${ownerId}/${name}.${ext}`;
+  const { error } = await supabase.storage.from(bucket).upload(path, file, { upsert: true, contentType: file.type || undefined });
+  if (error) throw error;
+  return path;
+}
+
+async function signedFileUrl(bucket: string, path: string): Promise<string> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase.storage.from(bucket).createSignedUrl(path, 600);
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+export async function dbUploadReceipt(expenseId: string, file: File): Promise<string> {
+  return uploadOwnerFile("receipts", expenseId, file);
+}
+
+export async function dbReceiptUrl(path: string): Promise<string> {
+  return signedFileUrl("receipts", path);
+}
+
+export type DbMaintenanceRequest = {
+  id: string;
+  unit_id: string;
+  tenant_id: string | null;
+  title: string;
+  description: string | null;
+  status: "open" | "scheduled" | "in_progress" | "done";
+  priority: "low" | "normal" | "urgent";
+  technician: string | null;
+  scheduled_date: string | null;
+  cost: number | null;
+  currency: DbCurrency;
+  photo_paths: string[];
+  opened_on: string;
+  completed_on: string | null;
+  expense_id: string | null;
+  charge_id: string | null;
+};
+
+export async function dbUpsertMaintenanceRequest(request: DbMaintenanceRequest) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("maintenance_requests").upsert({ ...request, owner_id: ownerId });
+  if (error) throw error;
+}
+
+export async function dbDeleteMaintenanceRequest(id: string, photoPaths: string[]) {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { error } = await supabase.from("maintenance_requests").delete().eq("id", id).eq("owner_id", ownerId);
+  if (error) throw error;
+  if (photoPaths.length) await supabase.storage.from("maintenance-photos").remove(photoPaths);
+}
+
+export async function dbUploadMaintenancePhoto(requestId: string, file: File): Promise<string> {
+  return uploadOwnerFile("maintenance-photos", `${requestId}-${Date.now()}`, file);
+}
+
+export async function dbMaintenancePhotoUrl(path: string): Promise<string> {
+  return signedFileUrl("maintenance-photos", path);
+}
+
+// الاستيراد: كل ملف يُحفظ بأمر إدراج واحد متعدد الصفوف، فإما أن تُحفظ كل الصفوف أو لا شيء
+// R: شكل الصفوف المعادة بحسب أعمدة returning
+async function importRows<T extends object, R = { id: string }>(table: string, rows: T[], returning: string = "id"): Promise<R[]> {
+  if (rows.length === 0) return [];
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { data, error } = await supabase.from(table).insert(rows.map((r) => ({ ...r, owner_id: ownerId }))).select(returning);
+  if (error) throw error;
+  return (data || []) as R[];
+}
+
+export async function dbImportUnits(units: DbUnit[]) {
+  await importRows("units", units);
+}
+
+export async function dbImportTenants(tenants: DbTenant[]) {
+  await importRows("tenants", tenants);
+}
+
+export async function dbImportUtilities(utilities: DbUtility[]) {
+  await importRows("utilities", utilities);
+}
+
+export async function dbImportPayments(payments: DbPaymentInsert[]): Promise<Array<{ id: string; number: string | null }>> {
+  return importRows<DbPaymentInsert, { id: string; number: string | null }>("payments", payments, "id, number");
+}
+
 export type FetchAllResult = {
-  settings: { base_currency: DbCurrency; jod_to_ils_rate: number } | null;
-  units: Array<{ id: string; name: string; kind: DbUnitKind; rent_amount: number; rent_currency: DbCurrency }>;
-  tenants: Array<{ id: string; name: string; phone: string | null; unit_id: string; start_date: string; active: boolean }>;
-  utilities: Array<{ id: string; unit_id: string; period: string; type: "water" | "electricity"; amount: number; currency: DbCurrency }>;
-  invoices: Array<{ id: string; unit_id: string; tenant_id: string; period: string; scope: "monthly" | "yearly"; rent_base: number; utilities_base: number; total_base: number }>;
-  payments: Array<{ id: string; tenant_id: string; unit_id: string; date: string; amount: number; currency: DbCurrency; period: string | null; note: string | null }>;
+  settings: DbSettings | null;
+  chargeTypes: DbChargeType[];
+  units: Array<DbUnit & { deleted_at: string | null }>;
+  tenants: Array<DbTenant & { deleted_at: string | null }>;
+  leases: DbLease[];
+  utilities: DbUtility[];
+  buildingBills: DbBuildingBill[];
+  tariffs: DbTariff[];
+  meters: DbMeter[];
+  readings: DbMeterReading[];
+  invoices: DbInvoice[];
+  payments: Array<{ id: string; tenant_id: string; unit_id: string; date: string; amount: number; currency: DbCurrency; period: string | null; note: string | null; number: string | null; voided_at: string | null }>;
+  allocations: Array<{ id: string; payment_id: string; invoice_id: string; amount: number }>;
+  deposits: DbDeposit[];
+  expenses: DbExpense[];
+  maintenance: DbMaintenanceRequest[];
+  rates: Array<{ rate_date: string; jod_to_ils_rate: number; source: "api" | "manual" }>;
 };
 
 export async function dbFetchAll(): Promise<FetchAllResult> {
   const supabase = getSupabaseClient();
   const ownerId = await getCurrentUserId().catch(() => null);
   if (!ownerId) {
-    return { settings: null, units: [], tenants: [], utilities: [], invoices: [], payments: [] };
+    return { settings: null, chargeTypes: [], units: [], tenants: [], leases: [], utilities: [], buildingBills: [], tariffs: [], meters: [], readings: [], invoices: [], payments: [], allocations: [], deposits: [], expenses: [], maintenance: [], rates: [] };
   }
-  const [settings, units, tenants, utilities, invoices, payments] = await Promise.all([
-    supabase.from("settings").select("base_currency, jod_to_ils_rate").eq("owner_id", ownerId).maybeSingle(),
-    supabase.from("units").select("id, name, kind, rent_amount, rent_currency").eq("owner_id", ownerId).order("name"),
-    supabase.from("tenants").select("id, name, phone, unit_id, start_date, active").eq("owner_id", ownerId).order("name"),
-    supabase.from("utilities").select("id, unit_id, period, type, amount, currency").eq("owner_id", ownerId).order("period", { ascending: false }),
-    supabase.from("invoices").select("id, unit_id, tenant_id, period, scope, rent_base, utilities_base, total_base").eq("owner_id", ownerId).order("period", { ascending: false }),
-    supabase.from("payments").select("id, tenant_id, unit_id, date, amount, currency, period, note").eq("owner_id", ownerId).order("date", { ascending: false }),
+  const [settings, chargeTypes, units, tenants, leases, utilities, buildingBills, tariffs, meters, readings, invoices, payments, allocations, deposits, expenses, maintenance, rates] = await Promise.all([
+    supabase.from("settings").select("base_currency, jod_to_ils_rate, building_name, building_address, logo_url").eq("owner_id", ownerId).maybeSingle(),
+    supabase.from("charge_types").select("id, label_ar, label_en, default_amount, currency, recurrence, applies_to").eq("owner_id", ownerId).order("label_ar"),
+    supabase.from("units").select("id, name, kind, rent_amount, rent_currency, area, occupants, deleted_at").eq("owner_id", ownerId).order("name"),
+    supabase.from("tenants").select("id, name, phone, unit_id, start_date, end_date, active, deleted_at").eq("owner_id", ownerId).order("name"),
+    supabase.from("leases").select("id, tenant_id, unit_id, start_date, end_date, rent_amount, rent_currency, frequency, due_day, deposit_amount, deposit_currency, escalation_kind, escalation_value, escalation_date, escalation_cap, proration").eq("owner_id", ownerId).order("start_date", { ascending: false }),
+    supabase.from("utilities").select("id, unit_id, period, type, amount, currency, reading_id, bill_id, tenant_id").eq("owner_id", ownerId).order("period", { ascending: false }),
+    supabase.from("building_bills").select("id, period, type, amount, currency, method, unit_ids, shares, note").eq("owner_id", ownerId).order("period", { ascending: false }),
+    supabase.from("tariffs").select("id, name, type, currency, fixed_charge, tiers").eq("owner_id", ownerId).order("name"),
+    supabase.from("meters").select("id, unit_id, type, name, digits, initial_reading, tariff_id").eq("owner_id", ownerId).order("name"),
+    supabase.from("meter_readings").select("id, meter_id, period, reading").eq("owner_id", ownerId).order("period", { ascending: false }),
+    supabase.from("invoices").select("id, unit_id, tenant_id, period, scope, rent_base, utilities_base, total_base, currency, jod_to_ils_rate, rent_amount, rent_currency, utilities_jod, utilities_ils, voided_at, replaced_by, lease_id, proration_note, number").eq("owner_id", ownerId).order("period", { ascending: false }),
+    supabase.from("payments").select("id, tenant_id, unit_id, date, amount, currency, period, note, number, voided_at").eq("owner_id", ownerId).order("date", { ascending: false }),
+    supabase.from("payment_allocations").select("id, payment_id, invoice_id, amount").eq("owner_id", ownerId),
+    supabase.from("deposits").select("id, tenant_id, unit_id, date, kind, amount, currency, note, payment_id").eq("owner_id", ownerId).order("date", { ascending: false }),
+    supabase.from("expenses").select("id, date, category, amount, currency, unit_id, recurrence, end_date, note, receipt_path").eq("owner_id", ownerId).order("date", { ascending: false }),
+    supabase.from("maintenance_requests").select("id, unit_id, tenant_id, title, description, status, priority, technician, scheduled_date, cost, currency, photo_paths, opened_on, completed_on, expense_id, charge_id").eq("owner_id", ownerId).order("opened_on", { ascending: false }),
+    supabase
+      .from("exchange_rates")
+      .select("rate_date, jod_to_ils_rate, source")
+      .or(`owner_id.is.null,owner_id.eq.${ownerId}`)
+      .order("rate_date", { ascending: false })
+      .order("owner_id", { ascending: true, nullsFirst: false }),
   ]);
 
   if (settings.error) throw settings.error;
+  if (chargeTypes.error) throw chargeTypes.error;
   if (units.error) throw units.error;
   if (tenants.error) throw tenants.error;
+  if (leases.error) throw leases.error;
   if (utilities.error) throw utilities.error;
+  if (buildingBills.error) throw buildingBills.error;
+  if (tariffs.error) throw tariffs.error;
+  if (meters.error) throw meters.error;
+  if (readings.error) throw readings.error;
   if (invoices.error) throw invoices.error;
   if (payments.error) throw payments.error;
+  if (allocations.error) throw allocations.error;
+  if (deposits.error) throw deposits.error;
+  if (expenses.error) throw expenses.error;
+  if (maintenance.error) throw maintenance.error;
+  if (rates.error) throw rates.error;
 
   return {
-    settings: settings.data as { base_currency: DbCurrency; jod_to_ils_rate: number } | null,
-    units: (units.data || []) as Array<{ id: string; name: string; kind: DbUnitKind; rent_amount: number; rent_currency: DbCurrency }>,
-    tenants: (tenants.data || []) as Array<{ id: string; name: string; phone: string | null; unit_id: string; start_date: string; active: boolean }>,
-    utilities: (utilities.data || []) as Array<{ id: string; unit_id: string; period: string; type: "water" | "electricity"; amount: number; currency: DbCurrency }>,
-    invoices: (invoices.data || []) as Array<{ id: string; unit_id: string; tenant_id: string; period: string; scope: "monthly" | "yearly"; rent_base: number; utilities_base: number; total_base: number }>,
-    payments: (payments.data || []) as Array<{ id: string; tenant_id: string; unit_id: string; date: string; amount: number; currency: DbCurrency; period: string | null; note: string | null }>,
+    settings: settings.data as DbSettings | null,
+    chargeTypes: (chargeTypes.data || []) as DbChargeType[],
+    units: (units.data || []) as Array<DbUnit & { deleted_at: string | null }>,
+    tenants: (tenants.data || []) as Array<DbTenant & { deleted_at: string | null }>,
+    leases: (leases.data || []) as DbLease[],
+    utilities: (utilities.data || []) as DbUtility[],
+    buildingBills: (buildingBills.data || []) as DbBuildingBill[],
+    tariffs: (tariffs.data || []) as DbTariff[],
+    meters: (meters.data || []) as DbMeter[],
+    readings: (readings.data || []) as DbMeterReading[],
+    invoices: (invoices.data || []) as DbInvoice[],
+    payments: (payments.data || []) as Array<{ id: string; tenant_id: string; unit_id: string; date: string; amount: number; currency: DbCurrency; period: string | null; note: string | null; number: string | null; voided_at: string | null }>,
+    allocations: (allocations.data || []) as Array<{ id: string; payment_id: string; invoice_id: string; amount: number }>,
+    deposits: (deposits.data || []) as DbDeposit[],
+    expenses: (expenses.data || []) as DbExpense[],
+    maintenance: (maintenance.data || []) as DbMaintenanceRequest[],
+    // السعر اليدوي للمالك يأتي قبل المشترك لنفس اليوم فيبقى وحده
+    rates: ((rates.data || []) as Array<{ rate_date: string; jod_to_ils_rate: number; source: "api" | "manual" }>).filter(
+      (r, i, all) => i === 0 || all[i - 1].rate_date !== r.rate_date
+    ),
   };
 }
 
-export async function fetchJodIlsRate(): Promise<number> {
-  const apiKey = process.env.NEXT_PUBLIC_CURRENCYAPI_KEY;
-  if (!apiKey) throw new Error("مفقود مفتاح currencyapi. أضف NEXT_PUBLIC_CURRENCYAPI_KEY");
-  const url = `https://api.currencyapi.com/v3/latest?base_currency=JOD&currencies=ILS&apikey=${apiKey}`;
-  const res = await fetch(url);
-  if (!res.ok) throw new Error("فشل جلب سعر الصرف من currencyapi");
-  const json = await res.json();
-  const rate = json?.data?.ILS?.value;
-  if (typeof rate !== "number") throw new Error("بيانات غير صالحة لسعر الصرف");
-  return rate;
+// الفواتير والإيصالات تُولَّد PDF على الخادم (/api/print) من صفوف المالك، بجلسة المستخدم نفسها
+export async function dbFetchDocumentPdf(query: string): Promise<Blob> {
+  const supabase = getSupabaseClient();
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("غير مسجل دخول");
+  const res = await fetch(`/api/print?${query}`, { headers: { Authorization: `Bearer ${token}` } });
+  if (res.status === 404) throw new Error("المستند غير موجود على الخادم.");
+  if (!res.ok) throw new Error("تعذر إنشاء ملف PDF.");
+  return res.blob();
+}
+
+// السعر يُجلب ويُحفظ على الخادم فقط (/api/rates)؛ الواجهة تقرأ آخر سعر محفوظ
+export async function dbFetchLatestRate() {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { data, error } = await supabase
+    .from("exchange_rates")
+    .select("rate_date, jod_to_ils_rate, source")
+    .or(`owner_id.is.null,owner_id.eq.${ownerId}`)
+    .order("rate_date", { ascending: false })
+    .order("owner_id", { ascending: true, nullsFirst: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data as { rate_date: string; jod_to_ils_rate: number; source: "api" | "manual" } | null;
+}
+
+export type DbBackupSummary = {
+  id: number;
+  created_at: string;
+  schema_version: number;
+  source: "manual" | "scheduled";
+  row_counts: Partial<Record<BackupTable, number>> | null;
+};
+
+// اللقطة تُبنى من الجداول نفسها لا من نسخة الواجهة، فتطابق ما تعيد الاستعادة كتابته
+export async function dbCreateBackup() {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const payload = await snapshotTables(supabase, ownerId);
+  const { error } = await supabase.from("backups").insert({
+    owner_id: ownerId,
+    schema_version: BACKUP_SCHEMA_VERSION,
+    source: "manual",
+    row_counts: backupRowCounts(payload),
+    payload,
+  });
+  if (error) throw error;
+}
+
+export async function dbListBackups(): Promise<DbBackupSummary[]> {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { data, error } = await supabase
+    .from("backups")
+    .select("id, created_at, schema_version, source, row_counts")
+    .eq("owner_id", ownerId)
+    .order("created_at", { ascending: false })
+    .limit(100);
+  if (error) throw error;
+  return (data || []) as DbBackupSummary[];
+}
+
+export async function dbFetchBackup(id: number): Promise<{ schema_version: number; payload: BackupPayload }> {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  const { data, error } = await supabase.from("backups").select("schema_version, payload").eq("id", id).eq("owner_id", ownerId).single();
+  if (error) throw error;
+  return data as { schema_version: number; payload: BackupPayload };
 }
 
+export async function dbSnapshotCurrent(): Promise<BackupPayload> {
+  const supabase = getSupabaseClient();
+  const ownerId = await getCurrentUserId();
+  return snapshotTables(supabase, ownerId);
+}
 
+// الاستعادة في معاملة واحدة على الخادم (restore_backup): أي تعارض في المفاتيح يلغيها كلها
+export async function dbRestoreBackup(id: number, tables: BackupTable[]) {
+  const supabase = getSupabaseClient();
+  const { error } = await supabase.rpc("restore_backup", { p_backup_id: id, p_tables: tables });
+  if (error) throw error;
+}
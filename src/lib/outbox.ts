@@ -0,0 +1,213 @@
+// صندوق الكتابات المعلّقة: كل تعديل محلي يُسجَّل هنا ثم يُرسل للخادم بالترتيب، ويُعاد بتأخير متزايد عند انقطاع الاتصال.
+// يُحفظ في localStorage (zc_outbox_v1) فيبقى بعد إغلاق الصفحة ويُستأنف عند فتحها أو عودة الاتصال.
+// الصندوق مشترك بين التبويبات: يُعاد قراءته قبل كل تعديل، ولا يرسله إلا تبويب واحد في كل مرة (navigator.locks).
+import * as db from "./db";
+
+type DbModule = typeof db;
+
+// دوال db.ts التي تُكتب عبر الصندوق؛ معاملاتها تُحفظ كـ JSON فلا تصلح لها الملفات المرفوعة
+export type OutboxOp = {
+  [K in keyof DbModule]: K extends `db${"Insert" | "Upsert" | "Update" | "Delete" | "Void" | "Set" | "Toggle" | "End" | "Replace" | "Archive" | "Restore"}${string}`
+    ? DbModule[K] extends (...args: never[]) => Promise<unknown>
+      ? K
+      : never
+    : never;
+}[keyof DbModule];
+
+export type OutboxEntry = {
+  id: string;
+  op: OutboxOp;
+  args: unknown[];
+  label: string; // وصف العملية كما يظهر للمستخدم عند الفشل
+  rowIds: string[]; // الصفوف التي تحمل شارة "بانتظار المزامنة" حتى تنجح العملية
+  undo?: unknown; // نسخة الصف قبل التعديل؛ تُسترجع محلياً إن رفض الخادم العملية
+  status: "pending" | "failed";
+  attempts: number;
+  nextAttemptAt: number;
+  error?: string;
+};
+
+const STORAGE_KEY = "zc_outbox_v1";
+const LOCK_NAME = "zc_outbox_flush";
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const EMPTY: OutboxEntry[] = [];
+
+let entries: OutboxEntry[] = [];
+let entriesRaw: string | null = null; // النص المخزّن الذي قُرئت منه entries؛ تُعاد القراءة فقط إن تغيّر
+let flushing: Promise<void> | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let resultHandler: ((entry: OutboxEntry, result: unknown) => void) | null = null;
+let rejectionHandler: ((entry: OutboxEntry) => void) | null = null;
+const listeners = new Set<() => void>();
+
+// تبويب آخر قد يكون غيّر الصندوق، فالقراءة من التخزين دائماً؛ نفس النص يعيد نفس المصفوفة (useSyncExternalStore)
+function load(): OutboxEntry[] {
+  let raw: string | null = null;
+  try {
+    raw = localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return entries;
+  }
+  if (raw === entriesRaw) return entries;
+  try {
+    entries = raw ? (JSON.parse(raw) as OutboxEntry[]) : [];
+  } catch {
+    entries = [];
+  }
+  entriesRaw = raw;
+  return entries;
+}
+
+function save(next: OutboxEntry[]) {
+  entries = next;
+  try {
+    entriesRaw = JSON.stringify(next);
+    localStorage.setItem(STORAGE_KEY, entriesRaw);
+  } catch {}
+  listeners.forEach((l) => l());
+}
+
+function onStorage(e: StorageEvent) {
+  if (e.key !== STORAGE_KEY && e.key !== null) return;
+  listeners.forEach((l) => l());
+  schedule();
+}
+
+function update(id: string, patch: Partial<OutboxEntry>) {
+  save(load().map((e) => (e.id === id ? { ...e, ...patch } : e)));
+}
+
+export function getOutbox(): OutboxEntry[] {
+  return typeof window === "undefined" ? EMPTY : load();
+}
+
+export function getOutboxServerSnapshot(): OutboxEntry[] {
+  return EMPTY;
+}
+
+export function subscribeOutbox(listener: () => void): () => void {
+  if (listeners.size === 0) window.addEventListener("storage", onStorage);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener("storage", onStorage);
+  };
+}
+
+// العمليات المعلّقة التي تشترك في صف مع عملية فاشلة قبلها: تنتظر حتى يُعاد إرسال الفاشلة أو يُتخلى عنها
+export function blockedOutboxIds(queue: OutboxEntry[]): Set<string> {
+  const failedRows = new Set<string>();
+  const blocked = new Set<string>();
+  for (const e of queue) {
+    if (e.status === "failed") e.rowIds.forEach((id) => failedRows.add(id));
+    else if (e.rowIds.some((id) => failedRows.has(id))) blocked.add(e.id);
+  }
+  return blocked;
+}
+
+function nextEntry(queue: OutboxEntry[]): OutboxEntry | undefined {
+  const blocked = blockedOutboxIds(queue);
+  return queue.find((e) => e.status === "pending" && !blocked.has(e.id));
+}
+
+export function hasPendingWrites(): boolean {
+  return load().some((e) => e.status === "pending");
+}
+
+// نتائج يحتاجها التطبيق بعد نجاح الإرسال، مثل أرقام المستندات التي يخصصها الخادم
+export function setOutboxResultHandler(handler: ((entry: OutboxEntry, result: unknown) => void) | null) {
+  resultHandler = handler;
+}
+
+// التراجع عن التعديل المحلي عندما يرفض الخادم عملية تحمل undo
+export function setOutboxRejectionHandler(handler: ((entry: OutboxEntry) => void) | null) {
+  rejectionHandler = handler;
+}
+
+export function enqueue<K extends OutboxOp>(op: K, meta: { label: string; rowIds?: string[]; undo?: unknown }, ...args: Parameters<DbModule[K]>) {
+  const entry: OutboxEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    op,
+    args,
+    label: meta.label,
+    rowIds: meta.rowIds || [],
+    undo: meta.undo,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: 0,
+  };
+  save([...load(), entry]);
+  void flushOutbox();
+}
+
+// رفض الخادم (قيد، صلاحية، تعارض) يحمل رمز خطأ؛ غيابه يعني أن الطلب لم يصل (انقطاع الشبكة أو انتهاء الجلسة)
+function isRejection(e: unknown): boolean {
+  const code = (e as { code?: unknown } | null)?.code;
+  return typeof code === "string" && code !== "";
+}
+
+function errorMessage(e: unknown): string {
+  if (e instanceof Error) return e.message;
+  return (e as { message?: string } | null)?.message || "خطأ غير معروف";
+}
+
+// تُرسل العمليات بالترتيب؛ العملية المرفوضة تُعلَّم فاشلة وتُكمل ما بعدها عدا ما يمس نفس الصفوف، والمتعثرة شبكياً توقف الصف حتى موعد إعادتها
+async function run() {
+  for (;;) {
+    const entry = nextEntry(load());
+    if (!entry || entry.nextAttemptAt > Date.now()) return;
+    try {
+      const fn = db[entry.op] as (...args: unknown[]) => Promise<unknown>;
+      const result = await fn(...entry.args);
+      save(load().filter((e) => e.id !== entry.id));
+      resultHandler?.(entry, result);
+    } catch (e) {
+      if (isRejection(e)) {
+        update(entry.id, { status: "failed", error: errorMessage(e) });
+        rejectionHandler?.(entry);
+        continue;
+      }
+      const attempts = entry.attempts + 1;
+      update(entry.id, { attempts, nextAttemptAt: Date.now() + Math.min(BASE_DELAY_MS * 2 ** attempts, MAX_DELAY_MS), error: errorMessage(e) });
+      return;
+    }
+  }
+}
+
+function schedule() {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  const next = nextEntry(load());
+  if (!next) return;
+  timer = setTimeout(() => void flushOutbox(), Math.max(next.nextAttemptAt - Date.now(), 1000));
+}
+
+// تبويب واحد يرسل في كل مرة؛ إن كان القفل مع تبويب آخر فهو يرسل ما في الصندوق المشترك، ويُعاد الفحص بالمؤقت
+async function runExclusive() {
+  if (typeof navigator === "undefined" || !navigator.locks) return run();
+  await navigator.locks.request(LOCK_NAME, { ifAvailable: true }, async (lock) => {
+    if (lock) await run();
+  });
+}
+
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = runExclusive().finally(() => {
+      flushing = null;
+      schedule();
+    });
+  }
+  return flushing;
+}
+
+// حل التعارض: إعادة إرسال النسخة المحلية كما هي، أو التخلي عنها واعتماد نسخة الخادم
+export function retryOutboxEntry(id: string) {
+  update(id, { status: "pending", attempts: 0, nextAttemptAt: 0, error: undefined });
+  void flushOutbox();
+}
+
+export function discardOutboxEntry(id: string) {
+  save(load().filter((e) => e.id !== id));
+  void flushOutbox();
+}
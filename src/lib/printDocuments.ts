@@ -0,0 +1,193 @@
+// مستندات الفواتير والإيصالات (A4، من اليمين لليسار) كصفحة HTML مستقلة يحوّلها /api/print إلى PDF.
+// لا تعتمد على Tailwind ولا على React: الأنماط مضمّنة في الصفحة نفسها.
+import { amountToArabicWords } from "./arabicWords";
+
+type Currency = "JOD" | "ILS";
+
+export type PrintSettings = { buildingName?: string; buildingAddress?: string; logoUrl?: string };
+
+export type PrintLine = { label: string; amount: number; currency: Currency };
+
+export type PrintInvoice = {
+  id: string;
+  unitId: string;
+  tenantId: string;
+  period: string;
+  scope: "monthly" | "yearly";
+  totalBase: number;
+  currency: Currency;
+  jodToIlsRate: number;
+  rentAmount: number;
+  rentCurrency: Currency;
+  utilitiesJod: number;
+  utilitiesIls: number;
+  utilityLines?: PrintLine[]; // بند لكل نوع رسوم؛ بدونها يُطبع مجموع كل عملة
+  prorationNote?: string;
+  voidedAt?: string;
+  number?: string;
+};
+
+// jodToIlsRate: سعر يوم الدفعة (أو آخر سعر قبله)
+export type PrintReceipt = {
+  id: string;
+  tenantId: string;
+  unitId: string;
+  date: string;
+  amount: number;
+  currency: Currency;
+  note?: string;
+  number?: string;
+  voidedAt?: string;
+  jodToIlsRate: number;
+  allocations: Array<{ amount: number; invoice?: PrintInvoice }>;
+};
+
+export type PrintData = {
+  settings: PrintSettings;
+  units: Array<{ id: string; name: string }>;
+  tenants: Array<{ id: string; name: string }>;
+  invoices: PrintInvoice[];
+  receipt?: PrintReceipt;
+};
+
+const CURRENCY_LABELS: Record<Currency, string> = { JOD: "دينار", ILS: "شيكل" };
+
+const STYLES = `
+  @page { size: A4; margin: 15mm; }
+  body { margin: 0; color: #000; font-family: "Noto Naskh Arabic", "Noto Sans Arabic", sans-serif; }
+  .page { break-after: page; }
+  .page:last-child { break-after: auto; }
+  header { display: flex; align-items: flex-start; justify-content: space-between; border-bottom: 2px solid #000; padding-bottom: 16px; margin-bottom: 24px; }
+  .building { font-size: 20px; font-weight: 700; }
+  .title { font-size: 24px; font-weight: 700; }
+  .small { font-size: 14px; margin-top: 4px; }
+  .center { text-align: center; }
+  .number { font-family: monospace; }
+  .voided { font-size: 18px; font-weight: 700; color: #dc2626; margin-top: 4px; }
+  .logo { width: 128px; height: 64px; background: left center / contain no-repeat; }
+  .parties { display: grid; grid-template-columns: 1fr 1fr; gap: 8px; font-size: 14px; margin-bottom: 24px; }
+  .muted { color: #525252; }
+  table { width: 100%; font-size: 14px; border-collapse: collapse; text-align: right; }
+  th, td { padding: 8px 0; }
+  thead tr { border-bottom: 1px solid #000; }
+  tbody tr { border-bottom: 1px solid #d4d4d4; }
+  .totals { margin-top: 24px; margin-bottom: 24px; }
+  .total { font-size: 18px; font-weight: 700; }
+  .signature { margin-top: 64px; font-size: 14px; }
+`;
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+}
+
+function money(amount: number, currency: Currency): string {
+  const formatter = new Intl.NumberFormat("ar-JO", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${formatter.format(amount)} ${CURRENCY_LABELS[currency]}`;
+}
+
+function convert(amount: number, from: Currency, to: Currency, jodToIlsRate: number): number {
+  if (from === to) return amount;
+  return from === "JOD" ? amount * jodToIlsRate : amount / jodToIlsRate;
+}
+
+function other(currency: Currency): Currency {
+  return currency === "JOD" ? "ILS" : "JOD";
+}
+
+// الشعار صورة خلفية في إطار ثابت الارتفاع، تُصغّر لتتسع له
+function documentHeader(settings: PrintSettings, title: string, subtitle: string, number: string | undefined, voided: boolean): string {
+  const logo = settings.logoUrl ? `<div class="logo" style="background-image: ${escapeHtml(`url(${JSON.stringify(settings.logoUrl)})`)}"></div>` : `<div style="width: 64px"></div>`;
+  return `<header>
+    <div>
+      <div class="building">${escapeHtml(settings.buildingName || "إدارة العقارات")}</div>
+      ${settings.buildingAddress ? `<div class="small">${escapeHtml(settings.buildingAddress)}</div>` : ""}
+    </div>
+    <div class="center">
+      <div class="title">${title}</div>
+      <div class="small">${escapeHtml(subtitle)}</div>
+      <div class="small number" dir="ltr">${escapeHtml(number || "بدون رقم")}</div>
+      ${voided ? `<div class="voided">ملغى</div>` : ""}
+    </div>
+    ${logo}
+  </header>`;
+}
+
+function partyRow(data: PrintData, tenantId: string, unitId: string, extra: Array<[string, string]>): string {
+  const tenant = data.tenants.find((t) => t.id === tenantId);
+  const unit = data.units.find((u) => u.id === unitId);
+  const cells: Array<[string, string]> = [["المستأجر", tenant?.name || "-"], ["الوحدة", unit?.name || "-"], ...extra];
+  return `<div class="parties">${cells
+    .map(([label, value]) => `<div><span class="muted">${label}: </span><strong>${escapeHtml(value)}</strong></div>`)
+    .join("")}</div>`;
+}
+
+function invoiceDocument(data: PrintData, invoice: PrintInvoice): string {
+  const rate = invoice.jodToIlsRate;
+  const utilities: PrintLine[] = invoice.utilityLines ?? [
+    { label: "المرافق والرسوم بالدينار", amount: invoice.utilitiesJod, currency: "JOD" },
+    { label: "المرافق والرسوم بالشيكل", amount: invoice.utilitiesIls, currency: "ILS" },
+  ];
+  const lines: PrintLine[] = [
+    { label: `الأجار${invoice.prorationNote ? ` (${invoice.prorationNote})` : ""}`, amount: invoice.rentAmount, currency: invoice.rentCurrency },
+    ...utilities,
+  ].filter((l) => l.amount > 0);
+  const subtitle = invoice.scope === "monthly" ? `عن شهر ${invoice.period}` : `عن سنة ${invoice.period}`;
+  return `<article class="page">
+    ${documentHeader(data.settings, "فاتورة", subtitle, invoice.number, !!invoice.voidedAt)}
+    ${partyRow(data, invoice.tenantId, invoice.unitId, [["سعر الصرف", `1 دينار = ${rate} شيكل`]])}
+    <table>
+      <thead><tr><th>البند</th><th>المبلغ</th><th>بال${CURRENCY_LABELS[invoice.currency]}</th></tr></thead>
+      <tbody>${lines
+        .map(
+          (l) =>
+            `<tr><td>${escapeHtml(l.label)}</td><td>${money(l.amount, l.currency)}</td><td>${money(convert(l.amount, l.currency, invoice.currency, rate), invoice.currency)}</td></tr>`
+        )
+        .join("")}</tbody>
+    </table>
+    <div class="totals">
+      <div class="total">الإجمالي: ${money(invoice.totalBase, invoice.currency)}</div>
+      <div class="small">يعادل: ${money(convert(invoice.totalBase, invoice.currency, other(invoice.currency), rate), other(invoice.currency))}</div>
+      <div class="small">${amountToArabicWords(invoice.totalBase, invoice.currency)}</div>
+    </div>
+  </article>`;
+}
+
+function receiptDocument(data: PrintData, receipt: PrintReceipt): string {
+  const rate = receipt.jodToIlsRate;
+  const allocations = receipt.allocations.length
+    ? `<table>
+      <thead><tr><th>عن فاتورة</th><th>المبلغ</th></tr></thead>
+      <tbody>${receipt.allocations
+        .map((a) => {
+          const label = a.invoice ? `${a.invoice.number ? `${a.invoice.number} — ` : ""}${a.invoice.period}` : "-";
+          return `<tr><td>${escapeHtml(label)}</td><td>${money(a.amount, receipt.currency)}</td></tr>`;
+        })
+        .join("")}</tbody>
+    </table>`
+    : "";
+  return `<article class="page">
+    ${documentHeader(data.settings, "سند قبض", `بتاريخ ${receipt.date}`, receipt.number, !!receipt.voidedAt)}
+    ${partyRow(data, receipt.tenantId, receipt.unitId, receipt.note ? [["البيان", receipt.note]] : [])}
+    <div class="totals">
+      <div class="total">استلمنا مبلغ: ${money(receipt.amount, receipt.currency)}</div>
+      <div class="small">${amountToArabicWords(receipt.amount, receipt.currency)}</div>
+      <div class="small">يعادل: ${money(convert(receipt.amount, receipt.currency, other(receipt.currency), rate), other(receipt.currency))} (1 دينار = ${rate} شيكل)</div>
+    </div>
+    ${allocations}
+    <div class="signature">توقيع المستلم: ....................</div>
+  </article>`;
+}
+
+// الإيصال (إن وُجد) ثم الفواتير، كل مستند في صفحة
+// fontFaces: قواعد @font-face للخط مضمّنة في الصفحة، فلا ينتظر التحويل أي تحميل من الشبكة
+export function documentsHtml(data: PrintData, fontFaces: string): string {
+  const body = [...(data.receipt ? [receiptDocument(data, data.receipt)] : []), ...data.invoices.map((i) => invoiceDocument(data, i))].join("");
+  return `<!doctype html>
+<html lang="ar" dir="rtl">
+<head>
+  <meta charset="utf-8" />
+  <style>${fontFaces}${STYLES}</style>
+</head>
+<body>${body}</body>
+</html>`;
+}
@@ -0,0 +1,117 @@
+import { readFile } from "fs/promises";
+
+// Server-only: exchange-rate providers used by /api/rates. API keys here must never be NEXT_PUBLIC_*.
+
+export interface RateProvider {
+  name: string;
+  fetchJodToIls(): Promise<number>;
+}
+
+export type RateResult = {
+  rate: number;
+  provider: string;
+  errors: string[]; // failures of providers tried before the one that succeeded
+};
+
+const FETCH_TIMEOUT_MS = 8000;
+
+// Default maximum relative change accepted against the previous stored rate (10%).
+export const DEFAULT_MAX_JUMP = 0.1;
+
+function assertRate(value: unknown, provider: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`${provider}: invalid rate`);
+  }
+  return value;
+}
+
+async function fetchJson(url: string, provider: string) {
+  const res = await fetch(url, { cache: "no-store", signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!res.ok) throw new Error(`${provider}: HTTP ${res.status}`);
+  return res.json();
+}
+
+export function currencyApiProvider(apiKey: string): RateProvider {
+  return {
+    name: "currencyapi",
+    async fetchJodToIls() {
+      const url = `https://api.currencyapi.com/v3/latest?base_currency=JOD&currencies=ILS&apikey=${apiKey}`;
+      const json = await fetchJson(url, "currencyapi");
+      return assertRate(json?.data?.ILS?.value, "currencyapi");
+    },
+  };
+}
+
+// open.er-api.com: free, no key required.
+export function erApiProvider(): RateProvider {
+  return {
+    name: "erapi",
+    async fetchJodToIls() {
+      const json = await fetchJson("https://open.er-api.com/v6/latest/JOD", "erapi");
+      if (json?.result !== "success") throw new Error(`erapi: ${json?.["error-type"] || "request failed"}`);
+      return assertRate(json?.rates?.ILS, "erapi");
+    },
+  };
+}
+
+// For offline development and tests.
+export function fixedProvider(rate: number): RateProvider {
+  return {
+    name: "fixed",
+    async fetchJodToIls() {
+      return assertRate(rate, "fixed");
+    },
+  };
+}
+
+// Reads a JSON file shaped like { "JOD_ILS": 5.1 }.
+export function fileProvider(path: string): RateProvider {
+  return {
+    name: "file",
+    async fetchJodToIls() {
+      const json = JSON.parse(await readFile(path, "utf8"));
+      return assertRate(json?.JOD_ILS, "file");
+    },
+  };
+}
+
+// RATE_PROVIDERS lists providers in fallback order, e.g. "currencyapi,erapi,fixed".
+// Providers whose configuration is missing are skipped.
+export function providersFromEnv(env: NodeJS.ProcessEnv = process.env): RateProvider[] {
+  const names = (env.RATE_PROVIDERS || "currencyapi,erapi")
+    .split(",")
+    .map((n) => n.trim())
+    .filter(Boolean);
+  return names.flatMap((name): RateProvider[] => {
+    switch (name) {
+      case "currencyapi":
+        return env.CURRENCYAPI_KEY ? [currencyApiProvider(env.CURRENCYAPI_KEY)] : [];
+      case "erapi":
+        return [erApiProvider()];
+      case "fixed":
+        return env.RATE_FIXED_JOD_ILS ? [fixedProvider(Number(env.RATE_FIXED_JOD_ILS))] : [];
+      case "file":
+        return env.RATE_FILE ? [fileProvider(env.RATE_FILE)] : [];
+      default:
+        return [];
+    }
+  });
+}
+
+// Tries each provider in order. A rate that moves more than maxJump away from the
+// previous stored rate is treated as a failure so the next provider gets a chance.
+export async function fetchJodIlsRate(providers: RateProvider[], previous: number | null, maxJump: number = DEFAULT_MAX_JUMP): Promise<RateResult> {
+  const errors: string[] = [];
+  for (const provider of providers) {
+    try {
+      const rate = await provider.fetchJodToIls();
+      if (previous && Math.abs(rate / previous - 1) > maxJump) {
+        throw new Error(`${provider.name}: rate ${rate} is more than ${maxJump * 100}% away from previous ${previous}`);
+      }
+      return { rate, provider: provider.name, errors };
+    } catch (e) {
+      errors.push(e instanceof Error ? e.message : `${provider.name}: error`);
+    }
+  }
+  throw new Error(errors.length ? `all rate providers failed: ${errors.join("; ")}` : "no rate providers configured");
+}
@@ -0,0 +1,119 @@
+// قراءة ملفات CSV وXLSX في المتصفح كجدول نصي (الصف الأول = العناوين)، وتصدير الجداول إليهما
+
+// CSV حسب RFC 4180: الحقول بين علامتي تنصيص قد تحتوي فواصل وأسطراً و"" للتنصيص
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const src = text.replace(/^﻿/, "");
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === "object") {
+    const v = value as { text?: string; result?: unknown; richText?: Array<{ text: string }> };
+    if (v.richText) return v.richText.map((r) => r.text).join("");
+    if (v.text !== undefined) return String(v.text);
+    if (v.result !== undefined) return cellText(v.result);
+  }
+  return String(value);
+}
+
+// الورقة الأولى فقط؛ تواريخ Excel تُحوّل إلى YYYY-MM-DD
+async function parseXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const { Workbook } = await import("exceljs");
+  const workbook = new Workbook();
+  await workbook.xlsx.load(buffer);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = [];
+    for (let c = 1; c <= sheet.columnCount; c++) cells.push(cellText(row.getCell(c).value).trim());
+    rows.push(cells);
+  });
+  return rows.filter((r) => r.some((c) => c !== ""));
+}
+
+export async function readSpreadsheet(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) return parseXlsx(await file.arrayBuffer());
+  if (/\.csv$/i.test(file.name) || file.type === "text/csv") return parseCsv(await file.text());
+  throw new Error("صيغة غير مدعومة: استخدم CSV أو XLSX");
+}
+
+// تصدير الجداول: العناوين عربية والصفوف كما تظهر في الواجهة
+export type ExportTable = { headers: string[]; rows: Array<Array<string | number>> };
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// نص CSV يبدأ بـ = أو + أو - أو @ (أو محرف جدولة أو سطر) يُنفّذه Excel كصيغة عند فتح الملف، فيُسبق بفاصلة عليا؛ الأرقام تبقى أرقاماً
+// ملف XLSX لا يحتاجه: exceljs يكتب النصوص كنصوص لا تُنفّذ
+function safeCell(value: string | number): string | number {
+  return typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function csvField(value: string | number): string {
+  const s = String(safeCell(value));
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// BOM في البداية حتى يقرأ Excel الملف كـ UTF-8 ولا تظهر العربية رموزاً
+export function downloadCsv(fileName: string, table: ExportTable) {
+  const lines = [table.headers, ...table.rows].map((r) => r.map(csvField).join(","));
+  downloadBlob(new Blob(["\uFEFF" + lines.join("\r\n")], { type: "text/csv;charset=utf-8" }), fileName);
+}
+
+// الورقة من اليمين لليسار، وصف العناوين عريض ومثبت عند التمرير
+export async function downloadXlsx(fileName: string, sheetName: string, table: ExportTable) {
+  const { Workbook } = await import("exceljs");
+  const workbook = new Workbook();
+  const sheet = workbook.addWorksheet(sheetName.slice(0, 31), { views: [{ rightToLeft: true, state: "frozen", ySplit: 1 }] });
+  sheet.addRow(table.headers).font = { bold: true };
+  sheet.addRows(table.rows);
+  sheet.columns.forEach((column, i) => {
+    const widest = Math.max(...[table.headers, ...table.rows].map((r) => String(r[i] ?? "").length));
+    column.width = Math.min(Math.max(widest + 2, 10), 50);
+  });
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(new Blob([buffer], { type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" }), fileName);
+}